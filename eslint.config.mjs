@@ -24,6 +24,12 @@ export default [
         fetch: 'readonly',
         URL: 'readonly',
         AbortSignal: 'readonly',
+        AbortController: 'readonly',
+        Response: 'readonly',
+        ReadableStream: 'readonly',
+        TextEncoder: 'readonly',
+        TextDecoder: 'readonly',
+        Headers: 'readonly',
         // Browser globals
         window: 'readonly',
         document: 'readonly',
@@ -39,6 +45,8 @@ export default [
     },
     rules: {
       '@typescript-eslint/no-explicit-any': 'error',
+      'no-unused-vars': 'off',
+      '@typescript-eslint/no-unused-vars': 'error',
       // Add Next.js specific rules here if needed
     },
   },
@@ -0,0 +1,50 @@
+import { config } from 'dotenv';
+import { readFile } from 'fs/promises';
+import { getStorage } from '../src/storage';
+import { getWorkspaceId } from '../src/workspaces';
+import { auditPage, buildAuditBenchmark, formatAuditReport } from '../utils/auditUtils';
+import { extractPageStructure } from '../utils/htmlUtils';
+import { getPageFetcher } from '../utils/pageFetcher';
+import type { PageExtraction } from '../src/types';
+
+config();
+
+const JSON_FLAG = '--json';
+const HTML_FLAG = '--html=';
+
+// Usage: npm run audit-page -- <url> "<tracked query>" [--html=<file>] [--json]
+// With --html the page is read from the file instead of fetched, e.g. a saved fixture.
+async function loadPage(url: string): Promise<PageExtraction> {
+  const htmlFile = process.argv.find(arg => arg.startsWith(HTML_FLAG))?.slice(HTML_FLAG.length);
+  if (htmlFile) {
+    return extractPageStructure(await readFile(htmlFile, 'utf-8'), url);
+  }
+  return getPageFetcher().fetchPage(url);
+}
+
+async function main() {
+  const [url, query] = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  if (!url || !query) {
+    console.error('Usage: npm run audit-page -- <url> "<tracked query>" [--html=<file>] [--json]');
+    process.exit(1);
+  }
+
+  const page = await loadPage(url);
+  if (page.status !== 'fetched') {
+    throw new Error(`Could not fetch ${url}: ${page.reason}`);
+  }
+
+  const rows = await getStorage().findDocuments({ workspace: getWorkspaceId(), queries: [query], newestFirst: true, limit: 200 });
+  const benchmark = buildAuditBenchmark(query, rows);
+  if (!benchmark || benchmark.competitors.length === 0) {
+    throw new Error(`No stored top results for "${query}" in workspace ${getWorkspaceId()}`);
+  }
+
+  const report = auditPage(page, benchmark);
+  console.log(process.argv.includes(JSON_FLAG) ? JSON.stringify(report, null, 2) : formatAuditReport(report));
+}
+
+main().catch((err: unknown) => {
+  console.error(err);
+  process.exit(1);
+});
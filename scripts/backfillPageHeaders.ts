@@ -0,0 +1,97 @@
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { config } from 'dotenv';
+import { getSupabaseClient, updateEntryMetadata, vectorTableName } from '../src/vectorStore';
+import { parsePageHeaders } from '../utils/textUtils';
+import type { ProcessedEntry, SerpMetadata } from '../src/types';
+
+config();
+
+const PAGE_SIZE = 500;
+const DRY_RUN_FLAG = '--dry-run';
+const processedPath = join(process.cwd(), 'assets', 'processed.json');
+
+// Rows built before headings were stored in metadata only carry them as "Page H1/H2/H3" lines in the text blob.
+function withPageHeaders(entry: ProcessedEntry): ProcessedEntry | null {
+  const { metadata } = entry;
+  if (metadata.type !== 'organic' || metadata.h1 !== undefined || metadata.page_status === 'not_fetched') {
+    return null;
+  }
+  const headers = parsePageHeaders(entry.text_blob);
+  if (!headers && metadata.page_status) return null;
+  return {
+    ...entry,
+    metadata: {
+      ...metadata,
+      page_status: metadata.page_status ?? (headers ? 'fetched' : 'not_fetched'),
+      ...(headers ?? {})
+    }
+  };
+}
+
+async function backfillProcessedFile(dryRun: boolean): Promise<number> {
+  let entries: ProcessedEntry[];
+  try {
+    entries = JSON.parse(await readFile(processedPath, 'utf-8')) as ProcessedEntry[];
+  } catch {
+    console.log('No processed.json found, skipping local backfill.');
+    return 0;
+  }
+
+  let updated = 0;
+  const backfilled = entries.map(entry => {
+    const next = withPageHeaders(entry);
+    if (!next) return entry;
+    updated++;
+    return next;
+  });
+  if (updated > 0 && !dryRun) {
+    await writeFile(processedPath, JSON.stringify(backfilled, null, 2));
+  }
+  return updated;
+}
+
+async function backfillVectorStore(dryRun: boolean): Promise<number> {
+  const client = getSupabaseClient();
+  let updated = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from(vectorTableName)
+      .select('id, content, metadata')
+      .eq('metadata->>type', 'organic')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to read documents: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as { id: string; content: string; metadata: SerpMetadata }[];
+    const changed = rows
+      .map(row => withPageHeaders({ id: row.id, text_blob: row.content, metadata: row.metadata }))
+      .filter((entry): entry is ProcessedEntry => entry !== null);
+    if (changed.length > 0 && !dryRun) {
+      await updateEntryMetadata(changed);
+    }
+    updated += changed.length;
+    console.log(`Scanned ${from + rows.length} organic documents, ${updated} backfilled...`);
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+  return updated;
+}
+
+async function backfillPageHeaders() {
+  const dryRun = process.argv.includes(DRY_RUN_FLAG);
+  const local = await backfillProcessedFile(dryRun);
+  console.log(`${dryRun ? 'Would backfill' : 'Backfilled'} ${local} entries in processed.json.`);
+  const remote = await backfillVectorStore(dryRun);
+  console.log(`${dryRun ? 'Would backfill' : 'Backfilled'} ${remote} documents in the vector store.`);
+}
+
+backfillPageHeaders().catch((err) => {
+  console.error('Failed to backfill page headers:', err);
+  process.exit(1);
+});
+
+export { backfillPageHeaders };
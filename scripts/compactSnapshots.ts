@@ -0,0 +1,262 @@
+import { readdir, readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { config } from 'dotenv';
+import { getSupabaseClient } from '../src/vectorStore';
+import { snapshotSerpId } from '../utils/buildSerpEntries';
+import { loadLedger, saveLedger } from '../utils/ingestionLedger';
+import { DEFAULT_RETENTION_POLICY, planRetention } from '../utils/retention';
+import { ARCHIVE_DIR, appendToArchive, archivePeriod } from '../utils/snapshotArchive';
+import { SCRAPPED_DIR } from '../utils/snapshotFiles';
+import type {
+  ArchivedDocument,
+  ArchivedSnapshot,
+  ProcessedEntry,
+  RetentionPolicy,
+  SerpChangeEvent,
+  SerpChangeType,
+  SerpData,
+  SerpMetadata,
+  SnapshotFingerprint,
+  SnapshotKind,
+  SnapshotMeta,
+  SnapshotRef
+} from '../src/types';
+
+config();
+
+const PAGE_SIZE = 1000;
+// Snapshots per document query, keeping the serp_id filter short
+const FETCH_BATCH_SIZE = 20;
+const DRY_RUN_FLAG = '--dry-run';
+const processedPath = join(process.cwd(), 'assets', 'processed.json');
+
+interface SnapshotHistory {
+  kind: SnapshotKind;
+  fingerprint: SnapshotFingerprint | null;
+  changes: SerpChangeEvent[];
+  previous_id: string | null;
+  meta: SnapshotMeta;
+}
+
+interface SnapshotRow {
+  id: string;
+  kind: SnapshotKind;
+  fingerprint: SnapshotFingerprint | null;
+  previous_id: string | null;
+  workspace_id: string;
+  captured_at: string;
+  serp_queries: Pick<SerpMetadata, 'query' | 'engine' | 'device' | 'gl' | 'hl'> & { serp_clusters: { name: string } | null };
+}
+
+interface ChangeEventRow {
+  snapshot_id: string;
+  event_type: SerpChangeType;
+  url: string | null;
+  domain: string | null;
+  feature: string | null;
+  previous_position: number | null;
+  position: number | null;
+}
+
+function retentionPolicy(): RetentionPolicy {
+  const days = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    dailyDays: days('RETENTION_DAILY_DAYS', DEFAULT_RETENTION_POLICY.dailyDays),
+    weeklyDays: days('RETENTION_WEEKLY_DAYS', DEFAULT_RETENTION_POLICY.weeklyDays)
+  };
+}
+
+// Baselines and deltas alike; planRetention keeps the baselines that retained deltas reference
+async function loadSnapshotRefs(): Promise<SnapshotRef[]> {
+  const client = getSupabaseClient();
+  const refs: SnapshotRef[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('serp_snapshots')
+      .select('id, query_id, captured_at, baseline_id')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to list snapshots: ${error.message}`);
+    const rows = (data ?? []) as { id: string; query_id: number; captured_at: string; baseline_id: string | null }[];
+    refs.push(...rows.map(row => ({
+      id: row.id,
+      queryKey: String(row.query_id),
+      capturedAt: row.captured_at,
+      baselineId: row.baseline_id
+    })));
+    if (rows.length < PAGE_SIZE) return refs;
+  }
+}
+
+// Kind, fingerprint, change events, previous snapshot, query and market of each snapshot, archived
+// with it since deleting the snapshot cascades to its events and deltas have no documents
+async function loadSnapshotHistory(serpIds: string[]): Promise<Map<string, SnapshotHistory>> {
+  const client = getSupabaseClient();
+  const history = new Map<string, SnapshotHistory>();
+  for (let i = 0; i < serpIds.length; i += FETCH_BATCH_SIZE) {
+    const batch = serpIds.slice(i, i + FETCH_BATCH_SIZE);
+    const { data, error } = await client
+      .from('serp_snapshots')
+      .select('id, kind, fingerprint, previous_id, workspace_id, captured_at, serp_queries(query, engine, device, gl, hl, serp_clusters(name))')
+      .in('id', batch);
+    if (error) throw new Error(`Failed to load snapshots: ${error.message}`);
+    // Many-to-one embeds come back as objects, which the untyped client declares as arrays
+    for (const row of (data ?? []) as unknown as SnapshotRow[]) {
+      const { serp_clusters: cluster, ...market } = row.serp_queries;
+      history.set(row.id, {
+        kind: row.kind,
+        fingerprint: row.fingerprint,
+        changes: [],
+        previous_id: row.previous_id,
+        meta: {
+          ...market,
+          workspace: row.workspace_id,
+          serp_id: row.id,
+          cluster: cluster?.name ?? null,
+          iso_date: row.captured_at,
+          serp_features: row.fingerprint?.features ?? []
+        }
+      });
+    }
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: events, error: eventsError } = await client
+        .from('serp_change_events')
+        .select('snapshot_id, event_type, url, domain, feature, previous_position, position')
+        .in('snapshot_id', batch)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (eventsError) throw new Error(`Failed to load change events: ${eventsError.message}`);
+      const rows = (events ?? []) as ChangeEventRow[];
+      for (const row of rows) {
+        history.get(row.snapshot_id)?.changes.push(toChangeEvent(row));
+      }
+      if (rows.length < PAGE_SIZE) break;
+    }
+  }
+  return history;
+}
+
+function toChangeEvent(row: ChangeEventRow): SerpChangeEvent {
+  const event: SerpChangeEvent = { type: row.event_type };
+  if (row.url !== null) event.url = row.url;
+  if (row.domain !== null) event.domain = row.domain;
+  if (row.feature !== null) event.feature = row.feature;
+  if (row.previous_position !== null) event.previous_position = row.previous_position;
+  if (row.position !== null) event.position = row.position;
+  return event;
+}
+
+async function loadDocuments(serpIds: string[]): Promise<Map<string, ArchivedDocument[]>> {
+  const client = getSupabaseClient();
+  const bySnapshot = new Map<string, ArchivedDocument[]>();
+  for (let i = 0; i < serpIds.length; i += FETCH_BATCH_SIZE) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await client
+        .from('serp_documents')
+        .select('id, content, metadata, serp_id')
+        .in('serp_id', serpIds.slice(i, i + FETCH_BATCH_SIZE))
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(`Failed to load snapshot documents: ${error.message}`);
+      const rows = (data ?? []) as (ArchivedDocument & { serp_id: string })[];
+      for (const row of rows) {
+        const documents = bySnapshot.get(row.serp_id) ?? [];
+        documents.push({ id: row.id, content: row.content, metadata: row.metadata });
+        bySnapshot.set(row.serp_id, documents);
+      }
+      if (rows.length < PAGE_SIZE) break;
+    }
+  }
+  return bySnapshot;
+}
+
+// Maps serp_id to the scrape file it came from, for the files still in assets/scrapped
+async function loadScrapeFiles(): Promise<Map<string, { file: string; data: SerpData }>> {
+  const files = new Map<string, { file: string; data: SerpData }>();
+  for (const file of (await readdir(SCRAPPED_DIR)).filter(f => f.endsWith('.json'))) {
+    try {
+      const data = JSON.parse(await readFile(join(SCRAPPED_DIR, file), 'utf-8')) as SerpData;
+      files.set(snapshotSerpId(data), { file, data });
+    } catch {
+      // Unreadable files are left for `npm run validate` to report
+    }
+  }
+  return files;
+}
+
+// Drops archived entries from processed.json and the ledger so seeding does not bring them back
+async function pruneLocalState(documentIds: Set<string>, removedFiles: string[]): Promise<void> {
+  try {
+    const entries = JSON.parse(await readFile(processedPath, 'utf-8')) as ProcessedEntry[];
+    await writeFile(processedPath, JSON.stringify(entries.filter(entry => !documentIds.has(entry.id)), null, 2));
+  } catch (err) {
+    if ((err as { code?: string }).code !== 'ENOENT') throw err;
+  }
+
+  const ledger = await loadLedger();
+  for (const id of documentIds) delete ledger.embeddings[id];
+  for (const file of removedFiles) delete ledger.files[file];
+  await saveLedger(ledger);
+}
+
+async function compactSnapshots() {
+  const dryRun = process.argv.includes(DRY_RUN_FLAG);
+  const policy = retentionPolicy();
+  const snapshots = await loadSnapshotRefs();
+  const plan = planRetention(snapshots, policy);
+  console.log(`Retention: daily for ${policy.dailyDays} days, weekly until ${policy.weeklyDays} days, monthly after.`);
+  console.log(`${snapshots.length} snapshots: keeping ${plan.keep.length}, ${dryRun ? 'would archive' : 'archiving'} ${plan.archive.length}.`);
+  if (dryRun || plan.archive.length === 0) return;
+
+  const byPeriod = new Map<string, SnapshotRef[]>();
+  for (const snapshot of plan.archive) {
+    const period = archivePeriod(snapshot.capturedAt);
+    byPeriod.set(period, [...(byPeriod.get(period) ?? []), snapshot]);
+  }
+
+  const scrapeFiles = await loadScrapeFiles();
+  const client = getSupabaseClient();
+  let totalDocuments = 0;
+
+  // Each period is written to disk before its rows are deleted, so a failed run loses nothing
+  for (const [period, refs] of [...byPeriod.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const ids = refs.map(ref => ref.id);
+    const [documents, history] = await Promise.all([loadDocuments(ids), loadSnapshotHistory(ids)]);
+    const archived: ArchivedSnapshot[] = refs.map(ref => ({
+      serp_id: ref.id,
+      captured_at: ref.capturedAt,
+      documents: documents.get(ref.id) ?? [],
+      snapshot: scrapeFiles.get(ref.id)?.data,
+      ...history.get(ref.id)
+    }));
+    await appendToArchive(period, archived);
+
+    // The RPC rolls back if it would delete documents the archive does not hold
+    const expected = archived.reduce((sum, snapshot) => sum + snapshot.documents.length, 0);
+    const { data, error } = await client.rpc('delete_serp_snapshots', { p_ids: ids, p_expected_documents: expected });
+    if (error) throw new Error(`Failed to delete archived snapshots for ${period}: ${error.message}`);
+
+    const removedFiles = ids.flatMap(id => {
+      const scrape = scrapeFiles.get(id);
+      return scrape ? [scrape.file] : [];
+    });
+    await Promise.all(removedFiles.map(file => unlink(join(SCRAPPED_DIR, file))));
+    await pruneLocalState(new Set(archived.flatMap(snapshot => snapshot.documents.map(doc => doc.id))), removedFiles);
+
+    totalDocuments += Number(data ?? 0);
+    console.log(`Archived ${refs.length} snapshots (${Number(data ?? 0)} documents, ${removedFiles.length} scrape files) to ${period}.`);
+  }
+
+  console.log(`Compaction complete: ${totalDocuments} documents moved to ${ARCHIVE_DIR}.`);
+}
+
+compactSnapshots().catch((err) => {
+  console.error('Failed to compact snapshots:', err);
+  process.exit(1);
+});
+
+export { compactSnapshots };
@@ -1,18 +1,112 @@
 import cron from 'node-cron';
-import { run } from './getSerp';
+import { config } from 'dotenv';
+import { runPipeline } from '../src/pipeline';
+import { loadClusters } from '../utils/clusterUtils';
+import {
+  CADENCES,
+  isRunMissed,
+  loadClusterSchedules,
+  loadSchedulerState,
+  saveSchedulerState,
+  selectBudgetedQueries
+} from '../utils/scheduleUtils';
+import type { ClusterDefinitions, ClusterSchedule } from '../src/types';
 
-const schedule = '0 0 * * *'; // every day at midnight
+config();
 
-console.log(`Scheduling getSerp at schedule: ${schedule} (server timezone)`);
+const RUN_ONCE_FLAG = '--once';
 
-cron.schedule(schedule, async () => {
-  console.log(new Date().toISOString(), 'Running scheduled getSerp');
+interface ClusterJob {
+  cluster: string;
+  trigger: string;
+  priority: number;
+  done: () => void;
+}
+
+const queue: ClusterJob[] = [];
+const pendingClusters = new Set<string>();
+let draining = false;
+
+async function runCluster(clusters: ClusterDefinitions, schedule: ClusterSchedule, job: ClusterJob) {
+  const state = await loadSchedulerState();
+  const { selected, nextCursor } = selectBudgetedQueries(
+    clusters[job.cluster],
+    schedule.queryBudget,
+    state[job.cluster]?.queryCursor ?? 0
+  );
+
+  console.log(new Date().toISOString(), `Running pipeline for cluster "${job.cluster}" (${job.trigger}, ${selected.length} queries)`);
   try {
-    await run();
-    console.log(new Date().toISOString(), 'getSerp completed');
+    const run = await runPipeline({ clusters: { [job.cluster]: selected }, trigger: `${job.trigger}:${job.cluster}` });
+    const documents = run.queries.reduce((sum, q) => sum + q.documents, 0);
+    console.log(new Date().toISOString(), `Pipeline ${run.status} for "${job.cluster}": ${run.queries.length} queries, ${documents} documents upserted`);
+
+    const latestState = await loadSchedulerState();
+    latestState[job.cluster] = { lastRunAt: run.startedAt, lastStatus: run.status, queryCursor: nextCursor };
+    await saveSchedulerState(latestState);
   } catch (err) {
-    console.error(new Date().toISOString(), 'getSerp failed:', err);
+    console.error(new Date().toISOString(), `Pipeline failed for "${job.cluster}":`, err);
+  }
+}
+
+async function drainQueue(clusters: ClusterDefinitions, schedules: Record<string, ClusterSchedule>) {
+  if (draining) return;
+  draining = true;
+  while (queue.length > 0) {
+    const job = queue.shift() as ClusterJob;
+    await runCluster(clusters, schedules[job.cluster], job);
+    pendingClusters.delete(job.cluster);
+    job.done();
+  }
+  draining = false;
+}
+
+// Runs share the snapshot folder and run log, so jobs are executed one at a time in priority order.
+function enqueueCluster(
+  clusters: ClusterDefinitions,
+  schedules: Record<string, ClusterSchedule>,
+  cluster: string,
+  trigger: string
+): Promise<void> {
+  if (pendingClusters.has(cluster)) {
+    console.log(new Date().toISOString(), `Skipping ${trigger} run for "${cluster}": previous run still pending`);
+    return Promise.resolve();
   }
+  pendingClusters.add(cluster);
+  return new Promise<void>((done) => {
+    queue.push({ cluster, trigger, priority: schedules[cluster].priority, done });
+    queue.sort((a, b) => a.priority - b.priority);
+    void drainQueue(clusters, schedules);
+  });
+}
+
+async function main() {
+  const clusters = await loadClusters();
+  const schedules = await loadClusterSchedules(Object.keys(clusters));
+  const clustersByPriority = Object.keys(schedules).sort((a, b) => schedules[a].priority - schedules[b].priority);
+
+  if (process.argv.includes(RUN_ONCE_FLAG)) {
+    await Promise.all(clustersByPriority.map(cluster => enqueueCluster(clusters, schedules, cluster, 'manual')));
+    process.exit(0);
+  }
+
+  for (const [cluster, schedule] of Object.entries(schedules)) {
+    const { cron: expression } = CADENCES[schedule.cadence];
+    console.log(`Scheduling "${cluster}" ${schedule.cadence} at ${expression} (priority ${schedule.priority}, budget ${schedule.queryBudget ?? 'all'} queries, server timezone)`);
+    cron.schedule(expression, () => enqueueCluster(clusters, schedules, cluster, 'cron'), { name: cluster });
+  }
+
+  const state = await loadSchedulerState();
+  const missed = clustersByPriority.filter(cluster => isRunMissed(schedules[cluster], state[cluster]));
+  for (const cluster of missed) {
+    console.log(`Catching up missed ${schedules[cluster].cadence} run for "${cluster}" (last run ${state[cluster].lastRunAt})`);
+    void enqueueCluster(clusters, schedules, cluster, 'catch-up');
+  }
+}
+
+main().catch((err: unknown) => {
+  console.error(err);
+  process.exit(1);
 });
 
 // keep process alive
@@ -1,29 +1,259 @@
 import { config } from 'dotenv';
-import { getSupabaseClient } from '../src/vectorStore';
-import { OpenAIEmbeddings } from '@langchain/openai';
+import { getSupabaseClient, getEmbeddingStatus } from '../src/vectorStore';
+import { EMBEDDING_DIMENSIONS, getEmbeddingProvider } from '../src/embeddingProviders';
+import { getWorkspaceId } from '../src/workspaces';
+import { loadClusters } from '../utils/clusterUtils';
+import { formatReasons } from '../utils/quarantine';
+import { validateSerpMetadata } from '../utils/serpSchema';
+import type { DatabaseCheck, DatabaseHealth, DatabaseHealthReport } from '../src/types';
 
 config();
 
-async function checkSelect() {
-  const client = getSupabaseClient();
-  const { data, error } = await client.from('seo_documents').select('id, content').limit(5);
+const JSON_FLAG = '--json';
+const PAGE_SIZE = 1000;
+const SAMPLE_SIZE = 20;
+
+// Parameter names and types the app calls the search RPCs with (schema prefixes are ignored)
+const EXPECTED_FUNCTIONS: Record<string, string[]> = {
+  match_seo_documents: [
+    'workspace_id text',
+    'query_embedding vector',
+    'match_count integer',
+    'filter jsonb',
+    'embedding_model text',
+    'embedding_version text'
+  ],
+  hybrid_search_seo_documents: [
+    'workspace_id text',
+    'query_text text',
+    'query_embedding vector',
+    'match_count integer',
+    'filter jsonb',
+    'full_text_weight double precision',
+    'semantic_weight double precision',
+    'rrf_k integer',
+    'embedding_model text',
+    'embedding_version text'
+  ]
+};
+
+function check(name: string, ok: boolean, message: string, details?: unknown): DatabaseCheck {
+  return details === undefined ? { name, ok, message } : { name, ok, message, details };
+}
+
+function withoutSchema(type: string): string {
+  return type.replace(/\b\w+\.(?=vector\b)/g, '');
+}
+
+async function loadHealth(): Promise<DatabaseHealth> {
+  const { data, error } = await getSupabaseClient().rpc('seo_database_health', {
+    p_dimensions: EMBEDDING_DIMENSIONS,
+    p_sample: SAMPLE_SIZE
+  });
   if (error) {
-    console.error('Select Error:', error);
-  } else {
-    console.log('Sample documents:', data);
+    throw new Error(`seo_database_health failed (is migration 20261025_database_health.sql applied?): ${error.message}`);
   }
+  return data as DatabaseHealth;
+}
 
-  const embeddings = new OpenAIEmbeddings({ model: 'text-embedding-3-small' });
-  const queryEmbedding = await embeddings.embedQuery('best pizza oven');
-  const { data: matchData, error: matchError } = await client.rpc('match_seo_documents', { 
-    query_embedding: queryEmbedding, 
-    match_count: 3 
-  });
-  if (matchError) {
-    console.error('Match Error:', matchError);
+function schemaChecks(health: DatabaseHealth): DatabaseCheck[] {
+  const checks: DatabaseCheck[] = [];
+  const extension = health.vector_extension;
+  checks.push(check(
+    'vector_extension',
+    extension !== null,
+    extension ? `pgvector ${extension.version} installed in schema ${extension.schema}` : 'pgvector extension is not installed'
+  ));
+
+  const expectedType = `vector(${EMBEDDING_DIMENSIONS})`;
+  const wrongColumns = health.embedding_columns.filter(column => withoutSchema(column.type) !== expectedType);
+  checks.push(check(
+    'embedding_columns',
+    health.embedding_columns.length === 2 && wrongColumns.length === 0,
+    wrongColumns.length > 0 || health.embedding_columns.length !== 2
+      ? `Expected embedding and embedding_next as ${expectedType}`
+      : `embedding and embedding_next are ${expectedType}`,
+    health.embedding_columns
+  ));
+
+  const vectorIndex = health.indexes.find(index => /using (ivfflat|hnsw) \(embedding vector_cosine_ops\)/i.test(index.definition));
+  checks.push(check(
+    'embedding_index',
+    vectorIndex !== undefined,
+    vectorIndex ? `${vectorIndex.name} covers seo_documents.embedding` : 'No ivfflat/hnsw cosine index on seo_documents.embedding',
+    health.indexes.map(index => index.name)
+  ));
+
+  for (const [name, expected] of Object.entries(EXPECTED_FUNCTIONS)) {
+    const overloads = health.functions.filter(fn => fn.name === name).map(fn => withoutSchema(fn.arguments));
+    const signature = expected.join(', ');
+    checks.push(check(
+      `rpc_${name}`,
+      overloads.includes(signature),
+      overloads.length === 0
+        ? `${name} does not exist`
+        : overloads.includes(signature) ? `${name}(${signature})` : `${name} has an unexpected signature`,
+      overloads.includes(signature) ? undefined : { expected: signature, found: overloads }
+    ));
+  }
+  return checks;
+}
+
+async function embeddingChecks(health: DatabaseHealth): Promise<DatabaseCheck[]> {
+  const provider = getEmbeddingProvider();
+  const reachable = (await getEmbeddingStatus())
+    .filter(row => row.embedding_model === provider.model && row.embedding_version === provider.version)
+    .reduce((sum, row) => sum + Number(row.documents), 0);
+  const unreachable = Math.max(health.documents - reachable, 0);
+
+  return [
+    check(
+      'missing_embeddings',
+      health.missing_embeddings.count === 0,
+      `${health.missing_embeddings.count} documents without an embedding`,
+      health.missing_embeddings.count > 0 ? health.missing_embeddings.sample : undefined
+    ),
+    check(
+      'embedding_dimensions',
+      health.wrong_dimensions.count === 0,
+      `${health.wrong_dimensions.count} documents with embeddings that are not ${EMBEDDING_DIMENSIONS}-dimensional`,
+      health.wrong_dimensions.count > 0 ? health.wrong_dimensions.sample : undefined
+    ),
+    check(
+      'embedding_model',
+      unreachable === 0,
+      unreachable === 0
+        ? `All documents are searchable with ${provider.model} (version ${provider.version})`
+        : `${unreachable} documents have no ${provider.model} (version ${provider.version}) embedding; run \`npm run reembed\``
+    )
+  ];
+}
+
+async function metadataCheck(): Promise<DatabaseCheck> {
+  const client = getSupabaseClient();
+  const invalid: { id: string; reasons: string }[] = [];
+  let invalidCount = 0;
+  let checked = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('seo_documents')
+      .select('id, metadata')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to read document metadata: ${error.message}`);
+    const rows = (data ?? []) as { id: string; metadata: unknown }[];
+    for (const row of rows) {
+      const reasons = validateSerpMetadata(row.metadata);
+      if (reasons.length === 0) continue;
+      invalidCount++;
+      if (invalid.length < SAMPLE_SIZE) invalid.push({ id: row.id, reasons: formatReasons(reasons) });
+    }
+    checked += rows.length;
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return check(
+    'metadata_schema',
+    invalidCount === 0,
+    `${invalidCount} of ${checked} documents have metadata that does not match SerpMetadata`,
+    invalidCount > 0 ? invalid : undefined
+  );
+}
+
+// clusters.json configures the WORKSPACE_ID workspace, so only its clusters are compared
+async function loadWorkspaceClusters(workspace: string): Promise<string[]> {
+  const { data, error } = await getSupabaseClient()
+    .from('serp_clusters')
+    .select('name')
+    .eq('workspace_id', workspace);
+  if (error) throw new Error(`Failed to list clusters: ${error.message}`);
+  return ((data ?? []) as { name: string }[]).map(row => row.name);
+}
+
+async function integrityChecks(health: DatabaseHealth): Promise<DatabaseCheck[]> {
+  const workspace = getWorkspaceId();
+  const configured = new Set(Object.keys(await loadClusters()));
+  const orphaned = (await loadWorkspaceClusters(workspace))
+    .filter(cluster => !configured.has(cluster))
+    .sort();
+
+  const duplicates = health.duplicate_snapshots.length + health.duplicate_results.length;
+  return [
+    check(
+      'orphaned_clusters',
+      orphaned.length === 0,
+      orphaned.length === 0
+        ? `Every cluster of workspace ${workspace} is in clusters.json`
+        : `${orphaned.length} clusters of workspace ${workspace} are not in clusters.json`,
+      orphaned.length > 0 ? orphaned : undefined
+    ),
+    check(
+      'duplicate_snapshots',
+      duplicates === 0,
+      `${health.duplicate_snapshots.length} queries with snapshots captured at the same time, ${health.duplicate_results.length} snapshots with repeated result positions`,
+      duplicates > 0 ? { snapshots: health.duplicate_snapshots, results: health.duplicate_results } : undefined
+    )
+  ];
+}
+
+// Verifies the schema the app depends on and the integrity of the stored data. Exits with code 1
+// when any check fails, so it can gate deployments; --json prints the full report.
+async function checkDatabase(): Promise<DatabaseHealthReport> {
+  const checkedAt = new Date().toISOString();
+  let health: DatabaseHealth;
+  try {
+    health = await loadHealth();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { checkedAt, ok: false, documents: 0, checks: [check('health_rpc', false, message)], counts: [] };
+  }
+
+  const checks = [
+    ...schemaChecks(health),
+    ...await embeddingChecks(health),
+    await metadataCheck(),
+    ...await integrityChecks(health)
+  ];
+  return {
+    checkedAt,
+    ok: checks.every(c => c.ok),
+    documents: health.documents,
+    checks,
+    counts: health.counts
+  };
+}
+
+function printReport(report: DatabaseHealthReport): void {
+  const clusters = new Map<string, number>();
+  for (const row of report.counts) {
+    const cluster = row.cluster ?? '(none)';
+    clusters.set(cluster, (clusters.get(cluster) ?? 0) + Number(row.documents));
+  }
+  console.log(`${report.documents} documents`);
+  for (const [cluster, documents] of [...clusters.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`  ${cluster.padEnd(24)} ${documents}`);
+  }
+  for (const result of report.checks) {
+    console.log(`${result.ok ? '✓' : '✗'} ${result.name}: ${result.message}`);
+  }
+  const failed = report.checks.filter(c => !c.ok).length;
+  console.log(failed === 0 ? 'All database checks passed.' : `${failed} database checks failed (use --json for details).`);
+}
+
+async function main() {
+  const report = await checkDatabase();
+  if (process.argv.includes(JSON_FLAG)) {
+    console.log(JSON.stringify(report, null, 2));
   } else {
-    console.log('Vector search results:', matchData);
+    printReport(report);
   }
+  if (!report.ok) process.exitCode = 1;
 }
 
-checkSelect();
\ No newline at end of file
+main().catch((err: unknown) => {
+  console.error(err);
+  process.exit(1);
+});
+
+export { checkDatabase };
@@ -1,46 +1,97 @@
 import { readdir, readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
 import { buildSerpEntries } from '../utils/buildSerpEntries';
-import type { SerpData, ProcessedEntry } from '../src/types';
+import { hashContent, loadLedger, saveLedger } from '../utils/ingestionLedger';
+import { formatReasons, quarantineFile } from '../utils/quarantine';
+import { validateSnapshotContent } from '../utils/serpSchema';
+import type { ProcessedEntry, IngestionLedger } from '../src/types';
 
-async function preprocess() {
+const processedPath = join(process.cwd(), 'assets', 'processed.json');
+
+async function loadPreviousEntries(): Promise<Map<string, ProcessedEntry>> {
+  try {
+    const raw = await readFile(processedPath, 'utf-8');
+    const entries = JSON.parse(raw) as ProcessedEntry[];
+    return new Map(entries.map(entry => [entry.id, entry]));
+  } catch {
+    return new Map();
+  }
+}
+
+async function preprocess(ledger: IngestionLedger) {
   console.log('preprocess start');
   const baseAssets = join(process.cwd(), 'assets');
   const scrappedDir = join(baseAssets, 'scrapped');
   const assetsDir = scrappedDir;
   const files = await readdir(assetsDir);
   const jsonFiles = files.filter(f => f.endsWith('.json') && f !== 'clusters.json' && f !== 'processed.json');
+  const previousEntries = await loadPreviousEntries();
 
   const entries: ProcessedEntry[] = [];
+  const skippedFiles: string[] = [];
+  const quarantinedFiles: string[] = [];
 
   for (const file of jsonFiles) {
     const filePath = join(assetsDir, file);
     const content = await readFile(filePath, 'utf-8');
-    const data = JSON.parse(content) as SerpData;
-    if (!data.organic || !Array.isArray(data.organic)) {
-      console.log(`Skipping ${file} as organic is not an array`);
+    const hash = hashContent(content);
+
+    // Delta snapshots from the pipeline are recorded with no entries and are skipped as well
+    const record = ledger.files[file];
+    const reusable = record?.hash === hash
+      ? record.entryIds.map(id => previousEntries.get(id))
+      : [];
+    if (record?.hash === hash && reusable.every(Boolean)) {
+      entries.push(...(reusable as ProcessedEntry[]));
+      skippedFiles.push(file);
+      continue;
+    }
+
+    const validation = validateSnapshotContent(content);
+    if (!validation.valid) {
+      const quarantined = await quarantineFile(filePath, validation.reasons);
+      delete ledger.files[file];
+      quarantinedFiles.push(file);
+      console.log(`Quarantined ${file} as ${quarantined}: ${formatReasons(validation.reasons)}`);
       continue;
     }
 
-    const processed = await buildSerpEntries(data);
+    const processed = await buildSerpEntries(validation.data);
     entries.push(...processed);
+    ledger.files[file] = {
+      hash,
+      processedAt: new Date().toISOString(),
+      entryIds: processed.map(entry => entry.id)
+    };
+  }
+
+  for (const file of Object.keys(ledger.files)) {
+    if (!jsonFiles.includes(file)) delete ledger.files[file];
+  }
+
+  const processedCount = jsonFiles.length - skippedFiles.length - quarantinedFiles.length;
+  console.log(`Processed ${processedCount} files, skipped ${skippedFiles.length} unchanged, quarantined ${quarantinedFiles.length}`);
+  if (skippedFiles.length > 0) {
+    console.log(`Unchanged: ${skippedFiles.join(', ')}`);
   }
 
   return entries;
 }
 
 async function main() {
-  const entries = await preprocess();
+  const ledger = await loadLedger();
+  const entries = await preprocess(ledger);
   console.log(`Total entries: ${entries.length}`);
   // Filter unique entries by id
-  const uniqueEntries = entries.filter((entry, index, self) => 
+  const uniqueEntries = entries.filter((entry, index, self) =>
     self.findIndex(e => e.id === entry.id) === index
   );
   console.log(`Unique entries: ${uniqueEntries.length}`);
-  await writeFile(join(process.cwd(), 'assets', 'processed.json'), JSON.stringify(uniqueEntries, null, 2));
+  await writeFile(processedPath, JSON.stringify(uniqueEntries, null, 2));
+  await saveLedger(ledger);
 }
 
 // For testing, run and log
 main().catch(console.error);
 
-export { preprocess };
\ No newline at end of file
+export { preprocess };
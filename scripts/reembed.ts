@@ -0,0 +1,61 @@
+import { config } from 'dotenv';
+import { getEmbeddingProvider } from '../src/embeddingProviders';
+import { fetchPendingEmbeddings, getEmbeddingStatus, promoteEmbeddings, writeNextEmbeddings } from '../src/vectorStore';
+import type { EmbeddingStatusRow } from '../src/types';
+
+config();
+
+const BATCH_SIZE = 100;
+const DRY_RUN_FLAG = '--dry-run';
+const PROMOTE_FLAG = '--promote';
+
+function printStatus(rows: EmbeddingStatusRow[]): void {
+  for (const row of rows) {
+    console.log(`  ${row.embedding_column.padEnd(14)} ${row.embedding_model} (version ${row.embedding_version}): ${row.documents}`);
+  }
+}
+
+// Fills embedding_next for every row not yet on the configured model, then optionally promotes it.
+// Searches keep working throughout: each query only compares rows embedded with its own model.
+async function reembed() {
+  const provider = getEmbeddingProvider();
+  const target = `${provider.model} (version ${provider.version})`;
+  console.log(`Target embedding model: ${target}`);
+  printStatus(await getEmbeddingStatus());
+
+  if (process.argv.includes(DRY_RUN_FLAG)) {
+    const pending = await fetchPendingEmbeddings(provider, BATCH_SIZE);
+    console.log(`${pending.length === BATCH_SIZE ? `At least ${BATCH_SIZE}` : pending.length} documents pending re-embedding.`);
+    return;
+  }
+
+  let total = 0;
+  let skipped = 0;
+  for (;;) {
+    const batch = await fetchPendingEmbeddings(provider, BATCH_SIZE);
+    if (batch.length === 0) break;
+    const written = await writeNextEmbeddings(batch, provider);
+    total += written;
+    skipped += batch.length - written;
+    console.log(`Re-embedded ${total} documents...`);
+    if (written === 0) {
+      // Every row in the batch changed underneath us; stop rather than spin and let the next run retry
+      console.warn(`Stopping: ${batch.length} documents changed while being re-embedded.`);
+      break;
+    }
+  }
+  console.log(`Re-embedding complete: ${total} documents written${skipped ? `, ${skipped} changed mid-run` : ''}.`);
+
+  if (process.argv.includes(PROMOTE_FLAG)) {
+    const promoted = await promoteEmbeddings(provider);
+    console.log(`Promoted ${promoted} documents to ${target}.`);
+    printStatus(await getEmbeddingStatus());
+  }
+}
+
+reembed().catch((err) => {
+  console.error('Failed to re-embed documents:', err);
+  process.exit(1);
+});
+
+export { reembed };
@@ -0,0 +1,96 @@
+import { config } from 'dotenv';
+import { recordSnapshot } from '../src/snapshotChanges';
+import { getSupabaseClient, upsertProcessedEntries } from '../src/vectorStore';
+import { listArchivePeriods, readArchive } from '../utils/snapshotArchive';
+import type { ArchivedSnapshot, ProcessedEntry, SnapshotMeta } from '../src/types';
+
+config();
+
+const BATCH_SIZE = 100;
+const DRY_RUN_FLAG = '--dry-run';
+const PERIOD_PATTERN = /^\d{4}-\d{2}$/;
+
+// Archives written before snapshot fields were archived only have them on their documents
+function archivedMeta(snapshot: ArchivedSnapshot): SnapshotMeta | null {
+  if (snapshot.meta) return snapshot.meta;
+  const metadata = snapshot.documents[0]?.metadata;
+  if (!metadata) return null;
+  const { workspace, serp_id, query, cluster, iso_date, serp_features, engine, device, gl, hl } = metadata;
+  return { workspace, serp_id, query, cluster, iso_date, serp_features, engine, device, gl, hl };
+}
+
+// Previous snapshots that are neither stored nor restored yet are left out rather than referenced
+async function existingSnapshotIds(ids: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const { data, error } = await getSupabaseClient()
+      .from('serp_snapshots')
+      .select('id')
+      .in('id', ids.slice(i, i + BATCH_SIZE));
+    if (error) throw new Error(`Failed to look up previous snapshots: ${error.message}`);
+    for (const row of (data ?? []) as { id: string }[]) existing.add(row.id);
+  }
+  return existing;
+}
+
+// Re-inserts the documents of archived months (YYYY-MM) into the vector store, embedded with the
+// current model, then records each snapshot's kind, fingerprint and change events so deltas come
+// back too. They are archived again by the next compaction run if still outside the policy.
+async function restoreArchive() {
+  const dryRun = process.argv.includes(DRY_RUN_FLAG);
+  const periods = process.argv.slice(2).filter(arg => !arg.startsWith('--')).sort();
+  const available = await listArchivePeriods();
+
+  if (periods.length === 0) {
+    console.log(available.length > 0 ? `Archived periods: ${available.join(', ')}` : 'No archived periods.');
+    console.log('Usage: npm run restore-archive -- <YYYY-MM> [<YYYY-MM> ...] [--dry-run]');
+    return;
+  }
+
+  const invalid = periods.filter(period => !PERIOD_PATTERN.test(period) || !available.includes(period));
+  if (invalid.length > 0) {
+    throw new Error(`No archive for ${invalid.join(', ')}. Archived periods: ${available.join(', ') || 'none'}`);
+  }
+
+  for (const period of periods) {
+    const archive = await readArchive(period);
+    if (!archive) continue;
+    const snapshots = [...archive.snapshots].sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+    const entries: ProcessedEntry[] = snapshots.flatMap(snapshot =>
+      snapshot.documents.map(doc => ({ id: doc.id, text_blob: doc.content, metadata: doc.metadata }))
+    );
+    const deltas = snapshots.filter(snapshot => snapshot.kind === 'delta').length;
+    if (dryRun) {
+      console.log(`Would restore ${snapshots.length} snapshots (${deltas} deltas, ${entries.length} documents) from ${period}.`);
+      continue;
+    }
+
+    let total = 0;
+    for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+      total += await upsertProcessedEntries(entries.slice(i, i + BATCH_SIZE));
+    }
+
+    // In capture order, so each snapshot's previous one is restored before it
+    const previousIds = snapshots.flatMap(snapshot => (snapshot.previous_id ? [snapshot.previous_id] : []));
+    const known = await existingSnapshotIds([...new Set(previousIds)]);
+    let recorded = 0;
+    for (const snapshot of snapshots) {
+      const meta = archivedMeta(snapshot);
+      if (!snapshot.kind || !snapshot.fingerprint || !meta) continue;
+      const previousId = snapshot.previous_id && known.has(snapshot.previous_id) ? snapshot.previous_id : null;
+      await recordSnapshot(meta, snapshot.kind, previousId, snapshot.fingerprint, snapshot.changes ?? []);
+      known.add(snapshot.serp_id);
+      recorded++;
+    }
+    console.log(
+      `Restored ${snapshots.length} snapshots (${deltas} deltas, ${total} documents, ${recorded} with change history) from ${period}.`
+    );
+  }
+}
+
+restoreArchive().catch((err) => {
+  console.error('Failed to restore archive:', err);
+  process.exit(1);
+});
+
+export { restoreArchive };
@@ -1,12 +1,14 @@
 import { readFile } from 'fs/promises';
 import { join } from 'path';
 import { config } from 'dotenv';
-import { upsertProcessedEntries } from '../src/vectorStore';
+import { upsertProcessedEntries, updateEntryMetadata } from '../src/vectorStore';
+import { hashEntry, loadLedger, saveLedger } from '../utils/ingestionLedger';
 import type { ProcessedEntry } from '../src/types';
 
 config();
 
 const BATCH_SIZE = 100;
+const FULL_RESEED_FLAG = '--full';
 
 async function loadEntries(): Promise<ProcessedEntry[]> {
   const filePath = join(process.cwd(), 'assets', 'processed.json');
@@ -26,14 +28,44 @@ async function seedVectorStore() {
     return;
   }
 
-  console.log(`Seeding ${entries.length} entries into Supabase vector table.`);
+  const fullReseed = process.argv.includes(FULL_RESEED_FLAG);
+  const ledger = await loadLedger();
+  const toEmbed: ProcessedEntry[] = [];
+  const toUpdate: ProcessedEntry[] = [];
+
+  for (const entry of entries) {
+    const record = ledger.embeddings[entry.id];
+    const { textHash, metadataHash } = hashEntry(entry);
+    if (fullReseed || record?.textHash !== textHash) {
+      toEmbed.push(entry);
+    } else if (record.metadataHash !== metadataHash) {
+      toUpdate.push(entry);
+    }
+  }
+
+  const skipped = entries.length - toEmbed.length - toUpdate.length;
+  console.log(`Embedding ${toEmbed.length} new or changed entries, updating metadata for ${toUpdate.length}, skipping ${skipped} unchanged.`);
 
   let total = 0;
-  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
-    const batch = entries.slice(i, i +BATCH_SIZE);
+  for (let i = 0; i < toEmbed.length; i += BATCH_SIZE) {
+    const batch = toEmbed.slice(i, i + BATCH_SIZE);
     const inserted = await upsertProcessedEntries(batch);
+    const embeddedAt = new Date().toISOString();
+    for (const entry of batch) {
+      ledger.embeddings[entry.id] = { ...hashEntry(entry), embeddedAt };
+    }
+    await saveLedger(ledger);
     total += inserted;
-    console.log(`Upserted ${total}/${entries.length} documents...`);
+    console.log(`Upserted ${total}/${toEmbed.length} documents...`);
+  }
+
+  if (toUpdate.length > 0) {
+    await updateEntryMetadata(toUpdate);
+    for (const entry of toUpdate) {
+      ledger.embeddings[entry.id] = { ...ledger.embeddings[entry.id], ...hashEntry(entry) };
+    }
+    await saveLedger(ledger);
+    console.log(`Updated metadata for ${toUpdate.length} documents.`);
   }
 
   console.log('Vector store seeding complete.');
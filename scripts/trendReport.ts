@@ -0,0 +1,55 @@
+import { config } from 'dotenv';
+import { getStorage } from '../src/storage';
+import { getWorkspaceId } from '../src/workspaces';
+import { analyzeTrends, buildRankSnapshots, formatTrendReport, inclusiveEnd } from '../utils/trendAnalysis';
+
+config();
+
+const JSON_FLAG = '--json';
+const CLUSTER_FLAG = '--cluster=';
+const FROM_FLAG = '--from=';
+const TO_FLAG = '--to=';
+const USAGE = 'Usage: npm run trend-report -- ["<tracked query>" ...] [--cluster=<name>] [--from=<date>] [--to=<date>] [--json]';
+
+function flag(prefix: string): string | undefined {
+  return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+// Prints the trend report the TREND workflow narrates, without calling a model
+async function main() {
+  const storage = getStorage();
+  const workspace = getWorkspaceId();
+  const cluster = flag(CLUSTER_FLAG) ?? null;
+  let queries = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  if (queries.length === 0 && cluster) {
+    queries = await storage.clusterQueries(workspace, cluster);
+  }
+  if (queries.length === 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const range = await storage.snapshotRange(workspace);
+  const window = {
+    start: flag(FROM_FLAG) ?? range?.earliest ?? '2000-01-01',
+    end: flag(TO_FLAG) ?? range?.latest ?? new Date().toISOString()
+  };
+  const period = { capturedFrom: window.start, capturedTo: inclusiveEnd(window.end) };
+  const [rows, fingerprints] = await Promise.all([
+    storage.findDocuments({ workspace, queries, resultType: 'organic', maxPosition: 10, ...period, newestFirst: true, limit: 1000 }),
+    storage.snapshotFingerprints({ workspace, queries, ...period, limit: 1000 })
+  ]);
+
+  const snapshots = buildRankSnapshots(fingerprints, rows);
+  if (snapshots.length === 0) {
+    throw new Error(`No stored rankings for ${queries.join(', ')} in workspace ${workspace}`);
+  }
+
+  const report = analyzeTrends(snapshots, window, cluster);
+  console.log(process.argv.includes(JSON_FLAG) ? JSON.stringify(report, null, 2) : formatTrendReport(report));
+}
+
+main().catch((err: unknown) => {
+  console.error(err);
+  process.exit(1);
+});
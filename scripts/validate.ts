@@ -0,0 +1,61 @@
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { formatReasons, quarantineFile } from '../utils/quarantine';
+import { validateSnapshotContent } from '../utils/serpSchema';
+import { SCRAPPED_DIR } from '../utils/snapshotFiles';
+import type { QuarantineReason } from '../src/types';
+
+const QUARANTINE_FLAG = '--quarantine';
+const JSON_FLAG = '--json';
+
+interface FileValidation {
+  file: string;
+  valid: boolean;
+  reasons: QuarantineReason[];
+  quarantinedAs?: string;
+}
+
+async function validateSnapshots(dir = SCRAPPED_DIR): Promise<FileValidation[]> {
+  const quarantine = process.argv.includes(QUARANTINE_FLAG);
+  const files = (await readdir(dir)).filter(f => f.endsWith('.json')).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const results: FileValidation[] = [];
+
+  for (const file of files) {
+    const filePath = join(dir, file);
+    const validation = validateSnapshotContent(await readFile(filePath, 'utf-8'));
+    if (validation.valid) {
+      results.push({ file, valid: true, reasons: [] });
+      continue;
+    }
+    const result: FileValidation = { file, valid: false, reasons: validation.reasons };
+    if (quarantine) {
+      result.quarantinedAs = await quarantineFile(filePath, validation.reasons);
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+async function main() {
+  const results = await validateSnapshots();
+  const invalid = results.filter(r => !r.valid);
+
+  if (process.argv.includes(JSON_FLAG)) {
+    console.log(JSON.stringify({ checked: results.length, invalid: invalid.length, files: invalid }, null, 2));
+  } else {
+    for (const result of invalid) {
+      const moved = result.quarantinedAs ? ` (quarantined as ${result.quarantinedAs})` : '';
+      console.log(`✗ ${result.file}${moved}: ${formatReasons(result.reasons)}`);
+    }
+    console.log(`Checked ${results.length} snapshots in ${SCRAPPED_DIR}: ${results.length - invalid.length} valid, ${invalid.length} invalid`);
+  }
+
+  if (invalid.length > 0) process.exitCode = 1;
+}
+
+main().catch((err: unknown) => {
+  console.error(err);
+  process.exit(1);
+});
+
+export { validateSnapshots };
@@ -1,14 +1,18 @@
 import { z } from "zod";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { Document } from "@langchain/core/documents";
-import { getVectorStore, getSupabaseClient } from "@/vectorStore";
+import { getStorage } from "@/storage";
 import { INTENT_DETECTION } from "../constants";
 import { cheapModel } from "./models";
+import { describeChange } from "../../utils/snapshotDiff";
+import { formatMemory } from "../../utils/conversationMemory";
 import type { 
-  ConversationMessage, 
+  ChangeLogRow,
+  ConversationMemory, 
   SearchIntentType, 
   TimeRange, 
   ClusterStats,
+  RetrievalScores,
   SerpMetadata 
 } from "../types";
 
@@ -24,16 +28,15 @@ export function normalizeClusterLabel(raw: string | undefined): string {
     .trim();
 }
 
-export async function extractTargetIntent(query: string, history?: ConversationMessage[]): Promise<string | null> {
+export async function extractTargetIntent(query: string, memory?: ConversationMemory): Promise<string | null> {
   const intentSchema = z.object({
     targetIntent: z.enum(["informational", "navigational", "transactional", "null"]).describe("The specific intent the user wants to filter by, or 'null' if none."),
   });
   
   const parser = StructuredOutputParser.fromZodSchema(intentSchema);
   
-  const historyContext: string = history && history.length > 0
-    ? `\nConversation history for context:\n${history.map((m: ConversationMessage) => `${m.role.toUpperCase()}: ${m.content}`).join('\n')}`
-    : "";
+  const memoryContext: string = memory ? formatMemory(memory) : "";
+  const historyContext: string = memoryContext ? `\nConversation history for context:\n${memoryContext}` : "";
 
   const prompt = `Analyze if the user explicitly wants to filter results by a specific search intent by using intent-specific terminology.
   
@@ -69,7 +72,6 @@ export async function applyIntentFilterToItems<T>({
   query?: string;
   providedIntent?: string;
   items: T[];
-  // eslint-disable-next-line no-unused-vars
   toIntentItem: (_: T) => { domain?: string; position?: number; snippet?: string };
 }): Promise<{
   resolvedIntent: { intent: SearchIntentType; confidence: "low" | "medium" | "high" };
@@ -218,15 +220,14 @@ ${filterParser.getFormatInstructions()}`;
   }
 }
 
-export async function extractClusterHint(query: string, history?: ConversationMessage[]): Promise<string> {
+export async function extractClusterHint(query: string, memory?: ConversationMemory): Promise<string> {
   const hintSchema = z.object({
     cluster: z.string().optional(),
   });
   const hintParser = StructuredOutputParser.fromZodSchema(hintSchema);
 
-  const historyContext: string = history && history.length > 0
-    ? `\nConversation history for context:\n${history.map((m: ConversationMessage) => `${m.role.toUpperCase()}: ${m.content}`).join('\n')}`
-    : "";
+  const memoryContext: string = memory ? formatMemory(memory) : "";
+  const historyContext: string = memoryContext ? `\nConversation history for context:\n${memoryContext}` : "";
 
   const prompt = `Extract the explicit cluster or niche name if the user mentions one or refers to one from previous context.
 - Return only the cluster name (no extra words like "cluster" or "niche").
@@ -248,23 +249,19 @@ ${hintParser.getFormatInstructions()}`;
   }
 }
 
-export async function detectClusterFromQuery(query: string, minSimilarityScore = 0.8, history?: ConversationMessage[]): Promise<string> {
-  const clusterHint = await extractClusterHint(query, history);
-  if (clusterHint) {
-    const client = getSupabaseClient();
-    const { data, error } = await client
-      .from("seo_documents")
-      .select("metadata")
-      .eq("metadata->>cluster", clusterHint)
-      .limit(1);
-
-    if (!error && data && data.length > 0) {
-      return clusterHint;
-    }
+export async function detectClusterFromQuery(
+  query: string,
+  workspace: string,
+  minSimilarityScore = 0.8,
+  memory?: ConversationMemory
+): Promise<string> {
+  const storage = getStorage();
+  const clusterHint = await extractClusterHint(query, memory);
+  if (clusterHint && (await storage.hasCluster(workspace, clusterHint).catch(() => false))) {
+    return clusterHint;
   }
 
-  const vectorStore = await getVectorStore();
-  const clusterSearch = await vectorStore.similaritySearchWithScore(query, 1);
+  const clusterSearch = await storage.similaritySearch(query, { workspace, k: 1 });
   
   if (clusterSearch.length > 0) {
     const [doc, score] = clusterSearch[0];
@@ -367,13 +364,17 @@ export function getTopItems(map: Map<string, number>, n: number): string[] {
     .map(([item]) => item);
 }
 
+function formatRelevance(meta: Partial<RetrievalScores>): string {
+  return typeof meta.rerank_score === "number" ? ` (relevance ${meta.rerank_score})` : "";
+}
+
 export function formatCompetitiveLandscape(docs: Document[]): string {
   return docs
     .map((doc, i) => {
       const meta = doc.metadata;
       const position = meta.position || i + 1;
       const domain = meta.domain || "unknown";
-      return `### Rank #${position} - ${domain}\n${doc.pageContent}`;
+      return `### Rank #${position} - ${domain}${formatRelevance(meta)}\n${doc.pageContent}`;
     })
     .join("\n\n---\n\n");
 }
@@ -384,8 +385,8 @@ export function formatTemporalData(docs: Document[], periodLabel: string): strin
   }
 
   const formatted: string[] = docs.slice(0, 10).map((doc: Document) => {
-    const meta = doc.metadata as SerpMetadata;
-    return `[${meta.iso_date || "unknown date"}] Position ${meta.position || "?"} - ${meta.domain || "unknown"}
+    const meta = doc.metadata as SerpMetadata & Partial<RetrievalScores>;
+    return `[${meta.iso_date || "unknown date"}] Position ${meta.position || "?"} - ${meta.domain || "unknown"}${formatRelevance(meta)}
 ${doc.pageContent}`;
   });
 
@@ -393,24 +394,37 @@ ${doc.pageContent}`;
 ${formatted.join("\n\n")}`;
 }
 
+// Recorded change events grouped by snapshot, oldest first, capped at `limit` lines
+export function formatChangeEvents(rows: ChangeLogRow[], limit = 60): string {
+  if (rows.length === 0) {
+    return "No change events recorded for this period";
+  }
+
+  const lines: string[] = [];
+  let lastHeading = "";
+  for (const row of rows.slice(0, limit)) {
+    const heading = `[${row.captured_at.split("T")[0]}] ${row.query}`;
+    if (heading !== lastHeading) {
+      lines.push(heading);
+      lastHeading = heading;
+    }
+    lines.push(`- ${describeChange(row)}`);
+  }
+  if (rows.length > limit) {
+    lines.push(`(${rows.length - limit} more events omitted)`);
+  }
+  return lines.join("\n");
+}
+
+// A query without its own time reference keeps the conversation's previous window, if there is one
 export async function detectTimeRanges(
   query: string,
+  workspace: string,
+  previous?: { earlier: TimeRange; later: TimeRange },
 ): Promise<{ earlier: TimeRange; later: TimeRange }> {
-  const client = getSupabaseClient();
-  const { data: dateRange } = await client
-    .from("seo_documents")
-    .select("metadata->iso_date")
-    .order("metadata->iso_date", { ascending: true })
-    .limit(1);
-
-  const { data: latestDate } = await client
-    .from("seo_documents")
-    .select("metadata->iso_date")
-    .order("metadata->iso_date", { ascending: false })
-    .limit(1);
-
-  const earliestInDb = (dateRange as { iso_date: string }[] | null)?.[0]?.iso_date || "2000-01-01";
-  const latestInDb = (latestDate as { iso_date: string }[] | null)?.[0]?.iso_date || new Date().toISOString().split("T")[0];
+  const range = await getStorage().snapshotRange(workspace).catch(() => null);
+  const earliestInDb = range?.earliest || "2000-01-01";
+  const latestInDb = range?.latest || new Date().toISOString().split("T")[0];
 
   const timeExtractionSchema = z.object({
     hasTimeReference: z.boolean(),
@@ -439,6 +453,8 @@ ${timeParser.getFormatInstructions()}`;
     // Fall back to default split
   }
 
+  if (previous) return previous;
+
   const midpoint = new Date((new Date(earliestInDb).getTime() + new Date(latestInDb).getTime()) / 2);
   return {
     earlier: { start: earliestInDb, end: midpoint.toISOString().split("T")[0] },
@@ -473,3 +489,42 @@ export function normalizeHeaderToPattern(header: string): string {
   if (lower.includes("guide")) return "Comprehensive guides";
   return header.slice(0, 50);
 }
+
+// Tracked query a question is about, e.g. the one an audit compares against: the query of the documents
+// most similar to the question, preferring the detected cluster
+export async function findTrackedQuery(question: string, workspace: string, cluster?: string): Promise<string | null> {
+  const storage = getStorage();
+  const search = (filter?: { cluster: string }) =>
+    storage.similaritySearch(question, { workspace, k: 10, filter }).catch((): [Document, number][] => []);
+
+  let results = cluster ? await search({ cluster }) : [];
+  if (results.length === 0) results = await search();
+
+  const scores = new Map<string, number>();
+  for (const [doc, score] of results) {
+    const query = doc.metadata.query as string | undefined;
+    if (query) scores.set(query, (scores.get(query) ?? 0) + score);
+  }
+  return [...scores.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+// Queries a trend covers: a tracked query of the cluster the question names, else all queries of the
+// cluster, else the tracked query most similar to the question
+export async function resolveTrendScope(
+  question: string,
+  workspace: string,
+  cluster?: string,
+): Promise<{ cluster: string | null; queries: string[] }> {
+  const clusterQueries = cluster
+    ? await getStorage().clusterQueries(workspace, cluster).catch((): string[] => [])
+    : [];
+  const text = question.toLowerCase();
+  const named = clusterQueries
+    .filter((query: string) => text.includes(query.toLowerCase()))
+    .sort((a: string, b: string) => b.length - a.length)[0];
+  if (named) return { cluster: cluster ?? null, queries: [named] };
+  if (clusterQueries.length > 0) return { cluster: cluster ?? null, queries: clusterQueries };
+
+  const tracked = await findTrackedQuery(question, workspace);
+  return { cluster: null, queries: tracked ? [tracked] : [] };
+}
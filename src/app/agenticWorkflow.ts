@@ -1,25 +1,45 @@
-import { Annotation, StateGraph, END, START } from "@langchain/langgraph";
+import { Annotation, StateGraph, END, START, REMOVE_ALL_MESSAGES, messagesStateReducer } from "@langchain/langgraph";
 import { z } from "zod";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { Document } from "@langchain/core/documents";
-import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { AIMessage, AIMessageChunk, HumanMessage, RemoveMessage, ToolMessage } from "@langchain/core/messages";
 import type { BaseMessage } from "@langchain/core/messages";
-import { getSupabaseClient, getVectorStore } from "@/vectorStore";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { getStorage } from "@/storage";
+import { workspaceConfig, workspaceFromConfig } from "@/workspaces";
+import { getThreadPersistence } from "@/threads";
 import {
   ROUTER_PROMPT_TEMPLATE,
   STRATEGY_SYSTEM_PROMPT,
   COMPARISON_SYSTEM_PROMPT,
   STANDARD_AGENT_PROMPT,
+  AUDIT_SYSTEM_PROMPT,
+  TREND_SYSTEM_PROMPT,
 } from "../constants";
 import type { 
+  ChangeLogRow,
   QueryIntentType, 
   SearchIntentType, 
   TimeRange, 
+  ConversationMemory,
   ConversationMessage,
-  SEOGraphResponse
+  SEOGraphResponse,
+  StoredDocument,
+  ChatStreamEvent,
+  SourceSummary,
+  SerpMetadata
 } from '../types';
 import { model, cheapModel } from "./models";
+import { getReranker } from "./reranker";
+import { createStreamGuard } from "./guardrails";
+import { MEMORY_BUDGETS, rememberTurn } from "./memory";
+import { emptyMemory, formatMemory, memoryView } from "../../utils/conversationMemory";
+import { auditPage, buildAuditBenchmark, formatAuditReport } from "../../utils/auditUtils";
+import { analyzeTrends, buildRankSnapshots, formatTrendReport, inclusiveEnd } from "../../utils/trendAnalysis";
+import { extractUrl } from "../../utils/urlUtils";
+import { getPageFetcher } from "../../utils/pageFetcher";
+import { formatMarket } from "../../utils/clusterUtils";
 import { 
   modelWithTools,
   retrievalTools
@@ -34,25 +54,34 @@ import {
   getTopItems,
   formatCompetitiveLandscape,
   detectTimeRanges,
-  formatTemporalData
+  formatTemporalData,
+  formatChangeEvents,
+  findTrackedQuery,
+  resolveTrendScope
 } from "./agenticTasks";
 
 // ============================================================================
 // 1. Define the Graph State
 // ============================================================================
 
-const QueryIntent = z.enum(["STANDARD", "COMPARISON", "STRATEGY"]);
+const QueryIntent = z.enum(["STANDARD", "COMPARISON", "STRATEGY", "AUDIT", "TREND"]);
 
 const SEOGraphState = Annotation.Root({
   // Original user query
   query: Annotation<string>,
 
-  // Conversation history for context
+  // Full transcript of the thread, kept across turns by the checkpointer; prompts read memory instead
   conversationHistory: Annotation<ConversationMessage[]>({
-    reducer: (_prev: ConversationMessage[], next: ConversationMessage[]) => next,
+    reducer: (prev: ConversationMessage[], next: ConversationMessage[]) => [...prev, ...next],
     default: () => [],
   }),
 
+  // Recent turns, running summary and established facts; nodes take budgeted views of it
+  memory: Annotation<ConversationMemory>({
+    reducer: (_prev: ConversationMemory, next: ConversationMemory) => next,
+    default: emptyMemory,
+  }),
+
   // Classified intent from the router
   intent: Annotation<QueryIntentType | null>({
     reducer: (_prev: QueryIntentType | null, next: QueryIntentType | null) => next,
@@ -67,7 +96,7 @@ const SEOGraphState = Annotation.Root({
 
   // Messages for tool-calling agent (STANDARD queries)
   messages: Annotation<BaseMessage[]>({
-    reducer: (prev: BaseMessage[], next: BaseMessage[]): BaseMessage[] => [...prev, ...next],
+    reducer: messagesStateReducer,
     default: () => [],
   }),
 
@@ -79,7 +108,7 @@ const SEOGraphState = Annotation.Root({
 
   // Cluster name for strategy queries
   clusterName: Annotation<string>({
-    reducer: (prev: string, next: string) => next || prev,
+    reducer: (_prev: string, next: string) => next,
     default: () => "",
   }),
 
@@ -103,7 +132,7 @@ const SEOGraphState = Annotation.Root({
 
   // Detected search intent
   searchIntent: Annotation<SearchIntentType | null>({
-    reducer: (prev: SearchIntentType | null, next: SearchIntentType | null) => next || prev,
+    reducer: (_prev: SearchIntentType | null, next: SearchIntentType | null) => next,
     default: () => null,
   }),
 });
@@ -117,16 +146,27 @@ const routerSchema = z.object({
 
 const routerParser = StructuredOutputParser.fromZodSchema(routerSchema);
 
+// Streamed tokens are forwarded only from model calls with this tag, not from routing, intent or reranking calls
+const ANSWER_TAG = "seo_answer";
+const ANSWER_CONFIG: RunnableConfig = { tags: [ANSWER_TAG] };
+
+// Organic results a trend reads: the top 10 of every snapshot in the window. Fingerprints and documents
+// come newest first, so a cut drops the oldest snapshots.
+const TREND_MAX_POSITION = 10;
+const TREND_DOCUMENT_LIMIT = 1000;
+const TREND_SNAPSHOT_LIMIT = 1000;
+
 // ============================================================================
 // 2. Define Graph Nodes
 // ============================================================================
 
 // ROUTER NODE: Classifies the query intent and detects cluster
-async function routerNode(state: SEOState): Promise<Partial<SEOState>> {
+async function routerNode(state: SEOState, config: RunnableConfig): Promise<Partial<SEOState>> {
   const routerPrompt = PromptTemplate.fromTemplate(ROUTER_PROMPT_TEMPLATE);
 
-  const historyContext: string = state.conversationHistory.length > 0
-    ? `### CONVERSATION HISTORY\n${state.conversationHistory.map((m: ConversationMessage) => `${m.role.toUpperCase()}: ${m.content}`).join('\n')}`
+  const memoryContext: string = formatMemory(memoryView(state.memory, MEMORY_BUDGETS.router));
+  const historyContext: string = memoryContext
+    ? `### CONVERSATION HISTORY\n${memoryContext}`
     : "No previous history.";
 
   const input = await routerPrompt.format({
@@ -138,8 +178,8 @@ async function routerNode(state: SEOState): Promise<Partial<SEOState>> {
   // Detect cluster and classify intent in parallel
   const [response, clusterName, explicitIntent] = await Promise.all([
     cheapModel.invoke(input),
-    detectClusterFromQuery(state.query, 0.8, state.conversationHistory),
-    extractTargetIntent(state.query, state.conversationHistory),
+    detectClusterFromQuery(state.query, workspaceFromConfig(config), 0.8, memoryView(state.memory, MEMORY_BUDGETS.clusterHint)),
+    extractTargetIntent(state.query, memoryView(state.memory, MEMORY_BUDGETS.targetIntent)),
   ]);
   
   const decision = await routerParser.parse(response.content as string);
@@ -158,26 +198,37 @@ async function routerNode(state: SEOState): Promise<Partial<SEOState>> {
 async function standardAgentNode(state: SEOState): Promise<Partial<SEOState>> {
   const systemPrompt = STANDARD_AGENT_PROMPT;
 
-  const historyMessages: BaseMessage[] = state.conversationHistory.map((msg: ConversationMessage): BaseMessage => 
+  const memory = memoryView(state.memory, MEMORY_BUDGETS.standardAgent);
+  const earlierContext: string = formatMemory({ ...memory, recent: [] });
+  const historyMessages: BaseMessage[] = memory.recent.map((msg: ConversationMessage): BaseMessage => 
     msg.role === "user" ? new HumanMessage(msg.content) : new AIMessage(msg.content)
   );
 
   const messages: BaseMessage[] = [
     new HumanMessage(systemPrompt),
+    ...(earlierContext ? [new HumanMessage(earlierContext)] : []),
     ...historyMessages,
     new HumanMessage("Current question: " + state.query),
   ];
 
-  const response = await modelWithTools.invoke(messages);
-  
+  const response = await modelWithTools.invoke(messages, ANSWER_CONFIG);
+
+  // Answered without looking anything up
+  if (!response.tool_calls || response.tool_calls.length === 0) {
+    return {
+      answer: response.content as string,
+      responseType: "standard",
+      messages: [response],
+    };
+  }
+
   return {
     messages: [response],
-    clusterName: state.clusterName,
   };
 }
 
 // TOOL EXECUTOR NODE: Executes tool calls from the agent
-async function toolExecutorNode(state: SEOState): Promise<Partial<SEOState>> {
+async function toolExecutorNode(state: SEOState, config: RunnableConfig): Promise<Partial<SEOState>> {
   const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
   const toolCalls = lastMessage.tool_calls || [];
   
@@ -189,7 +240,7 @@ async function toolExecutorNode(state: SEOState): Promise<Partial<SEOState>> {
       const tool = retrievalTools.find((t: { name: string }): boolean => t.name === toolCall.name);
       if (tool) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        result = await (tool as any).invoke(toolCall.args);
+        result = await (tool as any).invoke(toolCall.args, config);
       } else {
         result = JSON.stringify({ error: `Unknown tool: ${toolCall.name}` });
       }
@@ -211,7 +262,7 @@ async function toolExecutorNode(state: SEOState): Promise<Partial<SEOState>> {
 
 // STANDARD RESPONSE NODE: Generates final response after tool execution
 async function standardResponseNode(state: SEOState): Promise<Partial<SEOState>> {
-  const response = await modelWithTools.invoke(state.messages);
+  const response = await modelWithTools.invoke(state.messages, ANSWER_CONFIG);
   const aiResponse = response as AIMessage;
   
   if (aiResponse.tool_calls && aiResponse.tool_calls.length > 0) {
@@ -234,19 +285,18 @@ function shouldContinueStandard(state: SEOState): "tools" | "respond" | "end" {
 }
 
 // STRATEGY NODE: Provides cluster-based strategy advice
-async function strategyNode(state: SEOState): Promise<Partial<SEOState>> {
-  const client = getSupabaseClient();
+async function strategyNode(state: SEOState, config: RunnableConfig): Promise<Partial<SEOState>> {
+  const workspace = workspaceFromConfig(config);
   const clusterName = state.clusterName || "General";
 
-  const { data: clusterRows, error } = await client
-    .from("seo_documents")
-    .select("content, metadata")
-    .eq("metadata->>cluster", clusterName)
-    .limit(100);
-
-  if (error) throw new Error(`DB error: ${error.message}`);
+  const clusterRows = await getStorage().findDocuments({
+    workspace,
+    cluster: clusterName,
+    orderByPosition: true,
+    limit: 100,
+  });
 
-  const clusterDocs: Document[] = (clusterRows as { content: string, metadata: Record<string, unknown> }[] || []).map((row: { content: string, metadata: Record<string, unknown> }): Document => ({
+  const clusterDocs: Document[] = clusterRows.map((row: StoredDocument): Document => ({
     pageContent: row.content,
     metadata: row.metadata,
   }));
@@ -259,8 +309,9 @@ async function strategyNode(state: SEOState): Promise<Partial<SEOState>> {
   const stats = computeClusterStats(filteredClusterDocs);
   const dominantPath = getTopItems(stats.categoryPaths, 3).join(", ") || "/";
   const topSerpFeatures = formatSerpFeatureStats(stats.serpFeatureFrequency);
-  const topHeaders = extractCommonHeaders(filteredClusterDocs.slice(0, 10));
-  const competitiveLandscape = formatCompetitiveLandscape(filteredClusterDocs.slice(0, 5));
+  const rankedDocs = await getReranker().rerank(state.query, filteredClusterDocs);
+  const topHeaders = extractCommonHeaders(rankedDocs.slice(0, 10));
+  const competitiveLandscape = formatCompetitiveLandscape(rankedDocs.slice(0, 5));
 
   const strategyPrompt = PromptTemplate.fromTemplate(STRATEGY_SYSTEM_PROMPT);
   const finalPrompt = await strategyPrompt.format({
@@ -272,56 +323,53 @@ async function strategyNode(state: SEOState): Promise<Partial<SEOState>> {
     text_blobs_from_top_ranks: competitiveLandscape,
   });
 
-  const response = await model.invoke(finalPrompt);
+  const response = await model.invoke(finalPrompt, ANSWER_CONFIG);
 
   return {
     clusterName,
-    documents: clusterDocs,
+    documents: rankedDocs,
     answer: response.content as string,
     responseType: "strategy",
   };
 }
 
 // COMPARISON NODE: Analyzes temporal differences in SERP data
-async function comparisonNode(state: SEOState): Promise<Partial<SEOState>> {
-  const client = getSupabaseClient();
-  const timeRanges = await detectTimeRanges(state.query);
+async function comparisonNode(state: SEOState, config: RunnableConfig): Promise<Partial<SEOState>> {
+  const storage = getStorage();
+  const workspace = workspaceFromConfig(config);
+  const timeRanges = await detectTimeRanges(state.query, workspace, state.memory.facts.timeRanges);
   const clusterName = state.clusterName;
 
   let relevantQueries: string[] = [];
   if (clusterName) {
-    const { data: clusterQueries } = await client
-      .from("seo_documents")
-      .select("metadata->>query")
-      .eq("metadata->>cluster", clusterName);
-    if (clusterQueries) {
-      relevantQueries = [...new Set((clusterQueries as { query: string }[]).map((q: { query: string }) => q.query).filter(Boolean))];
-    }
+    relevantQueries = await storage.clusterQueries(workspace, clusterName).catch((): string[] => []);
   }
 
   if (relevantQueries.length === 0) {
-    const vectorStore = await getVectorStore();
-    const vectorResults: Document[] = await vectorStore.similaritySearch(state.query, 10);
-    relevantQueries = [...new Set(vectorResults.map((doc: Document) => doc.metadata.query as string).filter(Boolean))];
+    const vectorResults: [Document, number][] = await storage.similaritySearch(state.query, { workspace, k: 10 });
+    relevantQueries = [...new Set(vectorResults.map(([doc]: [Document, number]) => doc.metadata.query as string).filter(Boolean))];
   }
 
-  const { data: rows } = await client
-    .from("seo_documents")
-    .select("content, metadata")
-    .in("metadata->>query", relevantQueries.length > 0 ? relevantQueries : [state.query])
-    .gte("metadata->>iso_date", timeRanges.earlier.start)
-    .lte("metadata->>iso_date", timeRanges.later.end)
-    .limit(100);
+  const queries = relevantQueries.length > 0 ? relevantQueries : [state.query];
+  const period = { capturedFrom: timeRanges.earlier.start, capturedTo: timeRanges.later.end };
+  const [rows, changeRows] = await Promise.all([
+    storage.findDocuments({ workspace, queries, ...period, limit: 100 }).catch((): StoredDocument[] => []),
+    // Snapshots stored as deltas have no documents; their changes come from the change log
+    storage.changeLog({ workspace, queries, ...period, limit: 200 }).catch((): ChangeLogRow[] => []),
+  ]);
 
-  const allDocs: Document[] = (rows as { content: string, metadata: Record<string, unknown> }[] || []).map((row: { content: string, metadata: Record<string, unknown> }): Document => ({
+  const allDocs: Document[] = rows.map((row: StoredDocument): Document => ({
     pageContent: row.content,
     metadata: row.metadata
   }));
 
   const { docs: filteredDocs, context: intentContext } = await getFilteredDocsAndContext(state.query, allDocs);
 
-  const earlierDocs: Document[] = filteredDocs.filter((d: Document) => d.metadata.iso_date <= timeRanges.earlier.end);
-  const laterDocs: Document[] = filteredDocs.filter((d: Document) => d.metadata.iso_date >= timeRanges.later.start);
+  const reranker = getReranker();
+  const [earlierDocs, laterDocs] = await Promise.all([
+    reranker.rerank(state.query, filteredDocs.filter((d: Document) => d.metadata.iso_date <= timeRanges.earlier.end)),
+    reranker.rerank(state.query, filteredDocs.filter((d: Document) => d.metadata.iso_date >= timeRanges.later.start)),
+  ]);
 
   const earlierData = formatTemporalData(earlierDocs, "Earlier Period");
   const laterData = formatTemporalData(laterDocs, "Later Period");
@@ -331,24 +379,164 @@ async function comparisonNode(state: SEOState): Promise<Partial<SEOState>> {
     query: state.query,
     earlier_data: earlierData,
     later_data: laterData,
+    change_events: formatChangeEvents(changeRows),
     intent_context: intentContext,
   });
 
-  const response = await model.invoke(finalPrompt);
+  const response = await model.invoke(finalPrompt, ANSWER_CONFIG);
 
   return {
-    documents: filteredDocs,
+    documents: [...earlierDocs, ...laterDocs],
     timeRanges,
     answer: response.content as string,
     responseType: "comparison",
   };
 }
 
+// AUDIT NODE: Compares the user's page with the top results of the matching tracked query. The gap
+// analysis is computed; the model only explains it.
+async function auditNode(state: SEOState, config: RunnableConfig): Promise<Partial<SEOState>> {
+  const workspace = workspaceFromConfig(config);
+  const url = extractUrl(state.query);
+  const reply = (answer: string): Partial<SEOState> => ({ answer, documents: [], responseType: "audit" });
+  if (!url) {
+    return reply("To audit a page, include its full address (for example https://example.com/page) in your question.");
+  }
+
+  const question = state.query.replace(/\b(?:https?:\/\/|www\.)\S+/gi, " ").trim() || state.query;
+  const trackedQuery = await findTrackedQuery(question, workspace, state.clusterName || undefined);
+  if (!trackedQuery) {
+    return reply("No tracked query matches this question, so there are no top results to compare the page with. Name the keyword the page should rank for.");
+  }
+
+  const [page, rows] = await Promise.all([
+    getPageFetcher().fetchPage(url),
+    getStorage().findDocuments({ workspace, queries: [trackedQuery], newestFirst: true, limit: 200 }),
+  ]);
+  if (page.status !== "fetched") {
+    return reply(`The page ${url} could not be fetched (${page.reason}), so it cannot be audited.`);
+  }
+  const benchmark = buildAuditBenchmark(trackedQuery, rows);
+  if (!benchmark || benchmark.competitors.length === 0) {
+    return reply(`There are no stored top results for "${trackedQuery}" to compare the page with.`);
+  }
+
+  const report = auditPage(page, benchmark);
+  console.log(`[Audit] ${url} vs "${trackedQuery}": ${report.gaps.length} gaps`);
+
+  const auditPrompt = PromptTemplate.fromTemplate(AUDIT_SYSTEM_PROMPT);
+  const finalPrompt = await auditPrompt.format({
+    query: trackedQuery,
+    question: state.query,
+    report: formatAuditReport(report),
+  });
+  const response = await model.invoke(finalPrompt, ANSWER_CONFIG);
+
+  const competitorDocs: Document[] = rows
+    .filter((row: StoredDocument) => row.metadata.iso_date === benchmark.capturedAt && row.metadata.type === "organic")
+    .sort((a: StoredDocument, b: StoredDocument) => (a.metadata.position ?? 0) - (b.metadata.position ?? 0))
+    .slice(0, 10)
+    .map((row: StoredDocument): Document => ({ pageContent: row.content, metadata: row.metadata }));
+
+  return {
+    answer: response.content as string,
+    documents: competitorDocs,
+    responseType: "audit",
+  };
+}
+
+// TREND NODE: Position history of the domains and URLs of a query or cluster across every snapshot in
+// the window. Series, volatility, slopes, visibility and entry/exit events are computed; the model only
+// narrates them.
+async function trendNode(state: SEOState, config: RunnableConfig): Promise<Partial<SEOState>> {
+  const storage = getStorage();
+  const workspace = workspaceFromConfig(config);
+  const [timeRanges, scope] = await Promise.all([
+    detectTimeRanges(state.query, workspace, state.memory.facts.timeRanges),
+    resolveTrendScope(state.query, workspace, state.clusterName || undefined),
+  ]);
+  const reply = (answer: string): Partial<SEOState> => ({ answer, documents: [], timeRanges, responseType: "trend" });
+  if (scope.queries.length === 0) {
+    return reply("No tracked query matches this question, so there is no ranking history to analyze. Name the keyword or cluster to look at.");
+  }
+
+  const window = { start: timeRanges.earlier.start, end: timeRanges.later.end };
+  const period = { capturedFrom: window.start, capturedTo: inclusiveEnd(window.end) };
+  const [rows, fingerprints] = await Promise.all([
+    storage.findDocuments({
+      workspace,
+      queries: scope.queries,
+      resultType: "organic",
+      maxPosition: TREND_MAX_POSITION,
+      ...period,
+      newestFirst: true,
+      limit: TREND_DOCUMENT_LIMIT,
+    }),
+    storage.snapshotFingerprints({ workspace, queries: scope.queries, ...period, limit: TREND_SNAPSHOT_LIMIT }),
+  ]);
+  if (rows.length === TREND_DOCUMENT_LIMIT || fingerprints.length === TREND_SNAPSHOT_LIMIT) {
+    console.warn(`[Trend] Row limit reached for ${scope.queries.length} queries; the oldest snapshots are missing`);
+  }
+
+  const snapshots = buildRankSnapshots(fingerprints, rows);
+  if (snapshots.length === 0) {
+    return reply(`There are no stored rankings for ${scope.cluster ? `the "${scope.cluster}" cluster` : `"${scope.queries[0]}"`} between ${window.start} and ${window.end}.`);
+  }
+
+  const report = analyzeTrends(snapshots, window, scope.cluster);
+  console.log(`[Trend] ${report.queries.length} queries, ${report.snapshots} snapshots (${report.documentSnapshots} from documents), ${report.events.length} entry/exit events`);
+
+  const trendPrompt = PromptTemplate.fromTemplate(TREND_SYSTEM_PROMPT);
+  const finalPrompt = await trendPrompt.format({
+    question: state.query,
+    report: formatTrendReport(report),
+  });
+  const response = await model.invoke(finalPrompt, ANSWER_CONFIG);
+
+  // Sources are the latest stored top results each query and market history ends with
+  const seriesKey = (row: StoredDocument) => `${row.metadata.query}|${formatMarket(row.metadata)}`;
+  const latest = new Map<string, string>();
+  for (const row of rows) {
+    if (!latest.has(seriesKey(row))) latest.set(seriesKey(row), row.metadata.serp_id);
+  }
+  const latestDocs: Document[] = rows
+    .filter((row: StoredDocument) => latest.get(seriesKey(row)) === row.metadata.serp_id)
+    .sort((a: StoredDocument, b: StoredDocument) => (a.metadata.position ?? 0) - (b.metadata.position ?? 0))
+    .slice(0, 10)
+    .map((row: StoredDocument): Document => ({ pageContent: row.content, metadata: row.metadata }));
+
+  return {
+    documents: latestDocs,
+    timeRanges,
+    answer: response.content as string,
+    responseType: "trend",
+  };
+}
+
+// REMEMBER NODE: Appends the finished turn to the transcript and to memory, with the facts it settled on
+async function rememberNode(state: SEOState): Promise<Partial<SEOState>> {
+  const turn: ConversationMessage[] = [
+    { role: "user", content: state.query },
+    { role: "assistant", content: state.answer },
+  ];
+  const memory = await rememberTurn(state.memory, turn, {
+    cluster: state.clusterName || undefined,
+    intent: state.intent ?? undefined,
+    searchIntent: state.searchIntent ?? undefined,
+    timeRanges: state.timeRanges ?? undefined,
+  });
+  return { conversationHistory: turn, memory };
+}
+
 // ============================================================================
 // 3. Routing and Graph Construction
 // ============================================================================
 
-function routeByIntent(state: SEOState): "standard_agent" | "strategy" | "comparison" {
+const STANDARD_PATHS = { tools: "tools", respond: "standard_response", end: "remember" } as const;
+
+function routeByIntent(state: SEOState): "standard_agent" | "strategy" | "comparison" | "audit" | "trend" {
+  if (state.intent === "AUDIT") return "audit";
+  if (state.intent === "TREND") return "trend";
   if (state.intent === "STRATEGY") return "strategy";
   if (state.intent === "COMPARISON") return "comparison";
   return "standard_agent";
@@ -361,33 +549,180 @@ const workflow = new StateGraph(SEOGraphState)
   .addNode("standard_response", standardResponseNode)
   .addNode("strategy", strategyNode)
   .addNode("comparison", comparisonNode)
+  .addNode("audit", auditNode)
+  .addNode("trend", trendNode)
+  .addNode("remember", rememberNode)
   .addEdge(START, "router")
   .addConditionalEdges("router", routeByIntent)
-  .addConditionalEdges("standard_agent", shouldContinueStandard)
+  .addConditionalEdges("standard_agent", shouldContinueStandard, STANDARD_PATHS)
   .addEdge("tools", "standard_response")
-  .addConditionalEdges("standard_response", shouldContinueStandard)
-  .addEdge("strategy", END)
-  .addEdge("comparison", END);
+  .addConditionalEdges("standard_response", shouldContinueStandard, STANDARD_PATHS)
+  .addEdge("strategy", "remember")
+  .addEdge("comparison", "remember")
+  .addEdge("audit", "remember")
+  .addEdge("trend", "remember")
+  .addEdge("remember", END);
+
+// Compiled on first use with the thread checkpointer, which may need to connect and set up its tables
+let compiledGraph: ReturnType<typeof compileGraph> | undefined;
+
+async function compileGraph() {
+  const { checkpointer } = await getThreadPersistence();
+  return workflow.compile({ checkpointer });
+}
+
+export function getSeoGraph(): ReturnType<typeof compileGraph> {
+  if (!compiledGraph) {
+    compiledGraph = compileGraph().catch((error: unknown) => {
+      compiledGraph = undefined;
+      throw error;
+    });
+  }
+  return compiledGraph;
+}
+
+// Input of one turn: the checkpointer restores the thread's state, so everything that belongs to the
+// previous turn is cleared. History only seeds a new thread; afterwards the remember node keeps it.
+function turnInput(query: string, history?: ConversationMessage[]): Partial<SEOState> {
+  return {
+    query,
+    conversationHistory: history || [],
+    ...(history && history.length > 0 ? { memory: { ...emptyMemory(), recent: history } } : {}),
+    messages: [new RemoveMessage({ id: REMOVE_ALL_MESSAGES })],
+    intent: null,
+    routerExplanation: "",
+    documents: [],
+    clusterName: "",
+    timeRanges: null,
+    answer: "",
+    responseType: "",
+    searchIntent: null,
+  };
+}
 
-export const seoGraph = workflow.compile();
+function toGraphResponse(state: SEOState): SEOGraphResponse {
+  return {
+    type: state.responseType,
+    answer: state.answer,
+    cluster: state.clusterName || undefined,
+    documents: state.documents,
+    intent: state.intent,
+    searchIntent: state.searchIntent,
+    explanation: state.routerExplanation,
+  };
+}
 
-// Main entry point
+// Main entry point; every node and tool reads and searches only the given workspace, and the turn
+// continues the conversation saved under threadId
 export async function runSEOQuery(
   query: string, 
+  workspaceId: string,
+  threadId: string,
   history?: ConversationMessage[]
 ): Promise<SEOGraphResponse> {
-  const result = await seoGraph.invoke({ 
-    query,
-    conversationHistory: history || [],
-  });
+  const graph = await getSeoGraph();
+  const result = await graph.invoke(turnInput(query, history), workspaceConfig(workspaceId, threadId));
 
+  return toGraphResponse(result);
+}
+
+// Conversation saved for a thread; empty when the thread has no turns yet
+export async function getThreadHistory(workspaceId: string, threadId: string): Promise<ConversationMessage[]> {
+  const graph = await getSeoGraph();
+  const snapshot = await graph.getState(workspaceConfig(workspaceId, threadId));
+  return (snapshot.values as Partial<SEOState>).conversationHistory ?? [];
+}
+
+function toSourceSummary(doc: Document): SourceSummary {
+  const metadata = doc.metadata as SerpMetadata;
   return {
-    type: result.responseType,
-    answer: result.answer,
-    cluster: result.clusterName || undefined,
-    documents: result.documents,
-    intent: result.intent,
-    searchIntent: result.searchIntent,
-    explanation: result.routerExplanation,
+    type: metadata.type,
+    domain: metadata.domain,
+    position: metadata.position,
+    query: metadata.query,
+    date: metadata.iso_date,
   };
 }
+
+function toolSucceeded(content: string): boolean {
+  if (content.startsWith("Error:")) return false;
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return !(parsed && typeof parsed === "object" && "error" in parsed);
+  } catch {
+    return true;
+  }
+}
+
+// Progress events for one node's state update
+function progressEvents(node: string, update: Partial<SEOState>, toolNames: Map<string, string>): ChatStreamEvent[] {
+  if (node === "router") {
+    return [{
+      type: "route",
+      intent: update.intent ?? null,
+      cluster: update.clusterName || undefined,
+      searchIntent: update.searchIntent ?? null,
+      explanation: update.routerExplanation ?? "",
+    }];
+  }
+
+  const events: ChatStreamEvent[] = [];
+  for (const message of update.messages ?? []) {
+    if (message instanceof AIMessage) {
+      for (const toolCall of message.tool_calls ?? []) {
+        toolNames.set(toolCall.id ?? "", toolCall.name);
+        events.push({ type: "tool_call", name: toolCall.name, args: toolCall.args });
+      }
+    } else if (message instanceof ToolMessage) {
+      const content = typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+      events.push({ type: "tool_result", name: toolNames.get(message.tool_call_id) ?? "unknown", ok: toolSucceeded(content) });
+    }
+  }
+  if (update.documents && update.documents.length > 0) {
+    events.push({ type: "sources", sources: update.documents.map(toSourceSummary) });
+  }
+  return events;
+}
+
+// Streaming entry point: yields progress events while the graph runs, the answer's tokens as the model
+// writes them and finally the same response runSEOQuery returns. Aborting the signal stops the run.
+export async function* streamSEOQuery(
+  query: string,
+  workspaceId: string,
+  threadId: string,
+  history?: ConversationMessage[],
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamEvent> {
+  const graph = await getSeoGraph();
+  const stream = await graph.stream(
+    turnInput(query, history),
+    { ...workspaceConfig(workspaceId, threadId), signal, streamMode: ["updates", "messages", "values"] }
+  );
+
+  const toolNames = new Map<string, string>();
+  let guard = createStreamGuard();
+  let finalState: SEOState | null = null;
+
+  for await (const [mode, chunk] of stream) {
+    if (mode === "messages") {
+      const [message, metadata] = chunk;
+      if (!(message instanceof AIMessageChunk) || typeof message.content !== "string") continue;
+      if (!(metadata.tags as string[] | undefined)?.includes(ANSWER_TAG)) continue;
+      const text = guard(message.content);
+      if (text) yield { type: "token", text };
+    } else if (mode === "updates") {
+      for (const [node, update] of Object.entries(chunk)) {
+        const events = progressEvents(node, update as Partial<SEOState>, toolNames);
+        // Text written before a tool call is not the answer; the next model call starts over
+        if (events.some((event: ChatStreamEvent) => event.type === "tool_call")) guard = createStreamGuard();
+        yield* events;
+      }
+    } else {
+      finalState = chunk as SEOState;
+    }
+  }
+
+  if (finalState) {
+    yield { type: "done", data: toGraphResponse(finalState) };
+  }
+}
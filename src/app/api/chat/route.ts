@@ -1,22 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runSEOQuery } from "../../agenticWorkflow";
-import type { SEOGraphResponse, ConversationMessage } from "@/types";
+import { WorkspaceAccessError } from "@/workspaces";
+import { openThread, resolveThreadScope, ThreadNotFoundError } from "@/threads";
+import type { SEOGraphResponse, ConversationMessage, ChatThread } from "@/types";
 
 export interface ChatRequest {
   query: string;
+  // Conversation to continue; a new thread is started when it is missing
+  threadId?: string;
+  // Earlier turns to seed a new thread with; ignored when continuing one
   history?: ConversationMessage[];
+  // Needed only when the caller belongs to several workspaces
+  workspace?: string;
 }
 
 export interface ChatResponse {
   success: boolean;
   data?: SEOGraphResponse;
+  thread?: ChatThread;
   error?: string;
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse<ChatResponse>> {
   try {
     const body = (await request.json()) as ChatRequest;
-    const { query, history } = body;
+    const { query, threadId, history, workspace } = body;
 
     if (!query || typeof query !== "string" || query.trim().length === 0) {
       return NextResponse.json(
@@ -25,10 +33,15 @@ export async function POST(request: NextRequest): Promise<NextResponse<ChatRespo
       );
     }
 
-    const result = await runSEOQuery(query.trim(), history);
+    // The caller's Supabase access token decides which workspace the query may read
+    const scope = await resolveThreadScope(request.headers, workspace);
+    const { thread, created } = await openThread(scope, threadId, query.trim());
+
+    const result = await runSEOQuery(query.trim(), scope.workspace, thread.id, created ? history : undefined);
 
     return NextResponse.json({
       success: true,
+      thread,
       data: {
         type: result.type,
         answer: result.answer,
@@ -40,6 +53,12 @@ export async function POST(request: NextRequest): Promise<NextResponse<ChatRespo
       },
     });
   } catch (error) {
+    if (error instanceof WorkspaceAccessError || error instanceof ThreadNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("[Chat API Error]", error);
     
     const message = error instanceof Error ? error.message : "An unexpected error occurred";
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { streamSEOQuery } from "../../../agenticWorkflow";
+import { WorkspaceAccessError } from "@/workspaces";
+import { openThread, resolveThreadScope, ThreadNotFoundError } from "@/threads";
+import { formatServerSentEvent } from "../../../../../utils/sseUtils";
+import type { ChatStreamEvent, ChatThread } from "@/types";
+import type { ChatRequest, ChatResponse } from "../route";
+
+export const dynamic = "force-dynamic";
+
+// Same request as POST /api/chat, answered as a text/event-stream of ChatStreamEvent messages that
+// starts with the thread the turn runs in. The run is aborted when the client disconnects or cancels the stream.
+export async function POST(request: NextRequest): Promise<Response> {
+  let query: string;
+  let history: ChatRequest["history"];
+  let workspaceId: string;
+  let thread: ChatThread;
+  try {
+    const body = (await request.json()) as ChatRequest;
+    if (!body.query || typeof body.query !== "string" || body.query.trim().length === 0) {
+      return NextResponse.json<ChatResponse>(
+        { success: false, error: "Query is required" },
+        { status: 400 }
+      );
+    }
+    query = body.query.trim();
+    const scope = await resolveThreadScope(request.headers, body.workspace);
+    const opened = await openThread(scope, body.threadId, query);
+    workspaceId = scope.workspace;
+    thread = opened.thread;
+    history = opened.created ? body.history : undefined;
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError || error instanceof ThreadNotFoundError) {
+      return NextResponse.json<ChatResponse>(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("[Chat Stream API Error]", error);
+    const message = error instanceof Error ? error.message : "An unexpected error occurred";
+    return NextResponse.json<ChatResponse>({ success: false, error: message }, { status: 500 });
+  }
+
+  const abort = new AbortController();
+  request.signal.addEventListener("abort", () => abort.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+      };
+      try {
+        send({ type: "thread", thread });
+        for await (const event of streamSEOQuery(query, workspaceId, thread.id, history, abort.signal)) {
+          send(event);
+        }
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error("[Chat Stream API Error]", error);
+          send({ type: "error", error: error instanceof Error ? error.message : "An unexpected error occurred" });
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readWorkspaceRuns } from "@/pipeline";
+import { bearerToken, resolveCaller, WorkspaceAccessError } from "@/workspaces";
+import type { PipelineRun } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+export interface PipelineRunsResponse {
+  success: boolean;
+  data?: PipelineRun[];
+  error?: string;
+}
+
+// Runs logged for the caller's workspace, which the run queries and errors belong to
+export async function GET(request: NextRequest): Promise<NextResponse<PipelineRunsResponse>> {
+  try {
+    const caller = await resolveCaller(
+      bearerToken(request.headers.get("authorization")),
+      request.nextUrl.searchParams.get("workspace")
+    );
+    const runs = await readWorkspaceRuns(caller.workspace);
+    return NextResponse.json({ success: true, data: runs });
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("[Pipeline Runs API Error]", error);
+
+    const message = error instanceof Error ? error.message : "An unexpected error occurred";
+
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getThreadHistory } from "../../../agenticWorkflow";
+import { WorkspaceAccessError } from "@/workspaces";
+import { getThreadPersistence, resolveThreadScope, threadTitle, ThreadNotFoundError } from "@/threads";
+import type { ChatThread, ConversationMessage } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+export interface ThreadResponse {
+  success: boolean;
+  data?: {
+    thread: ChatThread;
+    // Only when reading a thread
+    messages?: ConversationMessage[];
+  };
+  error?: string;
+}
+
+export interface RenameThreadRequest {
+  title: string;
+}
+
+interface ThreadRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function errorResponse(error: unknown): NextResponse<ThreadResponse> {
+  if (error instanceof WorkspaceAccessError || error instanceof ThreadNotFoundError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: error.status }
+    );
+  }
+  console.error("[Thread API Error]", error);
+
+  const message = error instanceof Error ? error.message : "An unexpected error occurred";
+
+  return NextResponse.json(
+    { success: false, error: message },
+    { status: 500 }
+  );
+}
+
+// The thread and its conversation, to resume it
+export async function GET(request: NextRequest, { params }: ThreadRouteContext): Promise<NextResponse<ThreadResponse>> {
+  try {
+    const { id } = await params;
+    const scope = await resolveThreadScope(request.headers, request.nextUrl.searchParams.get("workspace"));
+    const { threads } = await getThreadPersistence();
+    const thread = await threads.get(id, scope);
+    if (!thread) {
+      throw new ThreadNotFoundError(id);
+    }
+    const messages = await getThreadHistory(scope.workspace, thread.id);
+    return NextResponse.json({ success: true, data: { thread, messages } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: ThreadRouteContext): Promise<NextResponse<ThreadResponse>> {
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as RenameThreadRequest;
+    if (!body.title || typeof body.title !== "string" || body.title.trim().length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Title is required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolveThreadScope(request.headers, request.nextUrl.searchParams.get("workspace"));
+    const { threads } = await getThreadPersistence();
+    const thread = await threads.rename(id, scope, threadTitle(body.title));
+    if (!thread) {
+      throw new ThreadNotFoundError(id);
+    }
+    return NextResponse.json({ success: true, data: { thread } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Deletes the thread and every checkpoint of its conversation
+export async function DELETE(request: NextRequest, { params }: ThreadRouteContext): Promise<NextResponse<ThreadResponse>> {
+  try {
+    const { id } = await params;
+    const scope = await resolveThreadScope(request.headers, request.nextUrl.searchParams.get("workspace"));
+    const { threads, checkpointer } = await getThreadPersistence();
+    if (!(await threads.remove(id, scope))) {
+      throw new ThreadNotFoundError(id);
+    }
+    await checkpointer.deleteThread(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
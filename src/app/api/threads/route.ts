@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { WorkspaceAccessError } from "@/workspaces";
+import { getThreadPersistence, resolveThreadScope } from "@/threads";
+import type { ChatThread } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+export interface ThreadsResponse {
+  success: boolean;
+  data?: ChatThread[];
+  error?: string;
+}
+
+// The caller's conversations in the resolved workspace, most recently active first
+export async function GET(request: NextRequest): Promise<NextResponse<ThreadsResponse>> {
+  try {
+    const scope = await resolveThreadScope(request.headers, request.nextUrl.searchParams.get("workspace"));
+    const { threads } = await getThreadPersistence();
+    return NextResponse.json({ success: true, data: await threads.list(scope) });
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("[Threads API Error]", error);
+
+    const message = error instanceof Error ? error.message : "An unexpected error occurred";
+
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
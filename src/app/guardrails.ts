@@ -10,12 +10,17 @@ export class GuardrailError extends Error {
   }
 }
 
+const SENSITIVE_KEYWORDS = ["SECRET_KEY", "API_KEY", "ACCESS_KEY", "ROLE_KEY", "ACCESS_TOKEN"];
+
+function containsSensitiveKeyword(text: string): boolean {
+  return SENSITIVE_KEYWORDS.some(keyword => text.includes(keyword));
+}
+
 // Output Guardrails: Runs after the model
 export async function outputGuardrail(output: any): Promise<any> {
   const textContent = extractTextFromOutput(output);
 
-  const sensitiveKeywords = ["SECRET_KEY", "API_KEY", "ACCESS_KEY", "ROLE_KEY", "ACCESS_TOKEN"];
-  if (sensitiveKeywords.some(keyword => textContent.includes(keyword))) {
+  if (containsSensitiveKeyword(textContent)) {
      if (output instanceof AIMessage) {
         return new AIMessage({ ...output, content: "[REDACTED]" });
      }
@@ -32,6 +37,28 @@ function extractTextFromOutput(output: any): string {
    return JSON.stringify(output);
 }
 
+// Streamed tokens reach the client before outputGuardrail sees the whole answer. The guard holds
+// back a tail that could be the start of a keyword and releases nothing once one appears.
+export function createStreamGuard(): (token: string) => string {
+  const holdBack = Math.max(...SENSITIVE_KEYWORDS.map(keyword => keyword.length)) - 1;
+  let text = "";
+  let released = 0;
+  let blocked = false;
+
+  return (token: string): string => {
+    if (blocked) return "";
+    text += token;
+    if (containsSensitiveKeyword(text)) {
+      blocked = true;
+      return "";
+    }
+    const safeEnd = Math.max(released, text.length - holdBack);
+    const chunk = text.slice(released, safeEnd);
+    released = safeEnd;
+    return chunk;
+  };
+}
+
 // Middleware Wrapper (General)
 export function withGuardrails<RunInput, RunOutput>(
   runnable: Runnable<RunInput, RunOutput>
@@ -0,0 +1,54 @@
+import { PromptTemplate } from "@langchain/core/prompts";
+import { MEMORY_SUMMARY_PROMPT } from "../constants";
+import { cheapModel } from "./models";
+import { clipToTokens, formatMessages, mergeFacts, splitRecent } from "../../utils/conversationMemory";
+import type { ConversationFacts, ConversationMemory, ConversationMessage } from "../types";
+
+// Turns kept verbatim; older ones are rolled into the summary
+const RECENT_TURNS = 4;
+const RECENT_TOKENS = 2500;
+const SUMMARY_TOKENS = 400;
+
+// Memory each prompt may spend, in estimated tokens
+export const MEMORY_BUDGETS = {
+  router: 1200,
+  clusterHint: 600,
+  targetIntent: 400,
+  standardAgent: 2500,
+} as const;
+
+// Without the model, the oldest details are the first to go
+function fallbackSummary(summary: string, turns: ConversationMessage[]): string {
+  return clipToTokens([summary, formatMessages(turns)].filter(Boolean).join("\n"), SUMMARY_TOKENS, true);
+}
+
+export async function summarizeTurns(summary: string, turns: ConversationMessage[]): Promise<string> {
+  const prompt = await PromptTemplate.fromTemplate(MEMORY_SUMMARY_PROMPT).format({
+    max_words: Math.floor(SUMMARY_TOKENS * 0.75),
+    summary: summary || "(none yet)",
+    turns: formatMessages(turns),
+  });
+
+  try {
+    const response = await cheapModel.invoke(prompt);
+    const updated = (response.content as string).trim();
+    return updated ? clipToTokens(updated, SUMMARY_TOKENS, true) : fallbackSummary(summary, turns);
+  } catch (error) {
+    console.warn("[Memory] Summarization failed, keeping a truncated transcript:", error);
+    return fallbackSummary(summary, turns);
+  }
+}
+
+// Adds a finished turn and its facts, and rolls turns that no longer fit the recent window into the summary
+export async function rememberTurn(
+  memory: ConversationMemory,
+  turn: ConversationMessage[],
+  facts: ConversationFacts
+): Promise<ConversationMemory> {
+  const { fold, keep } = splitRecent([...memory.recent, ...turn], RECENT_TURNS, RECENT_TOKENS);
+  return {
+    summary: fold.length > 0 ? await summarizeTurns(memory.summary, fold) : memory.summary,
+    recent: keep,
+    facts: mergeFacts(memory.facts, facts),
+  };
+}
@@ -0,0 +1,26 @@
+import { readWorkspaceRuns } from "@/pipeline";
+import { resolveCaller, WorkspaceAccessError } from "@/workspaces";
+import { PipelineRuns } from "@/components/PipelineRuns";
+
+export const dynamic = "force-dynamic";
+
+// Like the chat UI, the page has no sign-in and only shows runs of ANONYMOUS_WORKSPACE
+async function loadRuns() {
+  try {
+    const { workspace } = await resolveCaller(null);
+    return { runs: await readWorkspaceRuns(workspace) };
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) return { runs: [], error: error.message };
+    throw error;
+  }
+}
+
+export default async function PipelinePage() {
+  const { runs, error } = await loadRuns();
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 bg-gray-50">
+      <PipelineRuns runs={runs} error={error} />
+    </main>
+  );
+}
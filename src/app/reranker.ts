@@ -0,0 +1,139 @@
+import { z } from "zod";
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { Document } from "@langchain/core/documents";
+import type { Runnable } from "@langchain/core/runnables";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { AIMessageChunk } from "@langchain/core/messages";
+import { cheapModel } from "./models";
+import { tokenizeWords } from "../../utils/stringUtils";
+import type { RerankerKind, RetrievalScores } from "../types";
+
+const MODEL_SNIPPET_CHARS = 600;
+const MODEL_BATCH_SIZE = 30;
+
+export interface Reranker {
+  name: RerankerKind;
+  // Returns the topN most relevant docs (all when omitted), best first, with RetrievalScores in metadata
+  rerank(question: string, docs: Document[], topN?: number): Promise<Document[]>;
+}
+
+let cachedReranker: Reranker | null = null;
+
+function retrievalScoreOf(doc: Document): number | undefined {
+  const { retrieval_score } = doc.metadata as Partial<RetrievalScores>;
+  return typeof retrieval_score === "number" ? retrieval_score : undefined;
+}
+
+// Attaches scores, sorts by rerank score and breaks ties by retrieval score, then retrieval order.
+function rankDocs(docs: Document[], scores: number[], reranker: RerankerKind, topN?: number): Document[] {
+  return docs
+    .map((doc: Document, index: number) => {
+      const retrievalScore = retrievalScoreOf(doc);
+      const metadata: Record<string, unknown> & RetrievalScores = {
+        ...doc.metadata,
+        retrieval_rank: index + 1,
+        rerank_score: Math.round(scores[index] * 1000) / 1000,
+        reranker,
+      };
+      if (retrievalScore !== undefined) metadata.retrieval_score = retrievalScore;
+      return new Document({ id: doc.id, pageContent: doc.pageContent, metadata });
+    })
+    .sort((a: Document, b: Document) => {
+      const byRerank = b.metadata.rerank_score - a.metadata.rerank_score;
+      if (byRerank !== 0) return byRerank;
+      const byRetrieval = (b.metadata.retrieval_score ?? 0) - (a.metadata.retrieval_score ?? 0);
+      return byRetrieval !== 0 ? byRetrieval : a.metadata.retrieval_rank - b.metadata.retrieval_rank;
+    })
+    .slice(0, topN ?? docs.length);
+}
+
+// Share of the question's terms found in each doc, weighted by how rare the term is among the candidates.
+export function lexicalScores(question: string, docs: Document[]): number[] {
+  const terms = [...new Set(tokenizeWords(question))];
+  if (terms.length === 0) return docs.map(() => 0);
+
+  const docTerms: Set<string>[] = docs.map((doc: Document) => new Set(tokenizeWords(doc.pageContent)));
+  const weights = terms.map((term: string) => {
+    const df = docTerms.filter((set: Set<string>) => set.has(term)).length;
+    return Math.log(1 + (docs.length + 1) / (df + 1));
+  });
+  const total = weights.reduce((a: number, b: number) => a + b, 0);
+
+  return docTerms.map((set: Set<string>) =>
+    terms.reduce((sum: number, term: string, i: number) => (set.has(term) ? sum + weights[i] : sum), 0) / total
+  );
+}
+
+export function createLexicalReranker(): Reranker {
+  return {
+    name: "lexical",
+    async rerank(question: string, docs: Document[], topN?: number): Promise<Document[]> {
+      return rankDocs(docs, lexicalScores(question, docs), "lexical", topN);
+    },
+  };
+}
+
+const modelScoreSchema = z.object({
+  scores: z.array(z.object({
+    index: z.number().describe("1-based candidate number"),
+    score: z.number().describe("Relevance from 0 (unrelated) to 10 (directly answers the question)"),
+  })),
+});
+
+// Scores candidates in LLM calls of MODEL_BATCH_SIZE; falls back to lexical scores if any call or parse fails.
+export function createModelReranker(llm: Runnable<BaseLanguageModelInput, AIMessageChunk> = cheapModel): Reranker {
+  const parser = StructuredOutputParser.fromZodSchema(modelScoreSchema);
+  const lexical = createLexicalReranker();
+
+  // Scores are on an absolute 0-10 scale, so they stay comparable across batches.
+  async function scoreBatch(question: string, candidates: Document[]): Promise<number[]> {
+    const prompt = `Rate how useful each SERP document is for answering the question.
+Judge the content only; do not prefer a document because of its position.
+
+Question: "${question}"
+
+Candidates:
+${candidates
+  .map((doc: Document, i: number) => `[${i + 1}] ${doc.pageContent.slice(0, MODEL_SNIPPET_CHARS).replace(/\s+/g, " ")}`)
+  .join("\n")}
+
+${parser.getFormatInstructions()}`;
+
+    const response = await llm.invoke(prompt);
+    const parsed = await parser.parse(response.content as string);
+    const scores: number[] = candidates.map(() => 0);
+    for (const { index, score } of parsed.scores) {
+      if (Number.isInteger(index) && index >= 1 && index <= candidates.length) {
+        scores[index - 1] = Math.min(Math.max(score, 0), 10) / 10;
+      }
+    }
+    return scores;
+  }
+
+  return {
+    name: "model",
+    async rerank(question: string, docs: Document[], topN?: number): Promise<Document[]> {
+      if (docs.length <= 1) return rankDocs(docs, docs.map(() => 1), "model", topN);
+
+      const batches: Document[][] = [];
+      for (let start = 0; start < docs.length; start += MODEL_BATCH_SIZE) {
+        batches.push(docs.slice(start, start + MODEL_BATCH_SIZE));
+      }
+
+      try {
+        const scores = (await Promise.all(batches.map((batch: Document[]) => scoreBatch(question, batch)))).flat();
+        return rankDocs(docs, scores, "model", topN);
+      } catch (error) {
+        console.warn(`[Reranker] Model rerank failed, using lexical: ${error instanceof Error ? error.message : "Unknown"}`);
+        return lexical.rerank(question, docs, topN);
+      }
+    },
+  };
+}
+
+export function getReranker(): Reranker {
+  if (!cachedReranker) {
+    cachedReranker = process.env.RERANKER === "lexical" ? createLexicalReranker() : createModelReranker();
+  }
+  return cachedReranker;
+}
@@ -1,10 +1,16 @@
 import { z } from "zod";
 import { DynamicStructuredTool } from "@langchain/core/tools";
+import type { CallbackManagerForToolRun } from "@langchain/core/callbacks/manager";
+import type { RunnableConfig } from "@langchain/core/runnables";
 import { Document } from "@langchain/core/documents";
-import { getVectorStore, getSupabaseClient } from "@/vectorStore";
+import { getStorage } from "@/storage";
+import { workspaceFromConfig } from "@/workspaces";
 import { INTENT_DETECTION } from "../constants";
 import { model, baseModel } from "./models";
 import { withGuardrails } from "./guardrails";
+import { getReranker } from "./reranker";
+import { pickMarket } from "../../utils/clusterUtils";
+import { SERP_RESULT_TYPES } from "../../utils/serpSchema";
 import { 
   extractClusterHint, 
   detectClusterFromQuery, 
@@ -18,56 +24,115 @@ import type {
   GetSerpFeaturesArgs,
   GetClusterDataArgs,
   AnalyzeContentTypesArgs,
-  SearchIntentType
+  SearchIntentType,
+  SerpMarket,
+  DomainStatsRow,
+  FeatureFrequencyRow,
+  MetadataFilter,
+  RetrievalScores,
+  StoredDocument
 } from "../types";
 
+// search_by_query retrieves this many candidates per requested result for the reranker
+const RERANK_CANDIDATE_FACTOR = 3;
+
+const marketFilterSchema = {
+  gl: z.string().optional().describe("Optional: Country code of the SERP market (e.g., 'us', 'de')"),
+  hl: z.string().optional().describe("Optional: Language code of the SERP market (e.g., 'en', 'de')"),
+  device: z.enum(["desktop", "mobile"]).optional().describe("Optional: Device the SERP was captured on"),
+  engine: z.string().optional().describe("Optional: Search engine of the SERP (e.g., 'google', 'bing')"),
+};
+
+function toMarketFilter(market: SerpMarket): Record<string, string> {
+  return pickMarket(market) as Record<string, string>;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown database error";
+}
+
+function toMetadataFilter(args: Omit<SearchByQueryArgs, "searchQuery" | "limit" | "keywordWeight" | "semanticWeight">): MetadataFilter {
+  const { cluster, query, resultType, domain, dateFrom, dateTo, minPosition, maxPosition, ...market } = args;
+  const filter: MetadataFilter = { ...toMarketFilter(market) };
+  if (cluster) filter.cluster = cluster;
+  if (query) filter.query = { ilike: `%${query}%` };
+  if (resultType) filter.type = resultType;
+  if (domain) {
+    const bare = domain.toLowerCase().replace(/^www\./, "");
+    filter.domain = { in: [bare, `www.${bare}`] };
+  }
+  if (dateFrom || dateTo) {
+    // iso_date holds full timestamps, so a bare end date has to cover that whole day
+    const inclusiveDateTo = dateTo && /^\d{4}-\d{2}-\d{2}$/.test(dateTo) ? `${dateTo}T23:59:59.999Z` : dateTo;
+    filter.iso_date = { ...(dateFrom ? { gte: dateFrom } : {}), ...(inclusiveDateTo ? { lte: inclusiveDateTo } : {}) };
+  }
+  if (minPosition !== undefined || maxPosition !== undefined) {
+    filter.position = {
+      ...(minPosition !== undefined ? { gte: minPosition } : {}),
+      ...(maxPosition !== undefined ? { lte: maxPosition } : {}),
+    };
+  }
+  return filter;
+}
+
 export const searchByQueryTool = new DynamicStructuredTool({
   name: "search_by_query",
-  description: "Search SEO documents by semantic similarity to a search query. Use this for general questions.",
+  description: "Search SEO documents by keyword and semantic similarity to a search query. Use this for general questions and for exact domains, brands or phrases. Narrow the search with the cluster, query, result type, domain, date and position filters.",
   schema: z.object({
     searchQuery: z.string().describe("The search query to find relevant SEO data"),
     limit: z.number().optional().default(10).describe("Maximum number of results"),
+    keywordWeight: z.number().min(0).optional().default(1).describe("Optional: Weight of exact keyword matches (raise for domain, brand or phrase lookups)"),
+    semanticWeight: z.number().min(0).optional().default(1).describe("Optional: Weight of semantic similarity (raise for broad topical questions)"),
+    cluster: z.string().optional().describe("Optional: Only search this cluster"),
+    query: z.string().optional().describe("Optional: Only search SERPs whose tracked query contains this text"),
+    resultType: z.enum(SERP_RESULT_TYPES).optional().describe("Optional: Only search this result type"),
+    domain: z.string().optional().describe("Optional: Only search results from this domain (e.g., 'ooni.com')"),
+    dateFrom: z.string().optional().describe("Optional: Only SERPs captured on or after this ISO date (YYYY-MM-DD)"),
+    dateTo: z.string().optional().describe("Optional: Only SERPs captured on or before this ISO date (YYYY-MM-DD)"),
+    minPosition: z.number().int().positive().optional().describe("Optional: Best (lowest) position to include"),
+    maxPosition: z.number().int().positive().optional().describe("Optional: Worst (highest) position to include, e.g. 3 for the top 3"),
+    ...marketFilterSchema,
   }),
-  func: async ({ searchQuery, limit }: SearchByQueryArgs): Promise<string> => {
-    const clusterHint = await extractClusterHint(searchQuery);
-    if (clusterHint) {
-      const client = getSupabaseClient();
-      const { data, error } = await client
-        .from("seo_documents")
-        .select("content, metadata")
-        .eq("metadata->>cluster", clusterHint)
-        .order("metadata->>position", { ascending: true })
-        .limit(limit ?? 10);
-
-      if (!error && data && data.length > 0) {
-        return JSON.stringify(
-          data.map((row: { content: string; metadata: Record<string, unknown> }) => {
-            const metadata = row.metadata as unknown as SerpMetadata;
-            return {
-              content: row.content,
-              position: metadata.position,
-              domain: metadata.domain,
-              cluster: metadata.cluster,
-              serp_features: metadata.serp_features,
-              date: metadata.iso_date,
-            };
-          })
-        );
-      }
+  func: async (
+    { searchQuery, limit, keywordWeight, semanticWeight, ...filters }: SearchByQueryArgs,
+    _runManager?: CallbackManagerForToolRun,
+    config?: RunnableConfig
+  ): Promise<string> => {
+    const workspace = workspaceFromConfig(config);
+    const metadataFilter = toMetadataFilter(filters);
+    const resultLimit = limit ?? 10;
+    const search = (filter: MetadataFilter) =>
+      getStorage().hybridSearch(searchQuery, {
+        workspace,
+        k: resultLimit * RERANK_CANDIDATE_FACTOR,
+        filter,
+        fullTextWeight: keywordWeight ?? 1,
+        semanticWeight: semanticWeight ?? 1,
+      });
+
+    // Without an explicit cluster, prefer the hinted one but fall back when it has no match
+    const clusterHint = filters.cluster ? "" : await extractClusterHint(searchQuery);
+    let results = clusterHint ? await search({ ...metadataFilter, cluster: clusterHint }) : [];
+    if (results.length === 0) {
+      results = await search(metadataFilter);
     }
+    const ranked = await getReranker().rerank(searchQuery, results.map(([d]: [Document, number]) => d), resultLimit);
 
-    const vectorStore = await getVectorStore();
-    const docs = await vectorStore.similaritySearch(searchQuery, limit);
     return JSON.stringify(
-      docs.map((d: Document) => {
-        const metadata = d.metadata as unknown as SerpMetadata;
+      ranked.map((d: Document) => {
+        const metadata = d.metadata as unknown as SerpMetadata & RetrievalScores;
         return {
           content: d.pageContent,
+          type: metadata.type,
           position: metadata.position,
           domain: metadata.domain,
+          query: metadata.query,
           cluster: metadata.cluster,
           serp_features: metadata.serp_features,
+          market: pickMarket(metadata),
           date: metadata.iso_date,
+          retrieval_score: metadata.retrieval_score,
+          rerank_score: metadata.rerank_score,
         };
       })
     );
@@ -81,54 +146,42 @@ export const getTopPerformersTool = new DynamicStructuredTool({
     cluster: z.string().optional().describe("Optional: Filter by cluster name"),
     query: z.string().optional().describe("Optional: Filter by search query or topic"),
     limit: z.number().optional().default(10).describe("Maximum number of results"),
+    ...marketFilterSchema,
   }),
-  func: async ({ cluster, query, limit }: GetTopPerformersArgs): Promise<string> => {
-    const client = getSupabaseClient();
+  func: async (
+    { cluster, query, limit, ...market }: GetTopPerformersArgs,
+    _runManager?: CallbackManagerForToolRun,
+    config?: RunnableConfig
+  ): Promise<string> => {
+    const storage = getStorage();
+    const workspace = workspaceFromConfig(config);
     try {
       let results: Array<Record<string, unknown>> = [];
-      const filterCluster = normalizeClusterLabel(cluster) || (query && (await detectClusterFromQuery(query))) || "";
-      
-      const dbQuery = client
-        .from("seo_documents")
-        .select("content, metadata")
-        .lte("metadata->>position", 3)
-        .gte("metadata->>position", 1)
-        .order("metadata->>position", { ascending: true })
-        .limit(limit || 10);
+      const filterCluster = normalizeClusterLabel(cluster) || (query && (await detectClusterFromQuery(query, workspace))) || "";
+      const topResults = { workspace, minPosition: 1, maxPosition: 3, market, orderByPosition: true, limit: limit || 10 };
 
       if (filterCluster) {
-        const { data, error } = await dbQuery.ilike("metadata->>cluster", `%${filterCluster}%`);
-        if (error) throw new Error(error.message);
-        results = (data || []).map((row: { content: string; metadata: Record<string, unknown> }) => ({
-          content: row.content,
-          ...(row.metadata as unknown as SerpMetadata),
-        }));
+        const rows = await storage.findDocuments({ ...topResults, clusterLike: filterCluster });
+        results = rows.map((row) => ({ content: row.content, ...row.metadata }));
       }
 
       if (results.length === 0 && query?.trim()) {
-        const { data, error } = await client
-          .from("seo_documents")
-          .select("content, metadata")
-          .lte("metadata->>position", 3)
-          .gte("metadata->>position", 1)
-          .ilike("metadata->>query", `%${query.trim()}%`)
-          .order("metadata->>position", { ascending: true })
-          .limit(limit || 10);
-        
-        if (error) throw new Error(error.message);
-        results = (data || []).map((row: { content: string; metadata: Record<string, unknown> }) => ({
-          content: row.content,
-          ...(row.metadata as unknown as SerpMetadata),
-        }));
+        const rows = await storage.findDocuments({ ...topResults, queryLike: query.trim() });
+        results = rows.map((row) => ({ content: row.content, ...row.metadata }));
       }
 
       if (results.length === 0) {
         return JSON.stringify({ warning: "No top-ranking snippets found.", results: [] });
       }
 
-      return JSON.stringify(results);
+      const domainStats = await storage.domainStats(
+        { workspace, cluster: filterCluster || null, query: filterCluster ? null : query?.trim() || null, market },
+        3
+      );
+
+      return JSON.stringify({ results, top_domains: domainStats.slice(0, 10) });
     } catch (error) {
-      return JSON.stringify({ error: error instanceof Error ? error.message : "Unknown database error" });
+      return JSON.stringify({ error: errorMessage(error) });
     }
   },
 });
@@ -139,56 +192,71 @@ export const getSerpFeaturesTool = new DynamicStructuredTool({
   schema: z.object({
     cluster: z.string().optional().describe("Optional: Filter by cluster name"),
     query: z.string().optional().describe("Optional: Filter by search query or topic"),
-    feature: z.string().optional().describe("Filter by specific SERP feature (e.g., 'video', 'peopleAlsoAsk', 'answerBox')"),
+    feature: z.string().optional().describe("Filter by specific SERP feature (e.g., 'video', 'peopleAlsoAsk', 'answerBox', 'images', 'news')"),
+    resultType: z.enum(SERP_RESULT_TYPES).optional().describe("Optional: Only return documents of this result type (e.g., 'newsResult' for news carousel items, 'imageResult' for image pack items)"),
     limit: z.number().optional().default(20).describe("Maximum number of results"),
+    ...marketFilterSchema,
   }),
-  func: async ({ cluster, query, feature, limit }: GetSerpFeaturesArgs): Promise<string> => {
-    const client = getSupabaseClient();
+  func: async (
+    { cluster, query, feature, resultType, limit, ...market }: GetSerpFeaturesArgs,
+    _runManager?: CallbackManagerForToolRun,
+    config?: RunnableConfig
+  ): Promise<string> => {
+    const storage = getStorage();
+    const workspace = workspaceFromConfig(config);
     
     // Normalize cluster label for consistent matching
     const resolvedCluster: string =
       normalizeClusterLabel(cluster) ||
-      ((query && (await detectClusterFromQuery(query))) || "");
+      ((query && (await detectClusterFromQuery(query, workspace))) || "");
 
-    let dbQuery = client
-      .from("seo_documents")
-      .select("content, metadata")
-      .not("metadata->>serp_features", "eq", "[]")
-      .limit(limit || 20);
-
-    if (resolvedCluster) {
-      dbQuery = dbQuery.ilike("metadata->>cluster", `%${resolvedCluster}%`);
-    }
-    if (query) {
-      dbQuery = dbQuery.ilike("metadata->>query", `%${query}%`);
+    let data: StoredDocument[];
+    let frequencyRows: FeatureFrequencyRow[];
+    try {
+      [data, frequencyRows] = await Promise.all([
+        storage.findDocuments({
+          workspace,
+          withFeatures: true,
+          market,
+          clusterLike: resolvedCluster || undefined,
+          queryLike: query || undefined,
+          resultType,
+          limit: limit || 20,
+        }),
+        storage.featureFrequency({ workspace, cluster: resolvedCluster || null, query: query || null, market }),
+      ]);
+    } catch (error) {
+      return JSON.stringify({ error: errorMessage(error) });
     }
 
-    const { data, error } = await dbQuery;
-    if (error) return JSON.stringify({ error: error.message });
-
-    let results = (data || []).map((row: { content: string; metadata: Record<string, unknown> }) => {
-      const metadata = row.metadata as unknown as SerpMetadata;
+    let results = data.map((row: StoredDocument) => {
+      const metadata = row.metadata;
       return {
         content: row.content,
         serp_features: metadata.serp_features,
         query: metadata.query,
         cluster: metadata.cluster,
+        market: pickMarket(metadata),
+        type: metadata.type,
         position: metadata.position,
+        domain: metadata.domain,
+        source: metadata.source,
+        published_date: metadata.published_date,
       };
     });
 
+    const matchesFeature = (name: string) => !feature || name.toLowerCase().includes(feature.toLowerCase());
+
     // Filter by specific feature if provided
     if (feature) {
-      results = results.filter((r: { serp_features?: string[] }) =>
-        r.serp_features?.some((f: string) => f.toLowerCase().includes((feature as string).toLowerCase()))
-      );
+      results = results.filter((r: { serp_features?: string[] }) => r.serp_features?.some(matchesFeature));
     }
 
-    // Also compute feature frequency
-    const featureFrequency: Record<string, number> = {};
-    for (const r of results) {
-      for (const f of (r.serp_features || [])) {
-        featureFrequency[f] = (featureFrequency[f] || 0) + 1;
+    // Feature frequency counts SERP snapshots, computed in SQL over the whole scope
+    const featureFrequency: Record<string, { snapshots: number; share: number }> = {};
+    for (const row of frequencyRows) {
+      if (matchesFeature(row.feature)) {
+        featureFrequency[row.feature] = { snapshots: Number(row.snapshots), share: Number(row.share) };
       }
     }
 
@@ -205,36 +273,44 @@ export const getClusterDataTool = new DynamicStructuredTool({
   schema: z.object({
     cluster: z.string().describe("The cluster name to get data for"),
     limit: z.number().optional().default(50).describe("Maximum number of results"),
+    ...marketFilterSchema,
   }),
-  func: async ({ cluster, limit }: GetClusterDataArgs): Promise<string> => {
-    const client = getSupabaseClient();
+  func: async (
+    { cluster, limit, ...market }: GetClusterDataArgs,
+    _runManager?: CallbackManagerForToolRun,
+    config?: RunnableConfig
+  ): Promise<string> => {
+    const storage = getStorage();
+    const workspace = workspaceFromConfig(config);
     
     // Normalize cluster label for consistent matching
     const resolvedCluster: string = normalizeClusterLabel(cluster) || cluster;
     
-    const { data, error } = await client
-      .from("seo_documents")
-      .select("content, metadata")
-      .ilike("metadata->>cluster", `%${resolvedCluster}%`)
-      .order("metadata->>position", { ascending: true })
-      .limit(limit || 50);
+    let data: StoredDocument[];
+    let domainStats: DomainStatsRow[];
+    try {
+      [data, domainStats] = await Promise.all([
+        storage.findDocuments({ workspace, clusterLike: resolvedCluster, market, orderByPosition: true, limit: limit || 50 }),
+        storage.domainStats({ workspace, cluster: resolvedCluster, market }, 100),
+      ]);
+    } catch (error) {
+      return JSON.stringify({ error: errorMessage(error) });
+    }
 
-    if (error) return JSON.stringify({ error: error.message });
+    const results: SerpMetadata[] = data.map((row: StoredDocument) => row.metadata);
 
-    const results: SerpMetadata[] = (data || []).map((row: { metadata: Record<string, unknown> }) => row.metadata as unknown as SerpMetadata);
-    
-    // Compute aggregate stats
-    const domains: string[] = [...new Set(results.map((r: SerpMetadata) => r.domain))];
-    const positions: number[] = results.map((r: SerpMetadata) => r.position).filter((p): p is number => typeof p === 'number');
-    const avgPosition: number | null = positions.length > 0 
-      ? positions.reduce((a: number, b: number) => a + b, 0) / positions.length 
+    // Aggregate stats cover every organic result of the cluster, not just the sampled rows
+    const totalOrganic = domainStats.reduce((sum, row) => sum + Number(row.results), 0);
+    const avgPosition: number | null = totalOrganic > 0
+      ? domainStats.reduce((sum, row) => sum + Number(row.avg_position) * Number(row.results), 0) / totalOrganic
       : null;
 
     return JSON.stringify({
       requested_cluster: cluster,
-      total_results: results.length,
-      unique_domains: domains,
+      total_results: totalOrganic,
+      unique_domains: domainStats.map((row) => row.domain),
       avg_position: avgPosition,
+      top_domains: domainStats.slice(0, 10),
       sample_data: results.slice(0, 15),
     });
   },
@@ -248,36 +324,39 @@ export const analyzeContentTypesTool = new DynamicStructuredTool({
     query: z.string().optional().describe("Optional: Filter by search query or topic"),
     intent: z.string().optional().describe("Optional: Search intent (informational, navigational, transactional)"),
     positionThreshold: z.number().optional().default(10).describe("Only analyze content ranking at or above this position"),
+    ...marketFilterSchema,
   }),
-  func: async ({ cluster, query, intent, positionThreshold }: AnalyzeContentTypesArgs): Promise<string> => {
-    const client = getSupabaseClient();
+  func: async (
+    { cluster, query, intent, positionThreshold, ...market }: AnalyzeContentTypesArgs,
+    _runManager?: CallbackManagerForToolRun,
+    config?: RunnableConfig
+  ): Promise<string> => {
+    const workspace = workspaceFromConfig(config);
     
     const resolvedCluster: string =
       normalizeClusterLabel(cluster) ||
       cluster || 
-      ((query && (await detectClusterFromQuery(query))) || "");
+      ((query && (await detectClusterFromQuery(query, workspace))) || "");
 
-    let dbQuery = client
-      .from("seo_documents")
-      .select("content, metadata")
-      .lte("metadata->>position", positionThreshold || 10)
-      .order("metadata->>position", { ascending: true })
-      .limit(100);
-
-    if (resolvedCluster) {
-      dbQuery = dbQuery.ilike("metadata->>cluster", `%${resolvedCluster}%`);
-    }
-    if (query) {
-      dbQuery = dbQuery.ilike("metadata->>query", `%${query}%`);
+    let data: StoredDocument[];
+    try {
+      data = await getStorage().findDocuments({
+        workspace,
+        maxPosition: positionThreshold || 10,
+        market,
+        clusterLike: resolvedCluster || undefined,
+        queryLike: query || undefined,
+        orderByPosition: true,
+        limit: 100,
+      });
+    } catch (error) {
+      return JSON.stringify({ error: errorMessage(error) });
     }
 
-    const { data, error } = await dbQuery;
-    if (error) return JSON.stringify({ error: error.message });
-
-    if (!data || data.length === 0) {
+    if (data.length === 0) {
       return JSON.stringify({
         error: "No data found for analysis",
-        filters_used: { cluster: resolvedCluster, query, positionThreshold }
+        filters_used: { cluster: resolvedCluster, query, positionThreshold, ...toMarketFilter(market) }
       });
     }
 
@@ -291,9 +370,9 @@ export const analyzeContentTypesTool = new DynamicStructuredTool({
         query,
         providedIntent: intent,
         items: data,
-        toIntentItem: (row: { content: string; metadata: Record<string, unknown> }) => ({
-          domain: (row.metadata as unknown as SerpMetadata).domain as string,
-          position: (row.metadata as unknown as SerpMetadata).position as number | undefined,
+        toIntentItem: (row: StoredDocument) => ({
+          domain: row.metadata.domain,
+          position: row.metadata.position,
           snippet: row.content?.substring(0, 150) || "",
         }),
       });
@@ -321,8 +400,8 @@ export const analyzeContentTypesTool = new DynamicStructuredTool({
 ${intentInstructions}
 
 Results:
-${filteredData.map((row: { content: string; metadata: Record<string, unknown> }, i: number) => `
-${i + 1}. ${(row.metadata as unknown as SerpMetadata).domain} (pos ${(row.metadata as unknown as SerpMetadata).position}):
+${filteredData.map((row: StoredDocument, i: number) => `
+${i + 1}. ${row.metadata.domain} (pos ${row.metadata.position}):
 ${row.content?.substring(0, 1000)}`).join('\n\n')}
 
 Return a JSON object with a key "content_type_analysis" containing a list of objects with:
@@ -4,15 +4,40 @@ import { useState, useCallback, useRef, useEffect, FormEvent, KeyboardEvent } fr
 import { sanitizeText } from "../../utils/stringUtils";
 import { ReloadButton } from "./ui/ReloadButton";
 import { SendButton } from "./ui/SendButton";
+import { CancelButton } from "./ui/CancelButton";
 import { LoadingIndicator } from "./ui/LoadingIndicator";
 import { Badge } from "./ui/Badge";
+import { ThreadSidebar } from "./ThreadSidebar";
 import ReactMarkdown from "react-markdown";
+import { parseServerSentEvents } from "../../utils/sseUtils";
 import type { ChatResponse } from "@/app/api/chat/route";
+import type { ThreadsResponse } from "@/app/api/threads/route";
+import type { ThreadResponse } from "@/app/api/threads/[id]/route";
+import type { ChatStreamEvent, ChatThread } from "@/types";
 
 declare const crypto: {
   randomUUID(): string;
 };
 
+// The browser's anonymous identity and the open conversation survive reloads
+const CLIENT_ID_KEY = "seo-chat-client";
+const THREAD_ID_KEY = "seo-chat-thread";
+
+function chatClientId(): string {
+  let id = window.localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    window.localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+}
+
+// The bundled UI has no sign-in, so it never sends an Authorization token or a workspace: it only
+// works against ANONYMOUS_WORKSPACE. Multi-tenant clients call /api/chat with their own session.
+function chatHeaders(): Record<string, string> {
+  return { "Content-Type": "application/json", "X-Chat-Client": chatClientId() };
+}
+
 interface Message {
   id: string;
   role: "user" | "assistant";
@@ -22,16 +47,148 @@ interface Message {
     cluster?: string;
     searchIntent?: string;
   };
+  // Progress of the run while the answer is streaming
+  progress?: string[];
+  streaming?: boolean;
+}
+
+function describeProgress(event: ChatStreamEvent): string | null {
+  switch (event.type) {
+    case "route":
+      return `Intent: ${event.intent ?? "unknown"}${event.cluster ? ` · cluster ${event.cluster}` : ""}`;
+    case "tool_call":
+      return `Running ${event.name}`;
+    case "tool_result":
+      return `${event.name} ${event.ok ? "returned data" : "failed"}`;
+    case "sources":
+      return `Retrieved ${event.sources.length} sources`;
+    default:
+      return null;
+  }
+}
+
+function applyStreamEvent(message: Message, event: ChatStreamEvent): Message {
+  const progress = describeProgress(event);
+  const next: Message = progress ? { ...message, progress: [...(message.progress ?? []), progress] } : message;
+  switch (event.type) {
+    case "route":
+      return {
+        ...next,
+        metadata: { intent: event.intent ?? undefined, cluster: event.cluster, searchIntent: event.searchIntent ?? undefined },
+      };
+    case "tool_call":
+      // Text written before a tool call is not the answer
+      return { ...next, content: "" };
+    case "token":
+      return { ...next, content: next.content + event.text };
+    case "done":
+      return {
+        ...next,
+        content: event.data.answer,
+        streaming: false,
+        metadata: {
+          intent: event.data.intent ?? undefined,
+          cluster: event.data.cluster,
+          searchIntent: event.data.searchIntent ?? undefined,
+        },
+      };
+    case "error":
+      return { ...next, content: event.error, streaming: false };
+    default:
+      return next;
+  }
 }
 
 export default function Chat() {
-    const handleReload = () => {
-      window.location.reload();
-    };
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [threadId, setThreadId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const selectThread = useCallback((id: string | null) => {
+    setThreadId(id);
+    if (id) {
+      window.localStorage.setItem(THREAD_ID_KEY, id);
+    } else {
+      window.localStorage.removeItem(THREAD_ID_KEY);
+    }
+  }, []);
+
+  const loadThreads = useCallback(async () => {
+    try {
+      const response = await fetch("/api/threads", { headers: chatHeaders() });
+      const data: ThreadsResponse = await response.json();
+      if (data.success && data.data) setThreads(data.data);
+    } catch (error) {
+      console.error("Failed to load conversations:", error);
+    }
+  }, []);
+
+  const openThread = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`/api/threads/${id}`, { headers: chatHeaders() });
+        const data: ThreadResponse = await response.json();
+        if (!data.success || !data.data) {
+          // Deleted, or saved in memory by a server that has restarted since
+          if (response.status === 404) selectThread(null);
+          return;
+        }
+        setMessages(
+          (data.data.messages ?? []).map((m) => ({ id: crypto.randomUUID(), role: m.role, content: m.content }))
+        );
+        selectThread(id);
+      } catch (error) {
+        console.error("Failed to open the conversation:", error);
+      }
+    },
+    [selectThread]
+  );
+
+  useEffect(() => {
+    loadThreads();
+    const savedThreadId = window.localStorage.getItem(THREAD_ID_KEY);
+    if (savedThreadId) openThread(savedThreadId);
+  }, [loadThreads, openThread]);
+
+  const handleNewConversation = useCallback(() => {
+    setMessages([]);
+    selectThread(null);
+  }, [selectThread]);
+
+  const handleRename = useCallback(async (id: string, title: string) => {
+    try {
+      const response = await fetch(`/api/threads/${id}`, {
+        method: "PATCH",
+        headers: chatHeaders(),
+        body: JSON.stringify({ title }),
+      });
+      const data: ThreadResponse = await response.json();
+      const renamed = data.data?.thread;
+      if (data.success && renamed) {
+        setThreads((prev) => prev.map((t) => (t.id === id ? renamed : t)));
+      }
+    } catch (error) {
+      console.error("Failed to rename the conversation:", error);
+    }
+  }, []);
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`/api/threads/${id}`, { method: "DELETE", headers: chatHeaders() });
+        if (!response.ok && response.status !== 404) return;
+        setThreads((prev) => prev.filter((t) => t.id !== id));
+        if (id === threadId) handleNewConversation();
+      } catch (error) {
+        console.error("Failed to delete the conversation:", error);
+      }
+    },
+    [threadId, handleNewConversation]
+  );
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -41,6 +198,10 @@ export default function Chat() {
     scrollToBottom();
   }, [messages, scrollToBottom]);
 
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   const handleSubmit = useCallback(
     async (e: FormEvent) => {
       e.preventDefault();
@@ -54,60 +215,81 @@ export default function Chat() {
         role: "user",
         content: sanitizedInput,
       };
+      const assistantId = crypto.randomUUID();
+      const updateAssistant = (update: (message: Message) => Message) =>
+        setMessages((prev) => prev.map((m) => (m.id === assistantId ? update(m) : m)));
 
-      setMessages((prev) => [...prev, userMessage]);
+      setMessages((prev) => [
+        ...prev,
+        userMessage,
+        { id: assistantId, role: "assistant", content: "", progress: [], streaming: true },
+      ]);
       setInput("");
       setIsLoading(true);
 
-      // Build conversation history for context
-      const history = messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      }));
+      const abort = new AbortController();
+      abortRef.current = abort;
 
       try {
-        const response = await fetch("/api/chat", {
+        const response = await fetch("/api/chat/stream", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: chatHeaders(),
+          // The server keeps the conversation of the thread
           body: JSON.stringify({ 
             query: trimmedInput,
-            history,
+            threadId: threadId ?? undefined,
           }),
+          signal: abort.signal,
         });
 
-        const data: ChatResponse = await response.json();
-
-        const assistantMessage: Message = {
-          id: crypto.randomUUID(),
-          role: "assistant",
-          content: data.success && data.data 
-            ? data.data.answer 
-            : data.error || "An error occurred",
-          metadata: data.success && data.data
-            ? {
-                intent: data.data.intent ?? undefined,
-                cluster: data.data.cluster,
-                searchIntent: data.data.searchIntent ?? undefined,
-              }
-            : undefined,
-        };
+        if (!response.ok || !response.body) {
+          // The conversation no longer exists; the next message starts a new one
+          if (response.status === 404) selectThread(null);
+          const data: ChatResponse = await response.json();
+          updateAssistant((m) => ({ ...m, content: data.error || "An error occurred", streaming: false }));
+          return;
+        }
 
-        setMessages((prev) => [...prev, assistantMessage]);
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const { events, rest } = parseServerSentEvents<ChatStreamEvent>(buffer);
+          buffer = rest;
+          for (const event of events) {
+            if (event.type === "thread") {
+              selectThread(event.thread.id);
+              setThreads((prev) => [event.thread, ...prev.filter((t) => t.id !== event.thread.id)]);
+              continue;
+            }
+            updateAssistant((m) => applyStreamEvent(m, event));
+          }
+        }
+        updateAssistant((m) => (m.streaming ? { ...m, streaming: false, content: m.content || "The answer ended unexpectedly." } : m));
       } catch (error) {
+        if (abort.signal.aborted) {
+          updateAssistant((m) => ({
+            ...m,
+            streaming: false,
+            content: m.content ? `${m.content}\n\n_Cancelled._` : "Cancelled.",
+          }));
+          return;
+        }
         console.error("Chat error:", error);
-        
-        const errorMessage: Message = {
-          id: crypto.randomUUID(),
-          role: "assistant",
+        updateAssistant((m) => ({
+          ...m,
+          streaming: false,
           content: "Failed to connect to the server. Please try again.",
-        };
-        
-        setMessages((prev) => [...prev, errorMessage]);
+        }));
       } finally {
+        abortRef.current = null;
         setIsLoading(false);
       }
     },
-    [input, isLoading]
+    [input, isLoading, threadId, selectThread]
   );
 
   const handleKeyDown = useCallback(
@@ -121,7 +303,16 @@ export default function Chat() {
   );
 
   return (
-    <div className="w-full max-w-screen-md bg-white rounded-lg shadow-lg overflow-hidden">
+    <div className="w-full max-w-screen-lg flex flex-col md:flex-row gap-4 items-start">
+    <ThreadSidebar
+      threads={threads}
+      activeId={threadId}
+      disabled={isLoading}
+      onSelect={openThread}
+      onRename={handleRename}
+      onDelete={handleDelete}
+    />
+    <div className="w-full min-w-0 flex-1 bg-white rounded-lg shadow-lg overflow-hidden">
       <header className="bg-emerald-500 text-white p-4 flex items-center justify-between">
         <div>
           <h1 className="text-lg font-semibold">SEO Assistant Chat</h1>
@@ -129,7 +320,7 @@ export default function Chat() {
             Ask about keywords, SERP, rankings, or strategy
           </p>
         </div>
-        <ReloadButton onClick={handleReload} disabled={isLoading} />
+        <ReloadButton onClick={handleNewConversation} disabled={isLoading} />
       </header>
 
       {/* Messages */}
@@ -148,92 +339,101 @@ export default function Chat() {
             </p>
           </div>
         ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className={message.role === "user" ? "flex justify-end" : ""}
-            >
+          messages
+            .filter((message) => message.content || message.progress?.length || !message.streaming)
+            .map((message) => (
               <div
-                className={`rounded-lg px-4 py-2 break-words ${
-                  message.role === "user"
-                    ? "mt-2 border border-emerald-500"
-                    : "mt-1 bg-gray-100 text-gray-800"
-                }`}
+                key={message.id}
+                className={message.role === "user" ? "flex justify-end" : ""}
               >
-                {message.role === "user" ? (
-                  <p className="whitespace-pre-wrap">{message.content}</p>
-                ) : (
-                  <ReactMarkdown
-                    components={{
-                      h1: ({ children }) => <h1 className="text-2xl font-bold mt-4 mb-2 text-gray-900 border-b pb-1">{children}</h1>,
-                      h2: ({ children }) => <h2 className="text-xl font-bold mt-3 mb-2 text-gray-800">{children}</h2>,
-                      h3: ({ children }) => <h3 className="text-lg font-bold mt-2 mb-1 text-gray-800">{children}</h3>,
-                      p: ({ children }) => <p className="mb-3 last:mb-0 leading-relaxed text-gray-700">{children}</p>,
-                      strong: ({ children }) => <strong className="font-bold text-gray-900">{children}</strong>,
-                      em: ({ children }) => <em className="italic text-gray-800">{children}</em>,
-                      ul: ({ children }) => <ul className="list-disc ml-4 mb-3 space-y-1.5 text-gray-700">{children}</ul>,
-                      ol: ({ children }) => <ol className="list-decimal ml-4 mb-3 space-y-1.5 text-gray-700">{children}</ol>,
-                      li: ({ children }) => <li className="pl-1">{children}</li>,
-                      code: ({ children }) => (
-                        <code className="bg-gray-200 px-1.5 py-0.5 rounded text-sm font-mono text-emerald-700 font-medium">
-                          {children}
-                        </code>
-                      ),
-                      pre: ({ children }) => (
-                        <pre className="bg-gray-100 border border-gray-200 p-3 rounded-lg text-sm font-mono overflow-x-auto my-3 shadow-sm">
-                          {children}
-                        </pre>
-                      ),
-                      blockquote: ({ children }) => (
-                        <blockquote className="border-l-4 border-emerald-500 pl-4 py-1 my-3 bg-emerald-50/50 italic text-gray-700">
-                          {children}
-                        </blockquote>
-                      ),
-                      a: ({ href, children }) => (
-                        <a 
-                          href={href} 
-                          target="_blank" 
-                          rel="noopener noreferrer" 
-                          className="text-emerald-600 hover:text-emerald-700 underline decoration-emerald-500/30 hover:decoration-emerald-500 transition-colors"
-                        >
-                          {children}
-                        </a>
-                      ),
-                      hr: () => <hr className="my-4 border-gray-200" />,
-                      table: ({ children }) => (
-                        <div className="overflow-x-auto my-4 border border-gray-200 rounded-lg">
-                          <table className="min-w-full divide-y divide-gray-200">
+                <div
+                  className={`rounded-lg px-4 py-2 break-words ${
+                    message.role === "user"
+                      ? "mt-2 border border-emerald-500"
+                      : "mt-1 bg-gray-100 text-gray-800"
+                  }`}
+                >
+                  {message.streaming && message.progress && message.progress.length > 0 && (
+                    <ul className="mb-2 text-xs text-gray-500 space-y-0.5" aria-label="Progress">
+                      {message.progress.map((step, index) => (
+                        <li key={index}>{step}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {message.role === "user" ? (
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                  ) : (
+                    <ReactMarkdown
+                      components={{
+                        h1: ({ children }) => <h1 className="text-2xl font-bold mt-4 mb-2 text-gray-900 border-b pb-1">{children}</h1>,
+                        h2: ({ children }) => <h2 className="text-xl font-bold mt-3 mb-2 text-gray-800">{children}</h2>,
+                        h3: ({ children }) => <h3 className="text-lg font-bold mt-2 mb-1 text-gray-800">{children}</h3>,
+                        p: ({ children }) => <p className="mb-3 last:mb-0 leading-relaxed text-gray-700">{children}</p>,
+                        strong: ({ children }) => <strong className="font-bold text-gray-900">{children}</strong>,
+                        em: ({ children }) => <em className="italic text-gray-800">{children}</em>,
+                        ul: ({ children }) => <ul className="list-disc ml-4 mb-3 space-y-1.5 text-gray-700">{children}</ul>,
+                        ol: ({ children }) => <ol className="list-decimal ml-4 mb-3 space-y-1.5 text-gray-700">{children}</ol>,
+                        li: ({ children }) => <li className="pl-1">{children}</li>,
+                        code: ({ children }) => (
+                          <code className="bg-gray-200 px-1.5 py-0.5 rounded text-sm font-mono text-emerald-700 font-medium">
+                            {children}
+                          </code>
+                        ),
+                        pre: ({ children }) => (
+                          <pre className="bg-gray-100 border border-gray-200 p-3 rounded-lg text-sm font-mono overflow-x-auto my-3 shadow-sm">
                             {children}
-                          </table>
-                        </div>
-                      ),
-                      thead: ({ children }) => <thead className="bg-gray-50">{children}</thead>,
-                      th: ({ children }) => <th className="px-4 py-2 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">{children}</th>,
-                      td: ({ children }) => <td className="px-4 py-2 text-sm text-gray-700 border-t border-gray-100">{children}</td>,
-                    }}
-                  >
-                    {message.content}
-                  </ReactMarkdown>
-                )}
-                {message.metadata && (
-                  <div className="mt-2 pt-2 border-t border-gray-200 text-xs text-gray-500 flex gap-2 flex-wrap">
-                    {message.metadata.intent && (
-                      <Badge label={message.metadata.intent} type="status" />
-                    )}
-                    {message.metadata.cluster && (
-                      <Badge label={message.metadata.cluster} type="cluster" />
-                    )}
-                    {message.metadata.searchIntent && (
-                      <Badge label={message.metadata.searchIntent} type="intent" />
-                    )}
-                  </div>
-                )}
+                          </pre>
+                        ),
+                        blockquote: ({ children }) => (
+                          <blockquote className="border-l-4 border-emerald-500 pl-4 py-1 my-3 bg-emerald-50/50 italic text-gray-700">
+                            {children}
+                          </blockquote>
+                        ),
+                        a: ({ href, children }) => (
+                          <a 
+                            href={href} 
+                            target="_blank" 
+                            rel="noopener noreferrer" 
+                            className="text-emerald-600 hover:text-emerald-700 underline decoration-emerald-500/30 hover:decoration-emerald-500 transition-colors"
+                          >
+                            {children}
+                          </a>
+                        ),
+                        hr: () => <hr className="my-4 border-gray-200" />,
+                        table: ({ children }) => (
+                          <div className="overflow-x-auto my-4 border border-gray-200 rounded-lg">
+                            <table className="min-w-full divide-y divide-gray-200">
+                              {children}
+                            </table>
+                          </div>
+                        ),
+                        thead: ({ children }) => <thead className="bg-gray-50">{children}</thead>,
+                        th: ({ children }) => <th className="px-4 py-2 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">{children}</th>,
+                        td: ({ children }) => <td className="px-4 py-2 text-sm text-gray-700 border-t border-gray-100">{children}</td>,
+                      }}
+                    >
+                      {message.content}
+                    </ReactMarkdown>
+                  )}
+                  {message.metadata && (
+                    <div className="mt-2 pt-2 border-t border-gray-200 text-xs text-gray-500 flex gap-2 flex-wrap">
+                      {message.metadata.intent && (
+                        <Badge label={message.metadata.intent} type="status" />
+                      )}
+                      {message.metadata.cluster && (
+                        <Badge label={message.metadata.cluster} type="cluster" />
+                      )}
+                      {message.metadata.searchIntent && (
+                        <Badge label={message.metadata.searchIntent} type="intent" />
+                      )}
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
-          ))
+            ))
         )}
         
-        {isLoading && <LoadingIndicator />}
+        {isLoading && !messages[messages.length - 1]?.content && <LoadingIndicator />}
         
         <div ref={messagesEndRef} />
       </div>
@@ -254,13 +454,18 @@ export default function Chat() {
             className="flex-1 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:bg-gray-50 disabled:cursor-not-allowed"
             aria-describedby="chat-hint"
           />
-        <ReloadButton onClick={handleReload} disabled={isLoading} />
-        <SendButton disabled={isLoading || !input.trim()} />
+        <ReloadButton onClick={handleNewConversation} disabled={isLoading} />
+        {isLoading ? (
+          <CancelButton onClick={handleCancel} />
+        ) : (
+          <SendButton disabled={!input.trim()} />
+        )}
         </div>
         <p id="chat-hint" className="sr-only">
           Press Enter to send your message
         </p>
       </form>
     </div>
+    </div>
   );
 }
\ No newline at end of file
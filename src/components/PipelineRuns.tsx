@@ -0,0 +1,84 @@
+import { Badge } from "./ui/Badge";
+import type { PipelineRun, PipelineRunStatus, PipelineStageStatus } from "@/types";
+
+interface PipelineRunsProps {
+  runs: PipelineRun[];
+  // Shown instead of the runs when the workspace could not be resolved
+  error?: string;
+}
+
+const statusBadgeType = (status: PipelineRunStatus | PipelineStageStatus): string => {
+  if (status === "succeeded") return "status";
+  if (status === "failed") return "error";
+  return "default";
+};
+
+const formatDate = (iso?: string): string => (iso ? new Date(iso).toLocaleString() : "—");
+
+export const PipelineRuns = ({ runs, error }: PipelineRunsProps) => (
+  <section className="w-full max-w-screen-md bg-white rounded-lg shadow-lg overflow-hidden" aria-labelledby="pipeline-runs-title">
+    <header className="bg-emerald-500 text-white p-4">
+      <h1 id="pipeline-runs-title" className="text-lg font-semibold">Pipeline Runs</h1>
+      <p className="mt-1 text-sm text-emerald-100">Scheduled scrape → normalize → build → upsert jobs</p>
+    </header>
+
+    {error ? (
+      <p className="p-4 text-center text-red-700">{error}</p>
+    ) : runs.length === 0 ? (
+      <p className="p-4 text-center text-gray-500">No pipeline runs recorded yet.</p>
+    ) : (
+      <ul className="divide-y divide-gray-200">
+        {runs.map((run) => {
+          const failed = run.queries.filter((q) => q.status === "failed").length;
+          const documents = run.queries.reduce((sum, q) => sum + q.documents, 0);
+          return (
+            <li key={run.id} className="p-4">
+              <details>
+                <summary className="flex flex-wrap items-center gap-2 cursor-pointer text-sm text-gray-700">
+                  <Badge label={run.status} type={statusBadgeType(run.status)} />
+                  <span>{formatDate(run.startedAt)}</span>
+                  <span className="text-gray-500">
+                    {run.trigger} · {run.provider}{run.workspace ? ` · ${run.workspace}` : ""} · {run.queries.length} queries · {failed} failed · {documents} documents
+                  </span>
+                </summary>
+                {run.error && <p className="mt-2 text-sm text-red-700">{run.error}</p>}
+                <table className="mt-3 min-w-full text-xs text-gray-700">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-2 py-1 text-left font-semibold">Query</th>
+                      <th scope="col" className="px-2 py-1 text-left font-semibold">Cluster</th>
+                      <th scope="col" className="px-2 py-1 text-left font-semibold">Snapshot</th>
+                      <th scope="col" className="px-2 py-1 text-left font-semibold">Stages</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {run.queries.map((result, index) => (
+                      <tr key={`${run.id}-${index}`} className="border-t border-gray-100 align-top">
+                        <td className="px-2 py-1">{result.query}</td>
+                        <td className="px-2 py-1">{result.cluster}</td>
+                        <td className="px-2 py-1">
+                          {result.snapshotKind
+                            ? `${result.snapshotKind} · ${result.changeEvents ?? 0} changes`
+                            : "—"}
+                        </td>
+                        <td className="px-2 py-1">
+                          <div className="flex flex-wrap gap-1">
+                            {result.stages.map((stage) => (
+                              <span key={stage.stage} title={stage.error ?? `${stage.attempts} attempt(s)`}>
+                                <Badge label={stage.stage} type={statusBadgeType(stage.status)} />
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            </li>
+          );
+        })}
+      </ul>
+    )}
+  </section>
+);
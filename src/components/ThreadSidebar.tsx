@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import type { ChatThread } from "@/types";
+
+interface ThreadSidebarProps {
+  threads: ChatThread[];
+  activeId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ThreadSidebar = ({ threads, activeId, disabled = false, onSelect, onRename, onDelete }: ThreadSidebarProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setTitle(thread.title);
+  };
+
+  const submitRename = (e: FormEvent) => {
+    e.preventDefault();
+    if (editingId && title.trim()) onRename(editingId, title.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <nav className="w-full md:w-64 shrink-0 bg-white rounded-lg shadow-lg overflow-hidden" aria-label="Conversations">
+      <h2 className="bg-emerald-500 text-white px-4 py-3 text-sm font-semibold">Conversations</h2>
+      {threads.length === 0 ? (
+        <p className="p-4 text-xs text-gray-400">No saved conversations yet.</p>
+      ) : (
+        <ul className="max-h-[560px] overflow-y-auto divide-y divide-gray-100">
+          {threads.map((thread) => (
+            <li key={thread.id} className={thread.id === activeId ? "bg-emerald-50" : ""}>
+              {editingId === thread.id ? (
+                <form onSubmit={submitRename} className="p-2">
+                  <label htmlFor={`thread-title-${thread.id}`} className="sr-only">
+                    Conversation title
+                  </label>
+                  <input
+                    id={`thread-title-${thread.id}`}
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onBlur={() => setEditingId(null)}
+                    onKeyDown={(e) => e.key === "Escape" && setEditingId(null)}
+                    autoFocus
+                    className="w-full px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                </form>
+              ) : (
+                <div className="flex items-center gap-1 px-2 py-1">
+                  <button
+                    type="button"
+                    onClick={() => onSelect(thread.id)}
+                    disabled={disabled}
+                    className="flex-1 min-w-0 text-left px-2 py-1 text-sm text-gray-700 truncate disabled:cursor-not-allowed"
+                    title={thread.title}
+                    aria-current={thread.id === activeId ? "true" : undefined}
+                  >
+                    {thread.title}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startRename(thread)}
+                    disabled={disabled}
+                    className="p-1 text-xs text-gray-400 hover:text-emerald-600 disabled:cursor-not-allowed"
+                    aria-label={`Rename "${thread.title}"`}
+                    title="Rename"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(thread.id)}
+                    disabled={disabled}
+                    className="p-1 text-xs text-gray-400 hover:text-red-600 disabled:cursor-not-allowed"
+                    aria-label={`Delete "${thread.title}"`}
+                    title="Delete"
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </nav>
+  );
+};
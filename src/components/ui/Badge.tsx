@@ -16,6 +16,9 @@ export const Badge = ({ label, type, className = "" }: BadgeProps) => {
     case "intent":
       colorClass = "bg-purple-100 text-purple-700";
       break;
+    case "error":
+      colorClass = "bg-red-100 text-red-700";
+      break;
     default:
       colorClass = "bg-gray-100 text-gray-700";
   }
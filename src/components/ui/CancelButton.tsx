@@ -0,0 +1,23 @@
+interface CancelButtonProps {
+  onClick: () => void;
+}
+
+export const CancelButton = ({ onClick }: CancelButtonProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 transition-colors"
+    aria-label="Cancel the answer"
+    title="Cancel the answer"
+  >
+    <svg
+      className="w-5 h-5"
+      fill="currentColor"
+      viewBox="0 0 24 24"
+      xmlns="http://www.w3.org/2000/svg"
+      aria-hidden="true"
+    >
+      <rect x="6" y="6" width="12" height="12" rx="1.5" />
+    </svg>
+  </button>
+);
@@ -6,8 +6,8 @@ interface ReloadButtonProps {
 export const ReloadButton = ({ onClick, disabled = false }: ReloadButtonProps) => (
   <button
     type="button"
-    aria-label="Reload the chat"
-    title="Reload the chat"
+    aria-label="Start a new conversation"
+    title="Start a new conversation"
     onClick={onClick}
     disabled={disabled}
     className={`p-2 rounded ${disabled ? 'bg-gray-200 cursor-not-allowed' : ''}`}
@@ -0,0 +1,114 @@
+import { OpenAIEmbeddings } from '@langchain/openai';
+import { tokenizeWords } from '../utils/stringUtils';
+import type { EmbeddingProvider, EmbeddingProviderName } from './types';
+
+// Width of seo_documents.embedding / embedding_next; every provider must embed at this size
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const LOCAL_MODEL = 'local-hash';
+const DEFAULT_VERSION = '1';
+
+let cachedProvider: EmbeddingProvider | undefined;
+
+function checkDimensions(vectors: number[][], model: string): number[][] {
+  const wrong = vectors.find(vector => vector.length !== EMBEDDING_DIMENSIONS);
+  if (wrong) {
+    throw new Error(`Embedding model ${model} returned ${wrong.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+  }
+  return vectors;
+}
+
+export function createOpenAIEmbeddingProvider(model = DEFAULT_OPENAI_MODEL, version = DEFAULT_VERSION): EmbeddingProvider {
+  // text-embedding-3 models can be shortened to the column width; older models have a fixed size
+  const embeddings = new OpenAIEmbeddings({
+    model,
+    ...(model.startsWith('text-embedding-3') ? { dimensions: EMBEDDING_DIMENSIONS } : {})
+  });
+
+  return {
+    name: 'openai',
+    model,
+    version,
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embedDocuments(texts: string[]): Promise<number[][]> {
+      return checkDimensions(await embeddings.embedDocuments(texts), model);
+    },
+    async embedQuery(text: string): Promise<number[]> {
+      return checkDimensions([await embeddings.embedQuery(text)], model)[0];
+    }
+  };
+}
+
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Signed feature hashing of words and word pairs, L2-normalized so cosine distance behaves.
+export function hashEmbedding(text: string, dimensions = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = tokenizeWords(text);
+  const counts = new Map<string, number>();
+  words.forEach((word, i) => {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+    if (i > 0) counts.set(`${words[i - 1]} ${word}`, (counts.get(`${words[i - 1]} ${word}`) ?? 0) + 1);
+  });
+
+  for (const [feature, count] of counts) {
+    const hash = hashFeature(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    // pgvector cannot compute cosine distance to a zero vector
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map(value => value / norm);
+}
+
+// Deterministic and offline: no API key, same vector for the same text on every machine.
+export function createLocalEmbeddingProvider(version = DEFAULT_VERSION): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: LOCAL_MODEL,
+    version,
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embedDocuments(texts: string[]): Promise<number[][]> {
+      return texts.map(text => hashEmbedding(text));
+    },
+    async embedQuery(text: string): Promise<number[]> {
+      return hashEmbedding(text);
+    }
+  };
+}
+
+export function createEmbeddingProvider(name: EmbeddingProviderName, model?: string, version?: string): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      return createOpenAIEmbeddingProvider(model || DEFAULT_OPENAI_MODEL, version || DEFAULT_VERSION);
+    case 'local':
+      return createLocalEmbeddingProvider(version || DEFAULT_VERSION);
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!cachedProvider) {
+    cachedProvider = createEmbeddingProvider(
+      (process.env.EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderName,
+      process.env.EMBEDDING_MODEL,
+      process.env.EMBEDDING_VERSION
+    );
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,177 @@
+import { randomUUID } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { getSerpProvider } from './serpProviders';
+import { upsertProcessedEntries } from './vectorStore';
+import { planSnapshotChange, recordSnapshotChange } from './snapshotChanges';
+import { getWorkspaceId } from './workspaces';
+import { buildSerpEntries } from '../utils/buildSerpEntries';
+import { DEFAULT_WORKSPACE, loadClusters } from '../utils/clusterUtils';
+import { sleep, withRetries } from '../utils/fetchUtils';
+import { hashContent, hashEntry, loadLedger, saveLedger } from '../utils/ingestionLedger';
+import { saveSnapshot } from '../utils/snapshotFiles';
+import { acceptSnapshot } from '../utils/quarantine';
+import type {
+  ClusterDefinitions,
+  PipelineQueryResult,
+  PipelineRun,
+  PipelineStageName,
+  PipelineStageResult,
+  ProcessedEntry,
+  SerpProvider,
+  SerpRequest
+} from './types';
+
+const RUN_LOG_PATH = join(process.cwd(), 'assets', 'pipelineRuns.json');
+const MAX_LOGGED_RUNS = 50;
+const STAGE_RETRY = { attempts: 3, baseDelayMs: 1000 };
+const NO_RETRY = { attempts: 1, baseDelayMs: 0 };
+
+export interface PipelineOptions {
+  clusters?: ClusterDefinitions;
+  provider?: SerpProvider;
+  trigger?: string;
+  workspace?: string;
+}
+
+export async function readPipelineRuns(): Promise<PipelineRun[]> {
+  try {
+    return JSON.parse(await readFile(RUN_LOG_PATH, 'utf-8')) as PipelineRun[];
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+// Runs logged before workspaces ingested into the default workspace
+export async function readWorkspaceRuns(workspace: string): Promise<PipelineRun[]> {
+  return (await readPipelineRuns()).filter(run => (run.workspace ?? DEFAULT_WORKSPACE) === workspace);
+}
+
+async function persistRun(run: PipelineRun): Promise<void> {
+  const runs = (await readPipelineRuns()).filter(r => r.id !== run.id);
+  await writeFile(RUN_LOG_PATH, JSON.stringify([run, ...runs].slice(0, MAX_LOGGED_RUNS), null, 2));
+}
+
+async function runStage<T>(
+  result: PipelineQueryResult,
+  stage: PipelineStageName,
+  task: () => Promise<T>,
+  retry = STAGE_RETRY
+): Promise<T> {
+  const record: PipelineStageResult = { stage, status: 'running', attempts: 0, startedAt: new Date().toISOString() };
+  result.stages.push(record);
+  try {
+    const value = await withRetries(attempt => {
+      record.attempts = attempt;
+      return task();
+    }, retry);
+    record.status = 'succeeded';
+    return value;
+  } catch (err) {
+    record.status = 'failed';
+    record.error = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    record.finishedAt = new Date().toISOString();
+  }
+}
+
+interface IngestedSnapshot {
+  file: string;
+  content: string;
+  entries: ProcessedEntry[];
+}
+
+// Snapshots that barely differ from the previous one are stored as change events only (a delta);
+// pages are fetched and documents embedded for baselines alone.
+async function processQuery(provider: SerpProvider, request: SerpRequest, result: PipelineQueryResult): Promise<IngestedSnapshot> {
+  const raw = await runStage(result, 'scrape', () => provider.fetchRaw(request));
+
+  const data = await runStage(result, 'normalize', async () => {
+    const snapshot = await acceptSnapshot(raw, provider.normalize(raw, request), `${provider.name}:${request.cluster}:${request.query}`);
+    result.snapshotFile = await saveSnapshot(snapshot);
+    return snapshot;
+  }, NO_RETRY);
+
+  const plan = await runStage(result, 'diff', () => planSnapshotChange(data));
+  result.snapshotKind = plan.kind;
+  result.changeEvents = plan.diff.events.length;
+
+  const entries = plan.kind === 'baseline'
+    ? await runStage(result, 'build', () => buildSerpEntries(data), NO_RETRY)
+    : [];
+  result.documents = await runStage(result, 'upsert', async () => {
+    const upserted = await upsertProcessedEntries(entries);
+    await recordSnapshotChange(data, plan);
+    return upserted;
+  });
+  return { file: result.snapshotFile as string, content: JSON.stringify(data, null, 2), entries };
+}
+
+// Records the saved snapshot files and their documents, so preprocess and seeding skip them.
+// Delta snapshots are recorded without entries and stay out of processed.json.
+async function recordIngestedSnapshots(snapshots: IngestedSnapshot[]): Promise<void> {
+  if (snapshots.length === 0) return;
+  const ledger = await loadLedger();
+  const embeddedAt = new Date().toISOString();
+  for (const snapshot of snapshots) {
+    ledger.files[snapshot.file] = {
+      hash: hashContent(snapshot.content),
+      processedAt: embeddedAt,
+      entryIds: snapshot.entries.map(entry => entry.id)
+    };
+    for (const entry of snapshot.entries) {
+      ledger.embeddings[entry.id] = { ...hashEntry(entry), embeddedAt };
+    }
+  }
+  await saveLedger(ledger);
+}
+
+export async function runPipeline(options: PipelineOptions = {}): Promise<PipelineRun> {
+  const provider = options.provider ?? getSerpProvider();
+  const clusters = options.clusters ?? await loadClusters();
+  const workspace = options.workspace ?? getWorkspaceId();
+  const run: PipelineRun = {
+    id: randomUUID(),
+    trigger: options.trigger ?? 'manual',
+    provider: provider.name,
+    workspace,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    clusters: Object.keys(clusters),
+    queries: []
+  };
+  await persistRun(run);
+
+  const ingested: IngestedSnapshot[] = [];
+  try {
+    for (const [cluster, queries] of Object.entries(clusters)) {
+      for (const { q, ...market } of queries) {
+        const result: PipelineQueryResult = { cluster, query: q, market, status: 'running', documents: 0, stages: [] };
+        run.queries.push(result);
+        try {
+          ingested.push(await processQuery(provider, { query: q, cluster, market, workspace }, result));
+          result.status = 'succeeded';
+        } catch (err) {
+          result.status = 'failed';
+          console.error(`✗ Pipeline failed for query "${q}": ${err instanceof Error ? err.message : String(err)}`);
+        }
+        await persistRun(run);
+        await sleep(provider.requestDelayMs);
+      }
+    }
+
+    const failed = run.queries.filter(q => q.status === 'failed').length;
+    run.status = failed === 0 ? 'succeeded' : failed === run.queries.length ? 'failed' : 'partial';
+  } catch (err) {
+    run.status = 'failed';
+    run.error = err instanceof Error ? err.message : String(err);
+  } finally {
+    run.finishedAt = new Date().toISOString();
+    await recordIngestedSnapshots(ingested);
+    await persistRun(run);
+  }
+
+  return run;
+}
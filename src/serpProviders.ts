@@ -0,0 +1,169 @@
+import { readdir, readFile } from 'fs/promises';
+import { join, extname } from 'path';
+import { normalizeSerperResponse } from '../utils/normalizeResponse';
+import { parseCsv } from '../utils/csvUtils';
+import { DEFAULT_DEVICE, DEFAULT_ENGINE, formatMarket, pickMarket, resolveMarket, serpKey } from '../utils/clusterUtils';
+import { requiredEnv } from '../utils/envUtils';
+import type { SerpData, SerpProvider, SerpProviderName, SerpRequest } from './types';
+
+const SERPER_ENDPOINT = 'https://google.serper.dev/search';
+const SERPER_REQUEST_DELAY_MS = 600;
+const DEFAULT_FILE_PROVIDER_DIR = join('assets', 'serpExports');
+
+const CSV_COLUMN_ALIASES = {
+  query: ['keyword', 'query', 'q', 'search term'],
+  position: ['position', 'rank', 'ranking'],
+  link: ['url', 'link', 'landing page'],
+  title: ['title'],
+  snippet: ['snippet', 'description'],
+  date: ['date', 'published'],
+  gl: ['gl', 'country'],
+  hl: ['hl', 'language'],
+  device: ['device'],
+  engine: ['engine', 'search engine']
+} as const;
+
+type CsvColumn = keyof typeof CSV_COLUMN_ALIASES;
+
+let cachedProvider: SerpProvider | undefined;
+
+function normalizeSerperShape(raw: Record<string, unknown>, request: SerpRequest): SerpData | null {
+  const normalized = normalizeSerperResponse(raw, request.cluster, request.query, request.market, request.workspace);
+  return normalized as unknown as SerpData | null;
+}
+
+export function createSerperProvider(apiKey: string): SerpProvider {
+  return {
+    name: 'serper',
+    requestDelayMs: SERPER_REQUEST_DELAY_MS,
+    normalize: normalizeSerperShape,
+    async fetchRaw(request: SerpRequest): Promise<Record<string, unknown>> {
+      // Serper only returns Google desktop results; other markets would be stored under the wrong labels
+      const market = resolveMarket(request.market);
+      if (market.engine !== DEFAULT_ENGINE || market.device !== DEFAULT_DEVICE) {
+        throw new Error(`Serper cannot scrape "${request.query}" in ${formatMarket(market)}: only ${DEFAULT_ENGINE} ${DEFAULT_DEVICE} is supported. Use the file provider for other engines and devices.`);
+      }
+
+      const res = await fetch(SERPER_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-KEY': apiKey
+        },
+        body: JSON.stringify({ q: request.query, gl: request.market.gl, hl: request.market.hl })
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`Serper API ${res.status}: ${text}`);
+      }
+      return await res.json() as Record<string, unknown>;
+    }
+  };
+}
+
+function readCsvColumn(row: Record<string, string>, column: CsvColumn): string {
+  const alias = CSV_COLUMN_ALIASES[column].find(name => row[name]);
+  return alias ? row[alias] : '';
+}
+
+function groupCsvRowsByQuery(rows: Record<string, string>[]): Map<string, Record<string, unknown>> {
+  const responses = new Map<string, Record<string, unknown>>();
+
+  for (const row of rows) {
+    const query = readCsvColumn(row, 'query');
+    if (!query) continue;
+
+    const market = pickMarket({
+      gl: readCsvColumn(row, 'gl'),
+      hl: readCsvColumn(row, 'hl'),
+      device: readCsvColumn(row, 'device'),
+      engine: readCsvColumn(row, 'engine')
+    });
+    const key = serpKey(query, market);
+    const response = responses.get(key) ?? { searchParameters: { q: query, ...market }, organic: [] };
+    (response.organic as Record<string, unknown>[]).push({
+      position: readCsvColumn(row, 'position'),
+      link: readCsvColumn(row, 'link'),
+      title: readCsvColumn(row, 'title'),
+      snippet: readCsvColumn(row, 'snippet'),
+      date: readCsvColumn(row, 'date') || null
+    });
+    responses.set(key, response);
+  }
+
+  return responses;
+}
+
+function readJsonResponseKey(response: Record<string, unknown>): string {
+  const params = response.searchParameters as Record<string, unknown> | undefined;
+  return typeof params?.q === 'string' ? serpKey(params.q, pickMarket(params)) : '';
+}
+
+async function loadExportedResponses(dir: string): Promise<Map<string, Record<string, unknown>>> {
+  const responses = new Map<string, Record<string, unknown>>();
+  const files = await readdir(dir);
+
+  for (const file of files.sort()) {
+    const extension = extname(file).toLowerCase();
+    const content = await readFile(join(dir, file), 'utf-8');
+
+    if (extension === '.csv') {
+      for (const [key, response] of groupCsvRowsByQuery(parseCsv(content))) {
+        responses.set(key, response);
+      }
+    } else if (extension === '.json') {
+      const parsed = JSON.parse(content) as Record<string, unknown> | Record<string, unknown>[];
+      for (const response of Array.isArray(parsed) ? parsed : [parsed]) {
+        const key = readJsonResponseKey(response);
+        if (key) responses.set(key, response);
+      }
+    }
+  }
+
+  return responses;
+}
+
+export function createFileSerpProvider(dir: string): SerpProvider {
+  let responsesPromise: Promise<Map<string, Record<string, unknown>>> | null = null;
+
+  return {
+    name: 'file',
+    requestDelayMs: 0,
+    normalize: normalizeSerperShape,
+    async fetchRaw(request: SerpRequest): Promise<Record<string, unknown>> {
+      if (!responsesPromise) {
+        responsesPromise = loadExportedResponses(dir);
+      }
+      const response = (await responsesPromise).get(serpKey(request.query, request.market));
+      if (!response) {
+        throw new Error(`No exported SERP found for query "${request.query}" (${formatMarket(resolveMarket(request.market))}) in ${dir}`);
+      }
+      return response;
+    }
+  };
+}
+
+function createProvider(name: SerpProviderName): SerpProvider {
+  switch (name) {
+    case 'serper':
+      return createSerperProvider(requiredEnv('SERPER_API_KEY'));
+    case 'file':
+      return createFileSerpProvider(
+        join(process.cwd(), process.env.SERP_FILE_PROVIDER_DIR || DEFAULT_FILE_PROVIDER_DIR)
+      );
+    default:
+      throw new Error(`Unknown SERP provider: ${name}`);
+  }
+}
+
+export async function searchSerp(provider: SerpProvider, request: SerpRequest): Promise<SerpData | null> {
+  return provider.normalize(await provider.fetchRaw(request), request);
+}
+
+export function getSerpProvider(): SerpProvider {
+  if (!cachedProvider) {
+    cachedProvider = createProvider((process.env.SERP_PROVIDER || 'serper') as SerpProviderName);
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,96 @@
+import { getSupabaseClient } from './vectorStore';
+import { snapshotSerpId } from '../utils/buildSerpEntries';
+import { DEFAULT_WORKSPACE, pickMarket, resolveMarket } from '../utils/clusterUtils';
+import { chooseSnapshotKind, DEFAULT_BASELINE_POLICY, diffFingerprints, snapshotFingerprint } from '../utils/snapshotDiff';
+import type {
+  BaselinePolicy,
+  PreviousSnapshot,
+  SerpChangeEvent,
+  SerpData,
+  SnapshotChangePlan,
+  SnapshotFingerprint,
+  SnapshotKind,
+  SnapshotMeta
+} from './types';
+
+function numberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+export function getBaselinePolicy(): BaselinePolicy {
+  return {
+    maxAgeDays: numberEnv('SNAPSHOT_BASELINE_MAX_AGE_DAYS', DEFAULT_BASELINE_POLICY.maxAgeDays),
+    maxChangeRatio: numberEnv('SNAPSHOT_BASELINE_CHANGE_RATIO', DEFAULT_BASELINE_POLICY.maxChangeRatio)
+  };
+}
+
+function snapshotMeta(data: SerpData, features: string[]): SnapshotMeta {
+  return {
+    workspace: data.workspace ?? DEFAULT_WORKSPACE,
+    serp_id: snapshotSerpId(data),
+    query: data.searchParameters.q,
+    cluster: data.cluster ?? null,
+    iso_date: data.timestamp,
+    serp_features: features,
+    ...resolveMarket(pickMarket(data.searchParameters))
+  };
+}
+
+export async function getPreviousSnapshot(data: SerpData): Promise<PreviousSnapshot | null> {
+  const market = resolveMarket(pickMarket(data.searchParameters));
+  const { data: rows, error } = await getSupabaseClient().rpc('previous_serp_snapshot', {
+    p_workspace: data.workspace ?? DEFAULT_WORKSPACE,
+    p_query: data.searchParameters.q,
+    p_engine: market.engine,
+    p_device: market.device,
+    p_gl: market.gl,
+    p_hl: market.hl,
+    p_before: data.timestamp
+  });
+  if (error) {
+    throw new Error(`Failed to load previous snapshot: ${error.message}`);
+  }
+  return ((rows ?? []) as PreviousSnapshot[])[0] ?? null;
+}
+
+// Diffs a new snapshot against the previous one of its query/market and decides how to store it.
+export async function planSnapshotChange(data: SerpData, policy = getBaselinePolicy()): Promise<SnapshotChangePlan> {
+  const previous = await getPreviousSnapshot(data);
+  const fingerprint = snapshotFingerprint(data);
+  const diff = previous?.fingerprint
+    ? diffFingerprints(previous.fingerprint, fingerprint)
+    : { events: [], changeRatio: 1 };
+  return { kind: chooseSnapshotKind(previous, diff, data.timestamp, policy), previous, fingerprint, diff };
+}
+
+// Call after a baseline's documents are upserted; for a delta this is the only write.
+export async function recordSnapshotChange(data: SerpData, plan: SnapshotChangePlan): Promise<void> {
+  await recordSnapshot(
+    snapshotMeta(data, plan.fingerprint.features),
+    plan.kind,
+    plan.previous?.id ?? null,
+    plan.fingerprint,
+    plan.diff.events
+  );
+}
+
+// Also restores archived snapshots, whose documents (if any) must be upserted first.
+export async function recordSnapshot(
+  meta: SnapshotMeta,
+  kind: SnapshotKind,
+  previousId: string | null,
+  fingerprint: SnapshotFingerprint,
+  events: SerpChangeEvent[]
+): Promise<void> {
+  const { error } = await getSupabaseClient().rpc('record_serp_snapshot', {
+    p_meta: meta,
+    p_kind: kind,
+    p_previous_id: previousId,
+    p_fingerprint: fingerprint,
+    p_events: events
+  });
+  if (error) {
+    throw new Error(`Failed to record snapshot changes: ${error.message}`);
+  }
+}
@@ -0,0 +1,549 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { Document } from '@langchain/core/documents';
+import type {
+  AggregateScope,
+  ChangeLogQuery,
+  ChangeLogRow,
+  DocumentQuery,
+  DomainStatsRow,
+  EmbeddingProvider,
+  FeatureFrequencyRow,
+  MetadataFilter,
+  ProcessedEntry,
+  SerpMarket,
+  SerpMetadata,
+  SnapshotFingerprintRow,
+  StorageBackend,
+  StoredDocument
+} from './types';
+import { getSupabaseClient, hybridFunctionName, matchFunctionName } from './vectorStore';
+import { getEmbeddingProvider } from './embeddingProviders';
+import { DEFAULT_WORKSPACE, pickMarket, resolveMarket } from '../utils/clusterUtils';
+import { matchesMetadataFilter } from '../utils/metadataFilter';
+import { tokenizeWords } from '../utils/stringUtils';
+
+export const DEFAULT_LOCAL_STORE_PATH = join(process.cwd(), 'assets', 'processed.json');
+
+// Same constant as the rrf_k default of hybrid_search_seo_documents
+const RRF_K = 50;
+
+export interface SimilaritySearchOptions {
+  workspace: string;
+  k?: number;
+  filter?: MetadataFilter;
+}
+
+export interface HybridSearchOptions {
+  workspace: string;
+  k?: number;
+  filter?: MetadataFilter;
+  fullTextWeight?: number;
+  semanticWeight?: number;
+}
+
+// Everything the agent graph reads: retrieval, the filtered document queries and aggregates of the tools.
+export interface SerpStorage {
+  backend: StorageBackend;
+  // Vector-only search within one workspace; returns documents with their cosine similarity
+  similaritySearch(query: string, options: SimilaritySearchOptions): Promise<[Document, number][]>;
+  // Fuses keyword rank and vector similarity; returns documents with their fused score
+  hybridSearch(query: string, options: HybridSearchOptions): Promise<[Document, number][]>;
+  findDocuments(query: DocumentQuery): Promise<StoredDocument[]>;
+  // Organic results per domain up to maxPosition, most results first
+  domainStats(scope: AggregateScope, maxPosition: number): Promise<DomainStatsRow[]>;
+  // Snapshots showing each SERP feature, most frequent first
+  featureFrequency(scope: AggregateScope): Promise<FeatureFrequencyRow[]>;
+  hasCluster(workspace: string, name: string): Promise<boolean>;
+  clusterQueries(workspace: string, cluster: string): Promise<string[]>;
+  // Capture times of the first and last snapshot; null when the workspace has none
+  snapshotRange(workspace: string): Promise<{ earliest: string; latest: string } | null>;
+  changeLog(query: ChangeLogQuery): Promise<ChangeLogRow[]>;
+  // Fingerprints of every snapshot of the queries in the period, newest first so a limit drops the oldest
+  snapshotFingerprints(query: ChangeLogQuery): Promise<SnapshotFingerprintRow[]>;
+}
+
+let cachedStorage: SerpStorage | undefined;
+
+// Search RPC arguments that compare the query against rows embedded with the same model
+function modelArgs(provider: EmbeddingProvider): { embedding_model: string; embedding_version: string } {
+  return { embedding_model: provider.model, embedding_version: provider.version };
+}
+
+// serp_documents and the aggregate RPCs expose the market keys under the same names
+function marketMatch(market: SerpMarket = {}): Record<string, string> {
+  return pickMarket(market) as Record<string, string>;
+}
+
+interface MatchRow {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  similarity: number;
+}
+
+interface HybridSearchRow {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  similarity: number | null;
+  keyword_rank: number;
+  score: number;
+}
+
+export function createSupabaseStorage(): SerpStorage {
+  return {
+    backend: 'supabase',
+
+    async similaritySearch(query, { workspace, k = 10, filter = {} }) {
+      const provider = getEmbeddingProvider();
+      const { data, error } = await getSupabaseClient().rpc(matchFunctionName, {
+        workspace_id: workspace,
+        query_embedding: await provider.embedQuery(query),
+        match_count: k,
+        filter,
+        ...modelArgs(provider)
+      });
+      if (error) {
+        throw new Error(`Similarity search failed: ${error.message}`);
+      }
+
+      return ((data ?? []) as MatchRow[]).map(row => [
+        new Document({ id: row.id, pageContent: row.content, metadata: { ...row.metadata, similarity: row.similarity } }),
+        row.similarity
+      ]);
+    },
+
+    async hybridSearch(query, { workspace, k = 10, filter = {}, fullTextWeight = 1, semanticWeight = 1 }) {
+      const provider = getEmbeddingProvider();
+      const { data, error } = await getSupabaseClient().rpc(hybridFunctionName, {
+        workspace_id: workspace,
+        query_text: query,
+        query_embedding: await provider.embedQuery(query),
+        match_count: k,
+        filter,
+        full_text_weight: fullTextWeight,
+        semantic_weight: semanticWeight,
+        ...modelArgs(provider)
+      });
+      if (error) {
+        throw new Error(`Hybrid search failed: ${error.message}`);
+      }
+
+      return ((data ?? []) as HybridSearchRow[]).map(row => [
+        new Document({
+          id: row.id,
+          pageContent: row.content,
+          metadata: { ...row.metadata, similarity: row.similarity, keyword_rank: row.keyword_rank, retrieval_score: row.score }
+        }),
+        row.score
+      ]);
+    },
+
+    async findDocuments(query) {
+      let builder = getSupabaseClient()
+        .from('serp_documents')
+        .select('id, content, metadata')
+        .eq('workspace_id', query.workspace)
+        .match(marketMatch(query.market));
+      if (query.cluster) builder = builder.eq('cluster', query.cluster);
+      if (query.clusterLike) builder = builder.ilike('cluster', `%${query.clusterLike}%`);
+      if (query.queryLike) builder = builder.ilike('query', `%${query.queryLike}%`);
+      if (query.queries) builder = builder.in('query', query.queries);
+      if (query.resultType) builder = builder.eq('result_type', query.resultType);
+      if (query.minPosition !== undefined) builder = builder.gte('position', query.minPosition);
+      if (query.maxPosition !== undefined) builder = builder.lte('position', query.maxPosition);
+      if (query.withFeatures) builder = builder.neq('serp_features', '{}');
+      if (query.capturedFrom) builder = builder.gte('captured_at', query.capturedFrom);
+      if (query.capturedTo) builder = builder.lte('captured_at', query.capturedTo);
+
+      if (query.newestFirst) builder = builder.order('captured_at', { ascending: false });
+      const { data, error } = await (query.orderByPosition
+        ? builder.order('position', { ascending: true, nullsFirst: false })
+        : builder
+      ).limit(query.limit);
+      if (error) {
+        throw new Error(`Document query failed: ${error.message}`);
+      }
+      return (data ?? []) as StoredDocument[];
+    },
+
+    async domainStats({ workspace, cluster, query, market }, maxPosition) {
+      const { data, error } = await getSupabaseClient().rpc('serp_domain_stats', {
+        p_workspace: workspace,
+        p_cluster: cluster || null,
+        p_query: query || null,
+        p_max_position: maxPosition,
+        p_market: marketMatch(market)
+      });
+      if (error) {
+        throw new Error(`serp_domain_stats failed: ${error.message}`);
+      }
+      return (data ?? []) as DomainStatsRow[];
+    },
+
+    async featureFrequency({ workspace, cluster, query, market }) {
+      const { data, error } = await getSupabaseClient().rpc('serp_feature_frequency', {
+        p_workspace: workspace,
+        p_cluster: cluster || null,
+        p_query: query || null,
+        p_market: marketMatch(market)
+      });
+      if (error) {
+        throw new Error(`serp_feature_frequency failed: ${error.message}`);
+      }
+      return (data ?? []) as FeatureFrequencyRow[];
+    },
+
+    async hasCluster(workspace, name) {
+      const { data, error } = await getSupabaseClient()
+        .from('serp_clusters')
+        .select('id')
+        .eq('workspace_id', workspace)
+        .eq('name', name)
+        .limit(1);
+      if (error) {
+        throw new Error(`Cluster lookup failed: ${error.message}`);
+      }
+      return (data ?? []).length > 0;
+    },
+
+    async clusterQueries(workspace, cluster) {
+      const { data, error } = await getSupabaseClient()
+        .from('serp_queries')
+        .select('query, serp_clusters!inner(name)')
+        .eq('workspace_id', workspace)
+        .eq('serp_clusters.name', cluster);
+      if (error) {
+        throw new Error(`Cluster query lookup failed: ${error.message}`);
+      }
+      return [...new Set(((data ?? []) as { query: string }[]).map(row => row.query).filter(Boolean))];
+    },
+
+    async snapshotRange(workspace) {
+      const client = getSupabaseClient();
+      const capturedAt = (ascending: boolean) =>
+        client
+          .from('serp_snapshots')
+          .select('captured_at')
+          .eq('workspace_id', workspace)
+          .order('captured_at', { ascending })
+          .limit(1);
+      const [first, last] = await Promise.all([capturedAt(true), capturedAt(false)]);
+      const error = first.error ?? last.error;
+      if (error) {
+        throw new Error(`Snapshot range lookup failed: ${error.message}`);
+      }
+      const earliest = (first.data as { captured_at: string }[] | null)?.[0]?.captured_at;
+      const latest = (last.data as { captured_at: string }[] | null)?.[0]?.captured_at;
+      return earliest && latest ? { earliest, latest } : null;
+    },
+
+    async changeLog({ workspace, queries, capturedFrom, capturedTo, limit }) {
+      const { data, error } = await getSupabaseClient()
+        .from('serp_change_log')
+        .select('snapshot_id, previous_id, captured_at, query, cluster, type, url, domain, feature, previous_position, position')
+        .eq('workspace_id', workspace)
+        .in('query', queries)
+        .gte('captured_at', capturedFrom)
+        .lte('captured_at', capturedTo)
+        .order('captured_at', { ascending: true })
+        .limit(limit);
+      if (error) {
+        throw new Error(`Change log query failed: ${error.message}`);
+      }
+      return (data ?? []) as ChangeLogRow[];
+    },
+
+    async snapshotFingerprints({ workspace, queries, capturedFrom, capturedTo, limit }) {
+      const { data, error } = await getSupabaseClient()
+        .from('serp_snapshot_fingerprints')
+        .select('snapshot_id, captured_at, query, engine, device, gl, hl, fingerprint')
+        .eq('workspace_id', workspace)
+        .in('query', queries)
+        .gte('captured_at', capturedFrom)
+        .lte('captured_at', capturedTo)
+        .order('captured_at', { ascending: false })
+        .limit(limit);
+      if (error) {
+        throw new Error(`Snapshot fingerprint query failed: ${error.message}`);
+      }
+      return (data ?? []) as SnapshotFingerprintRow[];
+    }
+  };
+}
+
+interface LocalIndex {
+  documents: StoredDocument[];
+  vectors: number[][];
+  terms: string[][];
+}
+
+// Entries preprocessed before workspaces and markets existed get the defaults the migrations backfilled
+function toStoredDocument(entry: ProcessedEntry): StoredDocument {
+  const metadata: SerpMetadata = {
+    ...entry.metadata,
+    workspace: entry.metadata.workspace ?? DEFAULT_WORKSPACE,
+    ...resolveMarket(pickMarket(entry.metadata))
+  };
+  return { id: entry.id, content: entry.text_blob, metadata };
+}
+
+async function loadLocalIndex(path: string, provider: EmbeddingProvider): Promise<LocalIndex> {
+  let entries: ProcessedEntry[];
+  try {
+    entries = JSON.parse(await readFile(path, 'utf-8')) as ProcessedEntry[];
+  } catch (err) {
+    throw new Error(`Failed to read local store ${path} (run \`npm run preprocess\` first): ${(err as Error).message}`);
+  }
+  const documents = entries.map(toStoredDocument);
+  return {
+    documents,
+    vectors: await provider.embedDocuments(documents.map(doc => doc.content)),
+    terms: documents.map(doc => tokenizeWords(doc.content))
+  };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function containsText(value: string | null | undefined, needle: string): boolean {
+  return typeof value === 'string' && value.toLowerCase().includes(needle.toLowerCase());
+}
+
+function matchesMarket(metadata: SerpMetadata, market: SerpMarket = {}): boolean {
+  return Object.entries(marketMatch(market)).every(([key, value]) => metadata[key as keyof SerpMarket] === value);
+}
+
+function matchesScope(metadata: SerpMetadata, { workspace, cluster, query, market }: AggregateScope): boolean {
+  return metadata.workspace === workspace
+    && (!cluster || containsText(metadata.cluster, cluster))
+    && (!query || containsText(metadata.query, query))
+    && matchesMarket(metadata, market);
+}
+
+function capturedAt(metadata: SerpMetadata): number {
+  return Date.parse(metadata.iso_date);
+}
+
+function matchesDocumentQuery({ metadata }: StoredDocument, query: DocumentQuery): boolean {
+  const { position } = metadata;
+  return metadata.workspace === query.workspace
+    && matchesMarket(metadata, query.market)
+    && (!query.cluster || metadata.cluster === query.cluster)
+    && (!query.clusterLike || containsText(metadata.cluster, query.clusterLike))
+    && (!query.queryLike || containsText(metadata.query, query.queryLike))
+    && (!query.queries || query.queries.includes(metadata.query))
+    && (!query.resultType || metadata.type === query.resultType)
+    && (query.minPosition === undefined || (position !== undefined && position >= query.minPosition))
+    && (query.maxPosition === undefined || (position !== undefined && position <= query.maxPosition))
+    && (!query.withFeatures || metadata.serp_features.length > 0)
+    && (!query.capturedFrom || capturedAt(metadata) >= Date.parse(query.capturedFrom))
+    && (!query.capturedTo || capturedAt(metadata) <= Date.parse(query.capturedTo));
+}
+
+function byPosition(a: StoredDocument, b: StoredDocument): number {
+  return (a.metadata.position ?? Number.POSITIVE_INFINITY) - (b.metadata.position ?? Number.POSITIVE_INFINITY);
+}
+
+// Share of the document's words that are query terms, weighted by how many distinct terms it contains
+function keywordRank(queryTerms: string[], documentTerms: string[]): number {
+  if (queryTerms.length === 0 || documentTerms.length === 0) return 0;
+  const wanted = new Set(queryTerms);
+  const found = new Set<string>();
+  let hits = 0;
+  for (const term of documentTerms) {
+    if (wanted.has(term)) {
+      found.add(term);
+      hits++;
+    }
+  }
+  return (found.size / wanted.size) * (hits / documentTerms.length);
+}
+
+// Brute-force search over processed.json, embedded in memory with the configured embedding provider on
+// first use. Needs neither Supabase nor Docker, so the agent graph can run on a laptop or in CI.
+export function createLocalStorage(path = DEFAULT_LOCAL_STORE_PATH): SerpStorage {
+  let loading: Promise<LocalIndex> | undefined;
+  const load = (): Promise<LocalIndex> => {
+    loading ??= loadLocalIndex(path, getEmbeddingProvider()).catch((err: unknown) => {
+      loading = undefined;
+      throw err;
+    });
+    return loading;
+  };
+
+  async function scoredCandidates(query: string, workspace: string, filter: MetadataFilter) {
+    const index = await load();
+    const queryVector = await getEmbeddingProvider().embedQuery(query);
+    return index.documents
+      .map((doc, i) => ({ doc, i }))
+      .filter(({ doc }) => doc.metadata.workspace === workspace && matchesMetadataFilter(doc.metadata, filter))
+      .map(({ doc, i }) => ({ doc, terms: index.terms[i], similarity: cosineSimilarity(queryVector, index.vectors[i]) }));
+  }
+
+  async function documentsIn(workspace: string): Promise<StoredDocument[]> {
+    return (await load()).documents.filter(doc => doc.metadata.workspace === workspace);
+  }
+
+  return {
+    backend: 'local',
+
+    async similaritySearch(query, { workspace, k = 10, filter = {} }) {
+      const candidates = await scoredCandidates(query, workspace, filter);
+      return candidates
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, Math.max(k, 1))
+        .map(({ doc, similarity }) => [
+          new Document({ id: doc.id, pageContent: doc.content, metadata: { ...doc.metadata, similarity } }),
+          similarity
+        ]);
+    },
+
+    // Reciprocal rank fusion of the keyword and semantic rankings, as in hybrid_search_seo_documents
+    async hybridSearch(query, { workspace, k = 10, filter = {}, fullTextWeight = 1, semanticWeight = 1 }) {
+      const count = Math.max(k, 1);
+      const queryTerms = [...new Set(tokenizeWords(query))];
+      const candidates = (await scoredCandidates(query, workspace, filter))
+        .map(candidate => ({ ...candidate, keywordRank: keywordRank(queryTerms, candidate.terms) }));
+
+      const keywordRanks = new Map(
+        candidates
+          .filter(candidate => candidate.keywordRank > 0)
+          .sort((a, b) => b.keywordRank - a.keywordRank)
+          .slice(0, count * 2)
+          .map((candidate, rank) => [candidate.doc.id, rank + 1])
+      );
+      const semanticRanks = new Map(
+        [...candidates]
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, count * 2)
+          .map((candidate, rank) => [candidate.doc.id, rank + 1])
+      );
+
+      return candidates
+        .filter(({ doc }) => keywordRanks.has(doc.id) || semanticRanks.has(doc.id))
+        .map(candidate => {
+          const keywordIx = keywordRanks.get(candidate.doc.id);
+          const semanticIx = semanticRanks.get(candidate.doc.id);
+          const score = (keywordIx ? fullTextWeight / (RRF_K + keywordIx) : 0)
+            + (semanticIx ? semanticWeight / (RRF_K + semanticIx) : 0);
+          return { ...candidate, score };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, count)
+        .map(({ doc, similarity, keywordRank: rank, score }) => [
+          new Document({
+            id: doc.id,
+            pageContent: doc.content,
+            metadata: { ...doc.metadata, similarity, keyword_rank: rank, retrieval_score: score }
+          }),
+          score
+        ]);
+    },
+
+    async findDocuments(query) {
+      const matches = (await load()).documents.filter(doc => matchesDocumentQuery(doc, query));
+      if (query.orderByPosition) matches.sort(byPosition);
+      // Stable sort: positions stay ordered within each snapshot
+      if (query.newestFirst) matches.sort((a, b) => b.metadata.iso_date.localeCompare(a.metadata.iso_date));
+      return matches.slice(0, query.limit);
+    },
+
+    async domainStats(scope, maxPosition) {
+      const byDomain = new Map<string, { positions: number[]; queries: Set<string> }>();
+      for (const { metadata } of await documentsIn(scope.workspace)) {
+        const { domain, position } = metadata;
+        if (metadata.type !== 'organic' || !domain || position === undefined || position > maxPosition) continue;
+        if (!matchesScope(metadata, scope)) continue;
+        const stats = byDomain.get(domain) ?? { positions: [], queries: new Set<string>() };
+        stats.positions.push(position);
+        stats.queries.add(metadata.query);
+        byDomain.set(domain, stats);
+      }
+
+      return [...byDomain.entries()]
+        .map(([domain, { positions, queries }]) => ({
+          domain,
+          results: positions.length,
+          queries: queries.size,
+          avg_position: Math.round((positions.reduce((sum, p) => sum + p, 0) / positions.length) * 100) / 100,
+          best_position: Math.min(...positions),
+          top3: positions.filter(p => p <= 3).length
+        }))
+        .sort((a, b) => b.results - a.results || a.avg_position - b.avg_position);
+    },
+
+    async featureFrequency(scope) {
+      const snapshots = new Map<string, string[]>();
+      for (const { metadata } of await documentsIn(scope.workspace)) {
+        if (matchesScope(metadata, scope)) snapshots.set(metadata.serp_id, metadata.serp_features);
+      }
+
+      const counts = new Map<string, number>();
+      for (const features of snapshots.values()) {
+        for (const feature of new Set(features)) counts.set(feature, (counts.get(feature) ?? 0) + 1);
+      }
+      return [...counts.entries()]
+        .map(([feature, count]) => ({
+          feature,
+          snapshots: count,
+          share: Math.round((count / snapshots.size) * 10000) / 10000
+        }))
+        .sort((a, b) => b.snapshots - a.snapshots);
+    },
+
+    async hasCluster(workspace, name) {
+      return (await documentsIn(workspace)).some(doc => doc.metadata.cluster === name);
+    },
+
+    async clusterQueries(workspace, cluster) {
+      const docs = (await documentsIn(workspace)).filter(doc => doc.metadata.cluster === cluster);
+      return [...new Set(docs.map(doc => doc.metadata.query).filter(Boolean))];
+    },
+
+    async snapshotRange(workspace) {
+      const dates = (await documentsIn(workspace))
+        .map(doc => doc.metadata.iso_date)
+        .sort((a, b) => Date.parse(a) - Date.parse(b));
+      return dates.length > 0 ? { earliest: dates[0], latest: dates[dates.length - 1] } : null;
+    },
+
+    // processed.json only holds full snapshots, so the documents already show every change
+    async changeLog() {
+      return [];
+    },
+
+    // No fingerprints are kept either; trend analysis reads every snapshot from its documents
+    async snapshotFingerprints() {
+      return [];
+    }
+  };
+}
+
+export function createStorage(backend: StorageBackend): SerpStorage {
+  switch (backend) {
+    case 'supabase':
+      return createSupabaseStorage();
+    case 'local':
+      return createLocalStorage(process.env.LOCAL_STORE_PATH || DEFAULT_LOCAL_STORE_PATH);
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+}
+
+export function getStorage(): SerpStorage {
+  if (!cachedStorage) {
+    cachedStorage = createStorage((process.env.STORAGE_BACKEND || 'supabase') as StorageBackend);
+  }
+  return cachedStorage;
+}
@@ -0,0 +1,246 @@
+import { randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import { MemorySaver } from '@langchain/langgraph';
+import type { BaseCheckpointSaver } from '@langchain/langgraph';
+import { PostgresSaver } from '@langchain/langgraph-checkpoint-postgres';
+import type { ChatCaller, ChatThread, ThreadScope } from './types';
+import { bearerToken, resolveCaller } from './workspaces';
+
+// Checkpoint tables and chat_threads live in their own schema, away from the Supabase API
+const THREADS_SCHEMA = 'langgraph';
+const MAX_TITLE_LENGTH = 80;
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+const THREAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Header carrying the random id the chat UI keeps in localStorage
+export const CLIENT_ID_HEADER = 'x-chat-client';
+
+export class ThreadNotFoundError extends Error {
+  readonly status = 404;
+
+  constructor(id: string) {
+    super(`Conversation "${id}" not found`);
+    this.name = 'ThreadNotFoundError';
+  }
+}
+
+// Every method except touch only sees threads of the given scope
+export interface ThreadStore {
+  // Most recently active first
+  list(scope: ThreadScope, limit?: number): Promise<ChatThread[]>;
+  get(id: string, scope: ThreadScope): Promise<ChatThread | null>;
+  create(scope: ThreadScope, title: string): Promise<ChatThread>;
+  rename(id: string, scope: ThreadScope, title: string): Promise<ChatThread | null>;
+  // Marks a thread active after a turn
+  touch(id: string): Promise<void>;
+  remove(id: string, scope: ThreadScope): Promise<boolean>;
+}
+
+export interface ThreadPersistence {
+  checkpointer: BaseCheckpointSaver;
+  threads: ThreadStore;
+}
+
+// Anonymous callers share a workspace, so their threads are told apart by the id their browser sends
+export function threadScope(caller: ChatCaller, clientId: string | null): ThreadScope {
+  if (caller.userId) return { workspace: caller.workspace, owner: caller.userId };
+  const client = clientId?.trim();
+  return {
+    workspace: caller.workspace,
+    owner: client && CLIENT_ID_PATTERN.test(client) ? `anonymous:${client}` : 'anonymous',
+  };
+}
+
+// Scope of the caller of a chat or threads route, from its access token, client id and requested workspace
+export async function resolveThreadScope(headers: Headers, requestedWorkspace?: string | null): Promise<ThreadScope> {
+  const caller = await resolveCaller(bearerToken(headers.get('authorization')), requestedWorkspace);
+  return threadScope(caller, headers.get(CLIENT_ID_HEADER));
+}
+
+export function threadTitle(text: string): string {
+  const title = text.replace(/\s+/g, ' ').trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title || 'New conversation';
+}
+
+interface ThreadRow {
+  id: string;
+  workspace_id: string;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function toThread(row: ThreadRow): ChatThread {
+  return {
+    id: row.id,
+    workspace: row.workspace_id,
+    title: row.title,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+export function createPostgresThreadStore(pool: Pool): ThreadStore {
+  const table = `${THREADS_SCHEMA}.chat_threads`;
+  const columns = 'id, workspace_id, title, created_at, updated_at';
+
+  return {
+    async list(scope, limit = 50) {
+      const { rows } = await pool.query<ThreadRow>(
+        `select ${columns} from ${table} where workspace_id = $1 and owner = $2 order by updated_at desc limit $3`,
+        [scope.workspace, scope.owner, limit]
+      );
+      return rows.map(toThread);
+    },
+
+    async get(id, scope) {
+      if (!THREAD_ID_PATTERN.test(id)) return null;
+      const { rows } = await pool.query<ThreadRow>(
+        `select ${columns} from ${table} where id = $1 and workspace_id = $2 and owner = $3`,
+        [id, scope.workspace, scope.owner]
+      );
+      return rows[0] ? toThread(rows[0]) : null;
+    },
+
+    async create(scope, title) {
+      const { rows } = await pool.query<ThreadRow>(
+        `insert into ${table} (id, workspace_id, owner, title) values ($1, $2, $3, $4) returning ${columns}`,
+        [randomUUID(), scope.workspace, scope.owner, title]
+      );
+      return toThread(rows[0]);
+    },
+
+    async rename(id, scope, title) {
+      if (!THREAD_ID_PATTERN.test(id)) return null;
+      const { rows } = await pool.query<ThreadRow>(
+        `update ${table} set title = $4 where id = $1 and workspace_id = $2 and owner = $3 returning ${columns}`,
+        [id, scope.workspace, scope.owner, title]
+      );
+      return rows[0] ? toThread(rows[0]) : null;
+    },
+
+    async touch(id) {
+      await pool.query(`update ${table} set updated_at = now() where id = $1`, [id]);
+    },
+
+    async remove(id, scope) {
+      if (!THREAD_ID_PATTERN.test(id)) return false;
+      const { rowCount } = await pool.query(
+        `delete from ${table} where id = $1 and workspace_id = $2 and owner = $3`,
+        [id, scope.workspace, scope.owner]
+      );
+      return (rowCount ?? 0) > 0;
+    },
+  };
+}
+
+export function createMemoryThreadStore(): ThreadStore {
+  const threads = new Map<string, ChatThread & { owner: string }>();
+  const find = (id: string, scope: ThreadScope) => {
+    const thread = threads.get(id);
+    return thread && thread.workspace === scope.workspace && thread.owner === scope.owner ? thread : undefined;
+  };
+  const strip = ({ id, workspace, title, createdAt, updatedAt }: ChatThread): ChatThread =>
+    ({ id, workspace, title, createdAt, updatedAt });
+
+  return {
+    async list(scope, limit = 50) {
+      return [...threads.values()]
+        .filter(thread => thread.workspace === scope.workspace && thread.owner === scope.owner)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, limit)
+        .map(strip);
+    },
+
+    async get(id, scope) {
+      const thread = find(id, scope);
+      return thread ? strip(thread) : null;
+    },
+
+    async create(scope, title) {
+      const now = new Date().toISOString();
+      const thread = { id: randomUUID(), workspace: scope.workspace, owner: scope.owner, title, createdAt: now, updatedAt: now };
+      threads.set(thread.id, thread);
+      return strip(thread);
+    },
+
+    async rename(id, scope, title) {
+      const thread = find(id, scope);
+      if (!thread) return null;
+      thread.title = title;
+      return strip(thread);
+    },
+
+    async touch(id) {
+      const thread = threads.get(id);
+      if (thread) thread.updatedAt = new Date().toISOString();
+    },
+
+    async remove(id, scope) {
+      return find(id, scope) ? threads.delete(id) : false;
+    },
+  };
+}
+
+async function createPostgresPersistence(connectionString: string): Promise<ThreadPersistence> {
+  const pool = new Pool({ connectionString });
+  const checkpointer = new PostgresSaver(pool, undefined, { schema: THREADS_SCHEMA });
+  await checkpointer.setup();
+  await pool.query(`
+    create table if not exists ${THREADS_SCHEMA}.chat_threads (
+      id uuid primary key,
+      workspace_id text not null,
+      owner text not null,
+      title text not null,
+      created_at timestamptz not null default now(),
+      updated_at timestamptz not null default now()
+    );
+    create index if not exists chat_threads_owner_idx
+      on ${THREADS_SCHEMA}.chat_threads (workspace_id, owner, updated_at desc);
+  `);
+  return { checkpointer, threads: createPostgresThreadStore(pool) };
+}
+
+// Route handlers may be bundled separately, so the persistence is shared through globalThis
+// rather than module state; otherwise each route would see its own in-memory threads.
+const globalForThreads = globalThis as typeof globalThis & {
+  seoThreadPersistence?: Promise<ThreadPersistence>;
+};
+
+export function getThreadPersistence(): Promise<ThreadPersistence> {
+  if (!globalForThreads.seoThreadPersistence) {
+    const url = process.env.THREADS_DATABASE_URL?.trim();
+    if (url) {
+      globalForThreads.seoThreadPersistence = createPostgresPersistence(url).catch((error: unknown) => {
+        globalForThreads.seoThreadPersistence = undefined;
+        throw error;
+      });
+    } else {
+      console.warn('[Threads] THREADS_DATABASE_URL is not set: conversations are kept in memory and lost on restart');
+      globalForThreads.seoThreadPersistence = Promise.resolve({
+        checkpointer: new MemorySaver(),
+        threads: createMemoryThreadStore(),
+      });
+    }
+  }
+  return globalForThreads.seoThreadPersistence;
+}
+
+// Thread a chat turn runs in: the requested one, which must belong to the scope, or a new one titled
+// after the query
+export async function openThread(
+  scope: ThreadScope,
+  threadId: string | undefined,
+  query: string
+): Promise<{ thread: ChatThread; created: boolean }> {
+  const { threads } = await getThreadPersistence();
+  if (!threadId) {
+    return { thread: await threads.create(scope, threadTitle(query)), created: true };
+  }
+  const thread = await threads.get(threadId, scope);
+  if (!thread) {
+    throw new ThreadNotFoundError(threadId);
+  }
+  await threads.touch(thread.id);
+  return { thread, created: false };
+}
@@ -1,9 +1,29 @@
 export type SerpFeature = 'organic' | 'answerBox' | 'peopleAlsoAsk' | 'relatedSearches' | 'aiOverview' | 'localResults' | 'videoResults' | 'knowledgeGraph' | 'images' | 'news';
 
+export type SerpDevice = 'desktop' | 'mobile';
+
+export interface SerpMarket {
+  gl?: string;
+  hl?: string;
+  device?: SerpDevice;
+  engine?: string;
+}
+
+export interface SearchParameters extends SerpMarket {
+  q: string;
+}
+
+export interface ClusterQuery extends SerpMarket {
+  q: string;
+}
+
+export type ClusterDefinitions = Record<string, ClusterQuery[]>;
+
 export interface SerpData {
-  searchParameters: { q: string };
+  searchParameters: SearchParameters;
   timestamp: string;
   cluster?: string;
+  workspace?: string;
   organic?: OrganicResult[];
   answerBox?: AnswerBox;
   peopleAlsoAsk?: PeopleAlsoAsk[];
@@ -87,20 +107,30 @@ export interface NewsResult {
   title: string;
   link: string;
   snippet: string;
-  date: string;
+  date: string | null;
   source: string;
+  position: number;
+  imageUrl?: string;
 }
 
 export interface SerpMetadata {
+  workspace: string;
   iso_date: string;
   serp_features: string[];
   cluster: string | null;
   query: string;
   type: string;
   serp_id: string;
+  engine: string;
+  device: SerpDevice;
+  gl: string | null;
+  hl: string | null;
   position?: number;
   domain: string;
   categories: string[];
+  source?: string;
+  published_date?: string | null;
+  page_status?: PageFetchStatus;
   h1?: string | null;
   h2?: string[];
   h3?: string[];
@@ -112,8 +142,69 @@ export interface PageHeaders {
   h3: string[];
 }
 
+export type PageFetchStatus = 'fetched' | 'not_fetched';
+
+export interface PageHeading {
+  level: number;
+  text: string;
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+export interface HowToItem {
+  name: string;
+  steps: string[];
+}
+
+export interface PageStructure extends PageHeaders {
+  url: string;
+  status: 'fetched';
+  title: string | null;
+  metaDescription: string | null;
+  canonical: string | null;
+  headings: PageHeading[];
+  wordCount: number;
+  schemaTypes: string[];
+  faq: FaqItem[];
+  howTo: HowToItem[];
+  links: { internal: number; external: number };
+}
+
+export interface PageNotFetched {
+  url: string;
+  status: 'not_fetched';
+  reason: string;
+}
+
+export type PageExtraction = PageStructure | PageNotFetched;
+
+export type PageFetchMode = 'live' | 'replay';
+
+export interface CachedPage {
+  url: string;
+  finalUrl: string;
+  fetchedAt: string;
+  contentType: string | null;
+  etag: string | null;
+  lastModified: string | null;
+  html: string;
+}
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
 export interface SerperResponse {
-  searchParameters: { q: string };
+  searchParameters: SearchParameters;
   organic?: OrganicResult[];
   answerBox?: AnswerBox;
   peopleAlsoAsk?: PeopleAlsoAsk[];
@@ -122,18 +213,393 @@ export interface SerperResponse {
   localResults?: LocalResult[];
   videoResults?: VideoResult[];
   knowledgeGraph?: KnowledgeGraph;
+  images?: ImageResult[];
+  news?: NewsResult[];
   // Allow any other properties
   [key: string]: unknown;
 }
 
+export type SerpProviderName = 'serper' | 'file';
+
+export interface SerpRequest {
+  query: string;
+  cluster: string;
+  market: SerpMarket;
+  workspace?: string;
+}
+
+export interface SerpProvider {
+  name: SerpProviderName;
+  requestDelayMs: number;
+  fetchRaw(request: SerpRequest): Promise<Record<string, unknown>>;
+  normalize(raw: Record<string, unknown>, request: SerpRequest): SerpData | null;
+}
+
+export type EmbeddingProviderName = 'openai' | 'local';
+
+// Recorded on every seo_documents row (embedding_model / embedding_version)
+export interface EmbeddingModelRef {
+  model: string;
+  version: string;
+}
+
+export interface EmbeddingProvider extends EmbeddingModelRef {
+  name: EmbeddingProviderName;
+  dimensions: number;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+// Row returned by the seo_documents_pending_embedding RPC
+export interface PendingEmbeddingRow {
+  id: string;
+  content: string;
+  content_hash: string;
+}
+
+// Row returned by the seo_embedding_status RPC
+export interface EmbeddingStatusRow {
+  embedding_column: 'embedding' | 'embedding_next';
+  embedding_model: string;
+  embedding_version: string;
+  documents: number;
+}
+
 export interface ProcessedEntry {
   id: string;
   text_blob: string;
   metadata: SerpMetadata;
 }
 
+export interface LedgerFileRecord {
+  hash: string;
+  processedAt: string;
+  entryIds: string[];
+}
+
+export interface LedgerEmbeddingRecord {
+  textHash: string;
+  metadataHash: string;
+  embeddedAt: string;
+}
+
+export interface IngestionLedger {
+  files: Record<string, LedgerFileRecord>;
+  embeddings: Record<string, LedgerEmbeddingRecord>;
+}
+
+export interface RetentionPolicy {
+  // Snapshots younger than this keep one per day; up to weeklyDays one per week; older one per month
+  dailyDays: number;
+  weeklyDays: number;
+}
+
+export type RetentionTier = 'daily' | 'weekly' | 'monthly';
+
+export interface SnapshotRef {
+  id: string;
+  queryKey: string;
+  capturedAt: string;
+  // Baseline a delta snapshot was diffed from; a baseline references itself
+  baselineId: string | null;
+}
+
+export interface RetentionPlan {
+  keep: SnapshotRef[];
+  archive: SnapshotRef[];
+}
+
+export interface ArchivedDocument {
+  id: string;
+  content: string;
+  metadata: SerpMetadata;
+}
+
+export interface ArchivedSnapshot {
+  serp_id: string;
+  captured_at: string;
+  documents: ArchivedDocument[];
+  // Raw scrape file, when it was still in assets/scrapped
+  snapshot?: SerpData;
+  kind?: SnapshotKind;
+  fingerprint?: SnapshotFingerprint | null;
+  changes?: SerpChangeEvent[];
+  previous_id?: string | null;
+  // Query, cluster and market, which deltas have no documents to carry
+  meta?: SnapshotMeta;
+}
+
+// One gzipped file per calendar month of captured_at
+export interface SnapshotArchive {
+  period: string;
+  archivedAt: string;
+  snapshots: ArchivedSnapshot[];
+}
+
+export type SnapshotKind = 'baseline' | 'delta';
+
+// Snapshot fields of the document metadata, as read by upsert_serp_snapshot
+export type SnapshotMeta = Pick<
+  SerpMetadata,
+  'workspace' | 'serp_id' | 'query' | 'cluster' | 'iso_date' | 'serp_features' | 'engine' | 'device' | 'gl' | 'hl'
+>;
+
+export interface FingerprintResult {
+  position: number;
+  url: string;
+  domain: string;
+}
+
+// Compact state of a snapshot kept on every serp_snapshots row, baseline or delta
+export interface SnapshotFingerprint {
+  organic: FingerprintResult[];
+  features: string[];
+}
+
+export type SerpChangeType = 'position_change' | 'new_url' | 'lost_url' | 'feature_added' | 'feature_removed';
+
+export interface SerpChangeEvent {
+  type: SerpChangeType;
+  url?: string;
+  domain?: string;
+  feature?: string;
+  previous_position?: number;
+  position?: number;
+}
+
+export interface SnapshotDiff {
+  events: SerpChangeEvent[];
+  // Share of organic URLs that are new, lost or moved, relative to the larger snapshot
+  changeRatio: number;
+}
+
+export interface BaselinePolicy {
+  maxAgeDays: number;
+  maxChangeRatio: number;
+}
+
+// Row returned by the previous_serp_snapshot RPC
+export interface PreviousSnapshot {
+  id: string;
+  kind: SnapshotKind;
+  captured_at: string;
+  baseline_id: string | null;
+  baseline_captured_at: string | null;
+  fingerprint: SnapshotFingerprint | null;
+}
+
+export interface SnapshotChangePlan {
+  kind: SnapshotKind;
+  previous: PreviousSnapshot | null;
+  fingerprint: SnapshotFingerprint;
+  diff: SnapshotDiff;
+}
+
+// Row of the serp_change_log view
+export interface ChangeLogRow extends SerpChangeEvent {
+  snapshot_id: string;
+  previous_id: string | null;
+  captured_at: string;
+  query: string;
+  cluster: string | null;
+}
+
+// Row of the serp_snapshot_fingerprints view. Snapshots seeded outside the pipeline have no fingerprint.
+export interface SnapshotFingerprintRow {
+  snapshot_id: string;
+  captured_at: string;
+  query: string;
+  engine: string;
+  device: SerpDevice;
+  gl: string | null;
+  hl: string | null;
+  fingerprint: SnapshotFingerprint | null;
+}
+
+export interface DocumentCountRow {
+  cluster: string | null;
+  type: string | null;
+  date: string | null;
+  documents: number;
+}
+
+export interface DocumentIdSample {
+  count: number;
+  sample: string[];
+}
+
+// Result of the seo_database_health RPC
+export interface DatabaseHealth {
+  vector_extension: { version: string; schema: string } | null;
+  embedding_columns: { name: string; type: string }[];
+  indexes: { name: string; definition: string }[];
+  functions: { name: string; arguments: string }[];
+  documents: number;
+  counts: DocumentCountRow[];
+  missing_embeddings: DocumentIdSample;
+  wrong_dimensions: DocumentIdSample;
+  duplicate_snapshots: { query: string; captured_at: string; snapshot_ids: string[] }[];
+  duplicate_results: { snapshot_id: string; type: string; position: number; document_ids: string[] }[];
+  clusters: string[];
+}
+
+export interface DatabaseCheck {
+  name: string;
+  ok: boolean;
+  message: string;
+  details?: unknown;
+}
+
+export interface DatabaseHealthReport {
+  checkedAt: string;
+  ok: boolean;
+  documents: number;
+  checks: DatabaseCheck[];
+  counts: DocumentCountRow[];
+}
+
+export type QuarantineReasonCode = 'invalid_json' | 'schema' | 'inconsistent_positions';
+
+export interface QuarantineReason {
+  code: QuarantineReasonCode;
+  path: string;
+  message: string;
+}
+
+export interface QuarantineRecord {
+  file: string;
+  origin: string;
+  quarantinedAt: string;
+  reasons: QuarantineReason[];
+}
+
+export type PipelineStageName = 'scrape' | 'normalize' | 'diff' | 'build' | 'upsert';
+export type PipelineStageStatus = 'running' | 'succeeded' | 'failed';
+export type PipelineRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface PipelineStageResult {
+  stage: PipelineStageName;
+  status: PipelineStageStatus;
+  attempts: number;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface PipelineQueryResult {
+  cluster: string;
+  query: string;
+  market: SerpMarket;
+  status: PipelineStageStatus;
+  snapshotFile?: string;
+  snapshotKind?: SnapshotKind;
+  changeEvents?: number;
+  documents: number;
+  stages: PipelineStageResult[];
+}
+
+export interface PipelineRun {
+  id: string;
+  trigger: string;
+  provider: SerpProviderName;
+  // Absent on runs logged before workspaces
+  workspace?: string;
+  status: PipelineRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  clusters: string[];
+  queries: PipelineQueryResult[];
+  error?: string;
+}
+
+export type ClusterCadence = 'hourly' | 'daily' | 'weekly';
+
+export interface ClusterSchedule {
+  cadence: ClusterCadence;
+  priority: number;
+  queryBudget?: number;
+}
+
+export interface ClusterScheduleState {
+  lastRunAt: string;
+  lastStatus: PipelineRunStatus;
+  queryCursor: number;
+}
+
+// Filter accepted by match_seo_documents / hybrid_search_seo_documents (see seo_metadata_matches)
+export interface MetadataFilterOperators {
+  gte?: number | string;
+  gt?: number | string;
+  lte?: number | string;
+  lt?: number | string;
+  in?: (number | string)[];
+  ilike?: string;
+}
+
+export type MetadataFilter = Record<string, string | number | boolean | string[] | MetadataFilterOperators>;
+
+// Rows returned by the serp_domain_stats / serp_feature_frequency RPCs
+export interface DomainStatsRow {
+  domain: string;
+  results: number;
+  queries: number;
+  avg_position: number;
+  best_position: number;
+  top3: number;
+}
+
+export interface FeatureFrequencyRow {
+  feature: string;
+  snapshots: number;
+  share: number;
+}
+
+export type StorageBackend = 'supabase' | 'local';
+
+// Document query of the graph nodes and tools. The *Like filters match substrings case-insensitively.
+export interface DocumentQuery {
+  workspace: string;
+  cluster?: string;
+  clusterLike?: string;
+  queryLike?: string;
+  queries?: string[];
+  resultType?: string;
+  minPosition?: number;
+  maxPosition?: number;
+  market?: SerpMarket;
+  withFeatures?: boolean;
+  capturedFrom?: string;
+  capturedTo?: string;
+  // Latest snapshot first; orderByPosition then orders each snapshot's results
+  newestFirst?: boolean;
+  orderByPosition?: boolean;
+  limit: number;
+}
+
+export interface StoredDocument {
+  id: string;
+  content: string;
+  metadata: SerpMetadata;
+}
+
+// Scope of the domain and feature aggregates; cluster and query match substrings
+export interface AggregateScope {
+  workspace: string;
+  cluster?: string | null;
+  query?: string | null;
+  market?: SerpMarket;
+}
+
+export interface ChangeLogQuery {
+  workspace: string;
+  queries: string[];
+  capturedFrom: string;
+  capturedTo: string;
+  limit: number;
+}
+
 // Types for the Agentic Workflow
-export type QueryIntentType = "STANDARD" | "COMPARISON" | "STRATEGY";
+export type QueryIntentType = "STANDARD" | "COMPARISON" | "STRATEGY" | "AUDIT" | "TREND";
 export type SearchIntentType = "informational" | "navigational" | "transactional" | "unknown";
 
 export interface TimeRange {
@@ -141,6 +607,16 @@ export interface TimeRange {
   end: string;
 }
 
+export type RerankerKind = "lexical" | "model";
+
+// Added to Document.metadata by the reranker so answers can explain why a source was used
+export interface RetrievalScores {
+  retrieval_score?: number;
+  retrieval_rank: number;
+  rerank_score: number;
+  reranker: RerankerKind;
+}
+
 export interface ClusterStats {
   totalDocs: number;
   uniqueDomains: string[];
@@ -154,6 +630,43 @@ export interface ConversationMessage {
   content: string;
 }
 
+// Facts a conversation has settled on, carried into later turns until a turn changes them
+export interface ConversationFacts {
+  cluster?: string;
+  intent?: QueryIntentType;
+  searchIntent?: SearchIntentType;
+  timeRanges?: { earlier: TimeRange; later: TimeRange };
+}
+
+// What prompts see of a thread: recent turns verbatim, older ones rolled into a summary
+export interface ConversationMemory {
+  summary: string;
+  // Oldest first
+  recent: ConversationMessage[];
+  facts: ConversationFacts;
+}
+
+// Who is chatting: the resolved workspace, and the Supabase user when the caller signed in
+export interface ChatCaller {
+  workspace: string;
+  userId: string | null;
+}
+
+// Threads are private to one caller within one workspace: owner is the user id, or a client id for anonymous callers
+export interface ThreadScope {
+  workspace: string;
+  owner: string;
+}
+
+// A conversation whose graph state the checkpointer keeps under the same id
+export interface ChatThread {
+  id: string;
+  workspace: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface SEOGraphResponse {
   type: string;
   answer: string;
@@ -164,31 +677,193 @@ export interface SEOGraphResponse {
   explanation: string;
 }
 
+export interface SourceSummary {
+  type: string;
+  domain: string;
+  position?: number;
+  query: string;
+  date: string;
+}
+
+// Server-sent events of POST /api/chat/stream, in the order a run emits them
+export type ChatStreamEvent =
+  | { type: "thread"; thread: ChatThread }
+  | { type: "route"; intent: QueryIntentType | null; cluster?: string; searchIntent: SearchIntentType | null; explanation: string }
+  | { type: "tool_call"; name: string; args: Record<string, unknown> }
+  | { type: "tool_result"; name: string; ok: boolean }
+  | { type: "sources"; sources: SourceSummary[] }
+  | { type: "token"; text: string }
+  | { type: "done"; data: SEOGraphResponse }
+  | { type: "error"; error: string };
+
+// On-page audit: a user's page compared with the top results of a tracked query
+export type PageContentType = 'product' | 'category' | 'recipe' | 'review' | 'article' | 'video' | 'forum' | 'homepage' | 'other';
+
+// What an audit compares against, read from one stored top result
+export interface CompetitorPage {
+  url: string | null;
+  domain: string;
+  position: number;
+  // H1 to H3
+  headings: string[];
+  contentType: PageContentType;
+  // Empty, or null for word count, when the page was stored without its fetched structure
+  schemaTypes: string[];
+  faqQuestions: string[];
+  wordCount: number | null;
+}
+
+export interface AuditBenchmark {
+  query: string;
+  capturedAt: string;
+  serpFeatures: string[];
+  competitors: CompetitorPage[];
+  paaQuestions: string[];
+}
+
+export type AuditGapCategory = 'targeting' | 'headings' | 'questions' | 'content_type' | 'features' | 'depth';
+export type AuditPriority = 'high' | 'medium' | 'low';
+
+export interface AuditGap {
+  category: AuditGapCategory;
+  priority: AuditPriority;
+  // 0-1; the gap list is ordered by it
+  score: number;
+  finding: string;
+  evidence: string[];
+}
+
+export interface AuditReport {
+  url: string;
+  query: string;
+  capturedAt: string;
+  // Position of the audited URL in the snapshot, if it ranks in the top results
+  currentPosition: number | null;
+  competitorCount: number;
+  headingCoverage: { covered: number; total: number };
+  questionsAnswered: { answered: number; total: number };
+  contentType: { page: PageContentType; dominant: PageContentType | null; share: number };
+  wordCount: { page: number; median: number | null };
+  gaps: AuditGap[];
+}
+
+// Organic results of one snapshot of a query in one market, read from its fingerprint, or from its
+// documents when it has none
+export interface RankSnapshot {
+  id: string;
+  query: string;
+  market: Pick<SerpMetadata, 'engine' | 'device' | 'gl' | 'hl'>;
+  capturedAt: string;
+  source: 'fingerprint' | 'documents';
+  results: FingerprintResult[];
+}
+
+export interface RankPoint {
+  capturedAt: string;
+  // null when the URL or domain was not in the top results of that snapshot
+  position: number | null;
+}
+
+// Position history of a URL, or of a domain's best-ranking URL, for one query
+export interface RankSeries {
+  key: string;
+  domain: string;
+  points: RankPoint[];
+  // Snapshots it was in the top results of
+  observations: number;
+  firstPosition: number | null;
+  latestPosition: number | null;
+  bestPosition: number | null;
+  averagePosition: number | null;
+  // Standard deviation of the positions it held
+  volatility: number | null;
+  // Least-squares change in position per week; negative means moving up
+  slopePerWeek: number | null;
+  // Latest position extended along the slope, when there are enough observations
+  projectedPosition: number | null;
+}
+
+export interface RankEvent {
+  type: 'entry' | 'exit';
+  query: string;
+  // formatMarket label of the query's market
+  market: string;
+  capturedAt: string;
+  url: string;
+  domain: string;
+  position?: number;
+  previous_position?: number;
+}
+
+// History of one query in one market; the same query tracked in two markets gives two trends
+export interface QueryTrend {
+  query: string;
+  market: string;
+  snapshots: number;
+  firstCapturedAt: string;
+  lastCapturedAt: string;
+  // Average share of the top results that were new since the previous snapshot
+  churn: number | null;
+  domains: RankSeries[];
+  urls: RankSeries[];
+}
+
+// Share of the position-weighted visibility of the top results, averaged over snapshots and queries
+export interface DomainVisibility {
+  domain: string;
+  share: number;
+  firstShare: number;
+  lastShare: number;
+  queries: number;
+}
+
+export interface TrendReport {
+  cluster: string | null;
+  window: TimeRange;
+  snapshots: number;
+  // Snapshots read from their documents because they have no fingerprint
+  documentSnapshots: number;
+  queries: QueryTrend[];
+  visibility: DomainVisibility[];
+  events: RankEvent[];
+}
+
 // Tool Argument Interfaces
-export interface SearchByQueryArgs {
+export interface SearchByQueryArgs extends SerpMarket {
   searchQuery: string;
   limit?: number;
+  keywordWeight?: number;
+  semanticWeight?: number;
+  cluster?: string;
+  query?: string;
+  resultType?: string;
+  domain?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  minPosition?: number;
+  maxPosition?: number;
 }
 
-export interface GetTopPerformersArgs {
+export interface GetTopPerformersArgs extends SerpMarket {
   cluster?: string;
   query?: string;
   limit?: number;
 }
 
-export interface GetSerpFeaturesArgs {
+export interface GetSerpFeaturesArgs extends SerpMarket {
   cluster?: string;
   query?: string;
   feature?: string;
+  resultType?: string;
   limit?: number;
 }
 
-export interface GetClusterDataArgs {
+export interface GetClusterDataArgs extends SerpMarket {
   cluster: string;
   limit?: number;
 }
 
-export interface AnalyzeContentTypesArgs {
+export interface AnalyzeContentTypesArgs extends SerpMarket {
   cluster?: string;
   query?: string;
   intent?: string;
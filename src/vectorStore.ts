@@ -1,25 +1,21 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { OpenAIEmbeddings } from '@langchain/openai';
-import { SupabaseVectorStore } from '@langchain/community/vectorstores/supabase';
-import type { Embeddings } from '@langchain/core/embeddings';
-import type { ProcessedEntry, SerpData } from './types';
+import type {
+  EmbeddingModelRef,
+  EmbeddingProvider,
+  EmbeddingStatusRow,
+  PendingEmbeddingRow,
+  ProcessedEntry,
+  SerpData
+} from './types';
+import { getEmbeddingProvider } from './embeddingProviders';
 import { buildSerpEntries } from '../utils/buildSerpEntries';
+import { requiredEnv } from '../utils/envUtils';
 
 const TABLE_NAME = 'seo_documents';
 const MATCH_FUNCTION_NAME = 'match_seo_documents';
-const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+const HYBRID_FUNCTION_NAME = 'hybrid_search_seo_documents';
 
 let cachedClient: SupabaseClient | undefined;
-let cachedEmbeddings: Embeddings | undefined;
-let vectorStorePromise: Promise<SupabaseVectorStore> | null = null;
-
-function requiredEnv(name: string): string {
-  const value = process.env[name];
-  if (!value) {
-    throw new Error(`Missing required environment variable: ${name}`);
-  }
-  return value;
-}
 
 export function getSupabaseClient(): SupabaseClient {
   if (!cachedClient) {
@@ -35,44 +31,26 @@ export function getSupabaseClient(): SupabaseClient {
   return cachedClient;
 }
 
-function getEmbeddings(): Embeddings {
-  if (!cachedEmbeddings) {
-    cachedEmbeddings = new OpenAIEmbeddings({ model: DEFAULT_EMBEDDING_MODEL });
-  }
-  return cachedEmbeddings;
-}
-
-async function createVectorStore(): Promise<SupabaseVectorStore> {
-  const client = getSupabaseClient();
-  const embeddings = getEmbeddings();
-  return SupabaseVectorStore.fromExistingIndex(embeddings, {
-    client,
-    tableName: TABLE_NAME,
-    queryName: MATCH_FUNCTION_NAME
-  });
-}
-
-export async function getVectorStore(): Promise<SupabaseVectorStore> {
-  if (!vectorStorePromise) {
-    vectorStorePromise = createVectorStore();
-  }
-  return vectorStorePromise;
-}
-
 export async function upsertProcessedEntries(entries: ProcessedEntry[]): Promise<number> {
   if (entries.length === 0) {
     return 0;
   }
 
-  const embeddings = getEmbeddings();
-  const vectors = await embeddings.embedDocuments(entries.map(entry => entry.text_blob));
+  const provider = getEmbeddingProvider();
+  const vectors = await provider.embedDocuments(entries.map(entry => entry.text_blob));
   const client = getSupabaseClient();
 
+  // New content invalidates any shadow embedding; the re-embed job picks the row up again
   const payload = entries.map((entry, index) => ({
     id: entry.id,
     content: entry.text_blob,
     metadata: entry.metadata,
-    embedding: vectors[index]
+    embedding: vectors[index],
+    embedding_model: provider.model,
+    embedding_version: provider.version,
+    embedding_next: null,
+    embedding_next_model: null,
+    embedding_next_version: null
   }));
 
   const { error } = await client.from(TABLE_NAME).upsert(payload, { onConflict: 'id' });
@@ -82,13 +60,78 @@ export async function upsertProcessedEntries(entries: ProcessedEntry[]): Promise
   return payload.length;
 }
 
+export async function updateEntryMetadata(entries: ProcessedEntry[]): Promise<number> {
+  const client = getSupabaseClient();
+  const results = await Promise.all(
+    entries.map(entry => client.from(TABLE_NAME).update({ metadata: entry.metadata }).eq('id', entry.id))
+  );
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    throw new Error(`Failed to update metadata: ${failed.error.message}`);
+  }
+  return entries.length;
+}
+
 export async function ingestSerpData(data: SerpData): Promise<number> {
   const entries = await buildSerpEntries(data);
   return upsertProcessedEntries(entries);
 }
 
-export function resetVectorStoreCache(): void {
-  vectorStorePromise = null;
+export async function fetchPendingEmbeddings(target: EmbeddingModelRef, limit: number): Promise<PendingEmbeddingRow[]> {
+  const { data, error } = await getSupabaseClient().rpc('seo_documents_pending_embedding', {
+    p_model: target.model,
+    p_version: target.version,
+    p_limit: limit
+  });
+  if (error) {
+    throw new Error(`Failed to list documents pending re-embedding: ${error.message}`);
+  }
+  return (data ?? []) as PendingEmbeddingRow[];
+}
+
+// Writes shadow embeddings; returns how many rows were still unchanged and got one.
+export async function writeNextEmbeddings(rows: PendingEmbeddingRow[], provider: EmbeddingProvider): Promise<number> {
+  const vectors = await provider.embedDocuments(rows.map(row => row.content));
+  const client = getSupabaseClient();
+  const results = await Promise.all(
+    rows.map((row, index) =>
+      client.rpc('set_seo_embedding_next', {
+        p_id: row.id,
+        p_content_hash: row.content_hash,
+        p_embedding: vectors[index],
+        p_model: provider.model,
+        p_version: provider.version
+      })
+    )
+  );
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    throw new Error(`Failed to write shadow embeddings: ${failed.error.message}`);
+  }
+  return results.filter(result => result.data === true).length;
+}
+
+export async function promoteEmbeddings(target: EmbeddingModelRef): Promise<number> {
+  const { data, error } = await getSupabaseClient().rpc('promote_seo_embeddings', {
+    p_model: target.model,
+    p_version: target.version
+  });
+  if (error) {
+    throw new Error(`Failed to promote embeddings: ${error.message}`);
+  }
+  return Number(data ?? 0);
+}
+
+export async function getEmbeddingStatus(): Promise<EmbeddingStatusRow[]> {
+  const { data, error } = await getSupabaseClient().rpc('seo_embedding_status');
+  if (error) {
+    throw new Error(`Failed to read embedding status: ${error.message}`);
+  }
+  return (data ?? []) as EmbeddingStatusRow[];
 }
 
-export { TABLE_NAME as vectorTableName, MATCH_FUNCTION_NAME as matchFunctionName };
+export {
+  TABLE_NAME as vectorTableName,
+  MATCH_FUNCTION_NAME as matchFunctionName,
+  HYBRID_FUNCTION_NAME as hybridFunctionName
+};
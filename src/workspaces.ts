@@ -0,0 +1,90 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { getSupabaseClient } from './vectorStore';
+import { DEFAULT_WORKSPACE, isValidWorkspaceId } from '../utils/clusterUtils';
+import type { ChatCaller } from './types';
+
+export class WorkspaceAccessError extends Error {
+  constructor(message: string, public readonly status: 400 | 401 | 403) {
+    super(message);
+    this.name = 'WorkspaceAccessError';
+  }
+}
+
+// Workspace that ingestion (get-serp, the pipeline and the scheduler) writes to
+export function getWorkspaceId(): string {
+  const id = process.env.WORKSPACE_ID?.trim() || DEFAULT_WORKSPACE;
+  if (!isValidWorkspaceId(id)) {
+    throw new Error(`Invalid WORKSPACE_ID "${id}": use lowercase letters, digits, "-" and "_"`);
+  }
+  return id;
+}
+
+// Graph nodes and tools read the caller's workspace from the run config. There is deliberately
+// no fallback: a run without a workspace fails instead of reading another client's data.
+export function workspaceFromConfig(config?: RunnableConfig): string {
+  const id: unknown = config?.configurable?.workspace_id;
+  if (typeof id !== 'string' || !isValidWorkspaceId(id)) {
+    throw new Error('No workspace in the run config');
+  }
+  return id;
+}
+
+// The thread id tells the checkpointer which conversation's state to load and save
+export function workspaceConfig(workspaceId: string, threadId: string): RunnableConfig {
+  return { configurable: { workspace_id: workspaceId, thread_id: threadId } };
+}
+
+// Supabase access token from an Authorization: Bearer header
+export function bearerToken(authorization: string | null): string | null {
+  return authorization?.replace(/^Bearer\s+/i, '').trim() || null;
+}
+
+async function memberWorkspaces(token: string): Promise<{ userId: string; workspaces: string[] }> {
+  const client = getSupabaseClient();
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) {
+    throw new WorkspaceAccessError('Invalid or expired session', 401);
+  }
+
+  const { data: rows, error: membershipError } = await client
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('user_id', data.user.id);
+  if (membershipError) {
+    throw new Error(`Failed to load workspace memberships: ${membershipError.message}`);
+  }
+  return {
+    userId: data.user.id,
+    workspaces: ((rows ?? []) as { workspace_id: string }[]).map(row => row.workspace_id),
+  };
+}
+
+// Resolves the workspace and user of a chat caller. A Supabase access token identifies the user, who
+// must be a member of the requested workspace (or of exactly one, when none is requested). Callers
+// without a token get ANONYMOUS_WORKSPACE and no user, and are rejected when it is not set.
+export async function resolveCaller(token: string | null, requested?: string | null): Promise<ChatCaller> {
+  if (!token) {
+    const anonymous = process.env.ANONYMOUS_WORKSPACE?.trim();
+    if (!anonymous) {
+      throw new WorkspaceAccessError('Sign in to query a workspace', 401);
+    }
+    if (requested && requested !== anonymous) {
+      throw new WorkspaceAccessError(`No access to workspace "${requested}"`, 403);
+    }
+    return { workspace: anonymous, userId: null };
+  }
+
+  const { userId, workspaces } = await memberWorkspaces(token);
+  if (requested) {
+    if (!workspaces.includes(requested)) {
+      throw new WorkspaceAccessError(`No access to workspace "${requested}"`, 403);
+    }
+    return { workspace: requested, userId };
+  }
+  if (workspaces.length === 1) {
+    return { workspace: workspaces[0], userId };
+  }
+  throw workspaces.length === 0
+    ? new WorkspaceAccessError('You are not a member of any workspace', 403)
+    : new WorkspaceAccessError('You belong to several workspaces: choose one', 400);
+}
@@ -0,0 +1,294 @@
+-- Relational tables mirroring seo_documents.metadata with typed columns and foreign keys.
+-- seo_documents stays the source of truth; a trigger keeps these tables in sync.
+
+create table if not exists public.serp_clusters (
+  id bigint generated always as identity primary key,
+  name text not null unique
+);
+
+create table if not exists public.serp_queries (
+  id bigint generated always as identity primary key,
+  query text not null,
+  engine text not null default 'google',
+  device text not null default 'desktop' check (device in ('desktop', 'mobile')),
+  gl text,
+  hl text,
+  cluster_id bigint references public.serp_clusters (id) on delete set null,
+  unique nulls not distinct (query, engine, device, gl, hl)
+);
+
+create table if not exists public.serp_snapshots (
+  id text primary key,
+  query_id bigint not null references public.serp_queries (id) on delete cascade,
+  captured_at timestamptz not null
+);
+
+create index if not exists serp_snapshots_query_captured_idx
+  on public.serp_snapshots (query_id, captured_at desc);
+
+create table if not exists public.serp_domains (
+  id bigint generated always as identity primary key,
+  domain text not null unique
+);
+
+create table if not exists public.serp_features (
+  id bigint generated always as identity primary key,
+  name text not null unique
+);
+
+create table if not exists public.serp_snapshot_features (
+  snapshot_id text not null references public.serp_snapshots (id) on delete cascade,
+  feature_id bigint not null references public.serp_features (id) on delete cascade,
+  primary key (snapshot_id, feature_id)
+);
+
+create table if not exists public.serp_results (
+  document_id text primary key references public.seo_documents (id) on delete cascade,
+  snapshot_id text not null references public.serp_snapshots (id) on delete cascade,
+  result_type text not null,
+  position integer check (position > 0),
+  domain_id bigint references public.serp_domains (id) on delete set null,
+  url text,
+  source text,
+  published_date text,
+  page_status text check (page_status in ('fetched', 'not_fetched')),
+  h1 text,
+  h2 text[] not null default '{}',
+  h3 text[] not null default '{}'
+);
+
+create index if not exists serp_results_snapshot_position_idx
+  on public.serp_results (snapshot_id, result_type, position);
+
+create index if not exists serp_results_domain_idx
+  on public.serp_results (domain_id);
+
+create or replace function public.sync_serp_document()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m jsonb := new.metadata;
+  v_cluster_id bigint;
+  v_query_id bigint;
+  v_domain_id bigint;
+  v_feature text;
+  v_feature_id bigint;
+begin
+  if m->>'serp_id' is null or m->>'query' is null or m->>'type' is null then
+    return new;
+  end if;
+
+  if nullif(m->>'cluster', '') is not null then
+    insert into public.serp_clusters (name) values (m->>'cluster')
+    on conflict (name) do update set name = excluded.name
+    returning id into v_cluster_id;
+  end if;
+
+  insert into public.serp_queries (query, engine, device, gl, hl, cluster_id)
+  values (
+    m->>'query',
+    coalesce(m->>'engine', 'google'),
+    coalesce(m->>'device', 'desktop'),
+    nullif(m->>'gl', ''),
+    nullif(m->>'hl', ''),
+    v_cluster_id
+  )
+  on conflict (query, engine, device, gl, hl)
+    do update set cluster_id = coalesce(excluded.cluster_id, public.serp_queries.cluster_id)
+  returning id into v_query_id;
+
+  insert into public.serp_snapshots (id, query_id, captured_at)
+  values (m->>'serp_id', v_query_id, (m->>'iso_date')::timestamptz)
+  on conflict (id) do nothing;
+
+  for v_feature in select jsonb_array_elements_text(coalesce(m->'serp_features', '[]'::jsonb)) loop
+    insert into public.serp_features (name) values (v_feature)
+    on conflict (name) do update set name = excluded.name
+    returning id into v_feature_id;
+    insert into public.serp_snapshot_features (snapshot_id, feature_id)
+    values (m->>'serp_id', v_feature_id)
+    on conflict do nothing;
+  end loop;
+
+  if nullif(m->>'domain', '') is not null then
+    insert into public.serp_domains (domain) values (lower(m->>'domain'))
+    on conflict (domain) do update set domain = excluded.domain
+    returning id into v_domain_id;
+  end if;
+
+  insert into public.serp_results (
+    document_id, snapshot_id, result_type, position, domain_id, url,
+    source, published_date, page_status, h1, h2, h3
+  )
+  values (
+    new.id,
+    m->>'serp_id',
+    m->>'type',
+    case when m->>'position' ~ '^[0-9]+$' then (m->>'position')::integer end,
+    v_domain_id,
+    substring(new.content from '(?:^|\n)(?:Source )?URL: ([^\n]+)'),
+    m->>'source',
+    m->>'published_date',
+    m->>'page_status',
+    m->>'h1',
+    coalesce(array(select jsonb_array_elements_text(case when jsonb_typeof(m->'h2') = 'array' then m->'h2' end)), '{}'),
+    coalesce(array(select jsonb_array_elements_text(case when jsonb_typeof(m->'h3') = 'array' then m->'h3' end)), '{}')
+  )
+  on conflict (document_id) do update set
+    snapshot_id = excluded.snapshot_id,
+    result_type = excluded.result_type,
+    position = excluded.position,
+    domain_id = excluded.domain_id,
+    url = excluded.url,
+    source = excluded.source,
+    published_date = excluded.published_date,
+    page_status = excluded.page_status,
+    h1 = excluded.h1,
+    h2 = excluded.h2,
+    h3 = excluded.h3;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists seo_documents_sync_serp on public.seo_documents;
+create trigger seo_documents_sync_serp
+  after insert or update of content, metadata on public.seo_documents
+  for each row execute function public.sync_serp_document();
+
+-- Backfill from rows seeded before this migration
+update public.seo_documents set metadata = metadata;
+
+-- One typed row per document, used by the agent tools instead of metadata->> text filters
+create or replace view public.serp_documents
+with (security_invoker = true) as
+select
+  d.id,
+  d.content,
+  d.metadata,
+  c.name as cluster,
+  q.query,
+  q.engine,
+  q.device,
+  q.gl,
+  q.hl,
+  s.id as serp_id,
+  s.captured_at,
+  r.result_type,
+  r.position,
+  dom.domain,
+  r.url,
+  r.source,
+  r.published_date,
+  r.page_status,
+  r.h1,
+  r.h2,
+  r.h3,
+  coalesce(
+    (select array_agg(f.name order by f.name)
+     from public.serp_snapshot_features sf
+     join public.serp_features f on f.id = sf.feature_id
+     where sf.snapshot_id = s.id),
+    '{}'
+  ) as serp_features
+from public.serp_results r
+join public.seo_documents d on d.id = r.document_id
+join public.serp_snapshots s on s.id = r.snapshot_id
+join public.serp_queries q on q.id = s.query_id
+left join public.serp_clusters c on c.id = q.cluster_id
+left join public.serp_domains dom on dom.id = r.domain_id;
+
+-- Aggregate RPCs: cluster and query filters are substring matches, market keys (p_market) are exact matches
+create or replace function public.serp_domain_stats(
+  p_cluster text default null,
+  p_query text default null,
+  p_max_position integer default 10,
+  p_market jsonb default '{}'::jsonb
+) returns table (
+  domain text,
+  results bigint,
+  queries bigint,
+  avg_position numeric,
+  best_position integer,
+  top3 bigint
+) language sql stable set search_path = public as
+$$
+  select
+    v.domain,
+    count(*) as results,
+    count(distinct v.query) as queries,
+    round(avg(v.position), 2) as avg_position,
+    min(v.position) as best_position,
+    count(*) filter (where v.position <= 3) as top3
+  from public.serp_documents v
+  where v.result_type = 'organic'
+    and v.domain is not null
+    and v.position <= p_max_position
+    and (p_cluster is null or v.cluster ilike '%' || p_cluster || '%')
+    and (p_query is null or v.query ilike '%' || p_query || '%')
+    and (p_market->>'engine' is null or v.engine = p_market->>'engine')
+    and (p_market->>'device' is null or v.device = p_market->>'device')
+    and (p_market->>'gl' is null or v.gl = p_market->>'gl')
+    and (p_market->>'hl' is null or v.hl = p_market->>'hl')
+  group by v.domain
+  order by results desc, avg_position asc;
+$$;
+
+create or replace function public.serp_feature_frequency(
+  p_cluster text default null,
+  p_query text default null,
+  p_market jsonb default '{}'::jsonb
+) returns table (
+  feature text,
+  snapshots bigint,
+  share numeric
+) language sql stable set search_path = public as
+$$
+  with scoped as (
+    select s.id
+    from public.serp_snapshots s
+    join public.serp_queries q on q.id = s.query_id
+    left join public.serp_clusters c on c.id = q.cluster_id
+    where (p_cluster is null or c.name ilike '%' || p_cluster || '%')
+      and (p_query is null or q.query ilike '%' || p_query || '%')
+      and (p_market->>'engine' is null or q.engine = p_market->>'engine')
+      and (p_market->>'device' is null or q.device = p_market->>'device')
+      and (p_market->>'gl' is null or q.gl = p_market->>'gl')
+      and (p_market->>'hl' is null or q.hl = p_market->>'hl')
+  )
+  select
+    f.name as feature,
+    count(*) as snapshots,
+    round(count(*)::numeric / nullif((select count(*) from scoped), 0), 4) as share
+  from scoped
+  join public.serp_snapshot_features sf on sf.snapshot_id = scoped.id
+  join public.serp_features f on f.id = sf.feature_id
+  group by f.name
+  order by snapshots desc;
+$$;
+
+alter table public.serp_clusters enable row level security;
+alter table public.serp_queries enable row level security;
+alter table public.serp_snapshots enable row level security;
+alter table public.serp_domains enable row level security;
+alter table public.serp_features enable row level security;
+alter table public.serp_snapshot_features enable row level security;
+alter table public.serp_results enable row level security;
+
+create policy "Authenticated can select serp_clusters" on public.serp_clusters
+  for select using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+create policy "Authenticated can select serp_queries" on public.serp_queries
+  for select using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+create policy "Authenticated can select serp_snapshots" on public.serp_snapshots
+  for select using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+create policy "Authenticated can select serp_domains" on public.serp_domains
+  for select using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+create policy "Authenticated can select serp_features" on public.serp_features
+  for select using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+create policy "Authenticated can select serp_snapshot_features" on public.serp_snapshot_features
+  for select using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+create policy "Authenticated can select serp_results" on public.serp_results
+  for select using (auth.role() = 'authenticated' or auth.role() = 'service_role');
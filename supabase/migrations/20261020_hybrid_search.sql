@@ -0,0 +1,65 @@
+-- Keyword index for hybrid retrieval. The 'simple' configuration keeps domains, brands
+-- and non-English text intact instead of stemming them.
+alter table public.seo_documents
+  add column if not exists content_tsv tsvector
+  generated always as (to_tsvector('simple', content)) stored;
+
+create index if not exists seo_documents_content_tsv_idx
+  on public.seo_documents
+  using gin (content_tsv);
+
+-- Reciprocal rank fusion of full-text rank and vector similarity.
+-- Each side contributes weight / (rrf_k + rank); documents found by only one side still score.
+create or replace function public.hybrid_search_seo_documents(
+  query_text text,
+  query_embedding extensions.vector(1536),
+  match_count integer default 10,
+  filter jsonb default '{}'::jsonb,
+  full_text_weight double precision default 1,
+  semantic_weight double precision default 1,
+  rrf_k integer default 50
+) returns table (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+) language sql stable set search_path = public, extensions as
+$$
+  with full_text as (
+    select
+      d.id,
+      ts_rank_cd(d.content_tsv, websearch_to_tsquery('simple', query_text)) as keyword_rank,
+      row_number() over (
+        order by ts_rank_cd(d.content_tsv, websearch_to_tsquery('simple', query_text)) desc
+      ) as rank_ix
+    from public.seo_documents as d
+    where d.content_tsv @@ websearch_to_tsquery('simple', query_text)
+      and (filter is null or filter = '{}'::jsonb or d.metadata @> filter)
+    order by rank_ix
+    limit greatest(match_count, 1) * 2
+  ),
+  semantic as (
+    select
+      d.id,
+      row_number() over (order by d.embedding <=> query_embedding) as rank_ix
+    from public.seo_documents as d
+    where filter is null or filter = '{}'::jsonb or d.metadata @> filter
+    order by rank_ix
+    limit greatest(match_count, 1) * 2
+  )
+  select
+    d.id,
+    d.content,
+    d.metadata,
+    1 - (d.embedding <=> query_embedding) as similarity,
+    coalesce(full_text.keyword_rank, 0)::double precision as keyword_rank,
+    coalesce(full_text_weight / (rrf_k + full_text.rank_ix), 0.0)
+      + coalesce(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) as score
+  from full_text
+  full outer join semantic on full_text.id = semantic.id
+  join public.seo_documents as d on d.id = coalesce(full_text.id, semantic.id)
+  order by score desc
+  limit greatest(match_count, 1);
+$$;
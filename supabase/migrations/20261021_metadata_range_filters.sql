@@ -0,0 +1,132 @@
+-- Metadata filters for the search RPCs. Each key of `filter` is matched against the same
+-- metadata key: plain values use containment (as before), objects hold operators:
+--   {"position": {"gte": 1, "lte": 3}}             numeric range
+--   {"iso_date": {"gte": "2024-01-01"}}             ISO date range (text comparison)
+--   {"domain": {"in": ["ooni.com", "www.ooni.com"]}}
+--   {"query": {"ilike": "%pizza oven%"}}
+create or replace function public.seo_metadata_matches(metadata jsonb, filter jsonb)
+returns boolean
+language plpgsql
+immutable
+parallel safe
+as $$
+declare
+  f record;
+  op record;
+  v jsonb;
+begin
+  if filter is null or filter = '{}'::jsonb then
+    return true;
+  end if;
+
+  for f in select key, value from jsonb_each(filter) loop
+    if jsonb_typeof(f.value) <> 'object' then
+      if not metadata @> jsonb_build_object(f.key, f.value) then
+        return false;
+      end if;
+      continue;
+    end if;
+
+    v := metadata -> f.key;
+    if v is null or jsonb_typeof(v) = 'null' then
+      return false;
+    end if;
+
+    for op in select key, value from jsonb_each(f.value) loop
+      if op.key not in ('gte', 'gt', 'lte', 'lt', 'in', 'ilike') then
+        raise exception 'Unsupported metadata filter operator "%" on "%"', op.key, f.key;
+      end if;
+      -- jsonb ordering compares numbers numerically and strings as text
+      if (op.key = 'gte' and not v >= op.value)
+        or (op.key = 'gt' and not v > op.value)
+        or (op.key = 'lte' and not v <= op.value)
+        or (op.key = 'lt' and not v < op.value)
+        or (op.key = 'in' and not op.value @> jsonb_build_array(v))
+        or (op.key = 'ilike' and not (v #>> '{}') ilike (op.value #>> '{}')) then
+        return false;
+      end if;
+    end loop;
+  end loop;
+
+  return true;
+end;
+$$;
+
+create or replace function public.match_seo_documents(
+  query_embedding extensions.vector(1536),
+  match_count integer default 10,
+  filter jsonb default '{}'::jsonb
+) returns table (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity double precision
+) language plpgsql SET search_path = public, extensions as
+$$
+begin
+  return query
+  select
+    d.id,
+    d.content,
+    d.metadata,
+    1 - (d.embedding <=> query_embedding) as similarity
+  from public.seo_documents as d
+  where public.seo_metadata_matches(d.metadata, filter)
+  order by d.embedding <=> query_embedding
+  limit greatest(match_count, 1);
+end;
+$$;
+
+create or replace function public.hybrid_search_seo_documents(
+  query_text text,
+  query_embedding extensions.vector(1536),
+  match_count integer default 10,
+  filter jsonb default '{}'::jsonb,
+  full_text_weight double precision default 1,
+  semantic_weight double precision default 1,
+  rrf_k integer default 50
+) returns table (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+) language sql stable set search_path = public, extensions as
+$$
+  with full_text as (
+    select
+      d.id,
+      ts_rank_cd(d.content_tsv, websearch_to_tsquery('simple', query_text)) as keyword_rank,
+      row_number() over (
+        order by ts_rank_cd(d.content_tsv, websearch_to_tsquery('simple', query_text)) desc
+      ) as rank_ix
+    from public.seo_documents as d
+    where d.content_tsv @@ websearch_to_tsquery('simple', query_text)
+      and public.seo_metadata_matches(d.metadata, filter)
+    order by rank_ix
+    limit greatest(match_count, 1) * 2
+  ),
+  semantic as (
+    select
+      d.id,
+      row_number() over (order by d.embedding <=> query_embedding) as rank_ix
+    from public.seo_documents as d
+    where public.seo_metadata_matches(d.metadata, filter)
+    order by rank_ix
+    limit greatest(match_count, 1) * 2
+  )
+  select
+    d.id,
+    d.content,
+    d.metadata,
+    1 - (d.embedding <=> query_embedding) as similarity,
+    coalesce(full_text.keyword_rank, 0)::double precision as keyword_rank,
+    coalesce(full_text_weight / (rrf_k + full_text.rank_ix), 0.0)
+      + coalesce(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) as score
+  from full_text
+  full outer join semantic on full_text.id = semantic.id
+  join public.seo_documents as d on d.id = coalesce(full_text.id, semantic.id)
+  order by score desc
+  limit greatest(match_count, 1);
+$$;
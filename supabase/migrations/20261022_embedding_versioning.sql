@@ -0,0 +1,270 @@
+-- Per-row embedding model and version, so the store can hold vectors from two models while
+-- a re-embed runs. Searches use `embedding`; the re-embed job fills `embedding_next` for the
+-- target model and promote_seo_embeddings swaps it in once every row has one.
+-- Both columns keep the 1536 dimensions of the original index; providers must embed at that size.
+alter table public.seo_documents
+  add column if not exists embedding_model text,
+  add column if not exists embedding_version text,
+  add column if not exists embedding_next extensions.vector(1536),
+  add column if not exists embedding_next_model text,
+  add column if not exists embedding_next_version text;
+
+-- Rows seeded before this migration were embedded with the original hardcoded model
+update public.seo_documents
+set embedding_model = 'text-embedding-3-small', embedding_version = '1'
+where embedding_model is null;
+
+alter table public.seo_documents
+  alter column embedding_model set not null,
+  alter column embedding_version set not null;
+
+create index if not exists seo_documents_embedding_model_idx
+  on public.seo_documents (embedding_model, embedding_version);
+
+-- hnsw needs no training data, unlike the ivfflat index on `embedding`, so it works while the column fills up
+create index if not exists seo_documents_embedding_next_idx
+  on public.seo_documents
+  using hnsw (embedding_next vector_cosine_ops);
+
+-- Nearest rows for a query embedded with (p_model, p_version): rows already on that model are
+-- compared on `embedding`, rows mid-migration on `embedding_next`, and rows with neither are skipped.
+-- A null p_model compares `embedding` for every row, as before versioning.
+create or replace function public.seo_semantic_candidates(
+  query_embedding extensions.vector(1536),
+  p_model text,
+  p_version text,
+  filter jsonb,
+  match_count integer
+) returns table (
+  id text,
+  distance double precision
+) language sql stable set search_path = public, extensions as
+$$
+  select c.id, c.distance
+  from (
+    (
+      select d.id, d.embedding <=> query_embedding as distance
+      from public.seo_documents as d
+      where (p_model is null or (d.embedding_model = p_model and d.embedding_version = p_version))
+        and public.seo_metadata_matches(d.metadata, filter)
+      order by d.embedding <=> query_embedding
+      limit match_count
+    )
+    union all
+    (
+      select d.id, d.embedding_next <=> query_embedding as distance
+      from public.seo_documents as d
+      where p_model is not null
+        and d.embedding_next_model = p_model
+        and d.embedding_next_version = p_version
+        and not (d.embedding_model = p_model and d.embedding_version = p_version)
+        and public.seo_metadata_matches(d.metadata, filter)
+      order by d.embedding_next <=> query_embedding
+      limit match_count
+    )
+  ) as c
+  order by c.distance
+  limit match_count;
+$$;
+
+-- New parameters change the signatures, so drop the old ones instead of adding overloads
+drop function if exists public.match_seo_documents(extensions.vector, integer, jsonb);
+drop function if exists public.hybrid_search_seo_documents(text, extensions.vector, integer, jsonb, double precision, double precision, integer);
+
+create function public.match_seo_documents(
+  query_embedding extensions.vector(1536),
+  match_count integer default 10,
+  filter jsonb default '{}'::jsonb,
+  embedding_model text default null,
+  embedding_version text default null
+) returns table (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity double precision
+) language sql stable set search_path = public, extensions as
+$$
+  select
+    d.id,
+    d.content,
+    d.metadata,
+    1 - c.distance as similarity
+  from public.seo_semantic_candidates(
+    query_embedding,
+    match_seo_documents.embedding_model,
+    match_seo_documents.embedding_version,
+    filter,
+    greatest(match_count, 1)
+  ) as c
+  join public.seo_documents as d on d.id = c.id
+  order by c.distance;
+$$;
+
+create function public.hybrid_search_seo_documents(
+  query_text text,
+  query_embedding extensions.vector(1536),
+  match_count integer default 10,
+  filter jsonb default '{}'::jsonb,
+  full_text_weight double precision default 1,
+  semantic_weight double precision default 1,
+  rrf_k integer default 50,
+  embedding_model text default null,
+  embedding_version text default null
+) returns table (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+) language sql stable set search_path = public, extensions as
+$$
+  with full_text as (
+    select
+      d.id,
+      ts_rank_cd(d.content_tsv, websearch_to_tsquery('simple', query_text)) as keyword_rank,
+      row_number() over (
+        order by ts_rank_cd(d.content_tsv, websearch_to_tsquery('simple', query_text)) desc
+      ) as rank_ix
+    from public.seo_documents as d
+    where d.content_tsv @@ websearch_to_tsquery('simple', query_text)
+      and public.seo_metadata_matches(d.metadata, filter)
+    order by rank_ix
+    limit greatest(match_count, 1) * 2
+  ),
+  semantic as (
+    select
+      c.id,
+      c.distance,
+      row_number() over (order by c.distance) as rank_ix
+    from public.seo_semantic_candidates(
+      query_embedding,
+      hybrid_search_seo_documents.embedding_model,
+      hybrid_search_seo_documents.embedding_version,
+      filter,
+      greatest(match_count, 1) * 2
+    ) as c
+  )
+  select
+    d.id,
+    d.content,
+    d.metadata,
+    -- keyword-only matches may have no vector for the query's model yet, leaving similarity null
+    1 - coalesce(
+      semantic.distance,
+      case
+        when hybrid_search_seo_documents.embedding_model is null
+          or (d.embedding_model = hybrid_search_seo_documents.embedding_model
+            and d.embedding_version = hybrid_search_seo_documents.embedding_version)
+          then d.embedding <=> query_embedding
+        when d.embedding_next_model = hybrid_search_seo_documents.embedding_model
+          and d.embedding_next_version = hybrid_search_seo_documents.embedding_version
+          then d.embedding_next <=> query_embedding
+      end
+    ) as similarity,
+    coalesce(full_text.keyword_rank, 0)::double precision as keyword_rank,
+    coalesce(full_text_weight / (rrf_k + full_text.rank_ix), 0.0)
+      + coalesce(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) as score
+  from full_text
+  full outer join semantic on full_text.id = semantic.id
+  join public.seo_documents as d on d.id = coalesce(full_text.id, semantic.id)
+  order by score desc
+  limit greatest(match_count, 1);
+$$;
+
+-- Rows the re-embed job still has to embed for the target model
+create or replace function public.seo_documents_pending_embedding(
+  p_model text,
+  p_version text,
+  p_limit integer default 100
+) returns table (
+  id text,
+  content text,
+  content_hash text
+) language sql stable set search_path = public as
+$$
+  select d.id, d.content, md5(d.content)
+  from public.seo_documents as d
+  where not (d.embedding_model = p_model and d.embedding_version = p_version)
+    and (d.embedding_next_model is distinct from p_model or d.embedding_next_version is distinct from p_version)
+  order by d.id
+  limit greatest(p_limit, 1);
+$$;
+
+-- Stores a shadow embedding unless the content changed since the job read it (the row then
+-- shows up as pending again). Returns whether the row was updated.
+create or replace function public.set_seo_embedding_next(
+  p_id text,
+  p_content_hash text,
+  p_embedding extensions.vector(1536),
+  p_model text,
+  p_version text
+) returns boolean
+language plpgsql set search_path = public, extensions as
+$$
+begin
+  update public.seo_documents as d
+  set embedding_next = p_embedding,
+      embedding_next_model = p_model,
+      embedding_next_version = p_version
+  where d.id = p_id
+    and md5(d.content) = p_content_hash;
+  return found;
+end;
+$$;
+
+-- Document counts per model, for both the live and the shadow column
+create or replace function public.seo_embedding_status()
+returns table (
+  embedding_column text,
+  embedding_model text,
+  embedding_version text,
+  documents bigint
+) language sql stable set search_path = public as
+$$
+  select 'embedding', d.embedding_model, d.embedding_version, count(*)
+  from public.seo_documents as d
+  group by d.embedding_model, d.embedding_version
+  union all
+  select 'embedding_next', d.embedding_next_model, d.embedding_next_version, count(*)
+  from public.seo_documents as d
+  where d.embedding_next_model is not null
+  group by d.embedding_next_model, d.embedding_next_version
+  order by 1, 4 desc;
+$$;
+
+-- Swaps `embedding_next` into `embedding` for the target model in one statement, so readers see
+-- either the old or the new vectors. Refuses while any row still lacks a target embedding.
+create or replace function public.promote_seo_embeddings(
+  p_model text,
+  p_version text
+) returns bigint
+language plpgsql set search_path = public as
+$$
+declare
+  v_missing bigint;
+  v_promoted bigint;
+begin
+  select count(*) into v_missing
+  from public.seo_documents as d
+  where not (d.embedding_model = p_model and d.embedding_version = p_version)
+    and (d.embedding_next_model is distinct from p_model or d.embedding_next_version is distinct from p_version);
+
+  if v_missing > 0 then
+    raise exception '% documents have no % (version %) embedding yet', v_missing, p_model, p_version;
+  end if;
+
+  update public.seo_documents as d
+  set embedding = d.embedding_next,
+      embedding_model = d.embedding_next_model,
+      embedding_version = d.embedding_next_version,
+      embedding_next = null,
+      embedding_next_model = null,
+      embedding_next_version = null
+  where d.embedding_next_model = p_model
+    and d.embedding_next_version = p_version;
+
+  get diagnostics v_promoted = row_count;
+  return v_promoted;
+end;
+$$;
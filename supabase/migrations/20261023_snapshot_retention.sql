@@ -0,0 +1,27 @@
+-- Global date bounds (detectTimeRanges) and retention scans read snapshots by capture time
+create index if not exists serp_snapshots_captured_idx
+  on public.serp_snapshots (captured_at);
+
+-- Removes archived snapshots with their documents in one transaction. serp_results and
+-- serp_snapshot_features cascade; queries, domains and features stay for the remaining snapshots.
+create or replace function public.delete_serp_snapshots(p_ids text[])
+returns bigint
+language plpgsql set search_path = public as
+$$
+declare
+  v_documents bigint;
+begin
+  delete from public.seo_documents as d
+  where d.metadata->>'serp_id' = any(p_ids);
+  get diagnostics v_documents = row_count;
+
+  delete from public.serp_snapshots as s
+  where s.id = any(p_ids);
+
+  return v_documents;
+end;
+$$;
+
+-- Lets the metadata->>'serp_id' lookup above use an index instead of scanning every document
+create index if not exists seo_documents_serp_id_idx
+  on public.seo_documents ((metadata->>'serp_id'));
@@ -0,0 +1,267 @@
+-- Change-only storage. A "baseline" snapshot has its documents in seo_documents; a "delta" snapshot
+-- has none and is described by its change events against the previous snapshot of the same query
+-- and market. Every snapshot keeps a fingerprint (organic positions/URLs and features), so the next
+-- one can be diffed without rebuilding state from documents.
+alter table public.serp_snapshots
+  add column if not exists kind text not null default 'baseline' check (kind in ('baseline', 'delta')),
+  add column if not exists previous_id text references public.serp_snapshots (id) on delete set null,
+  add column if not exists baseline_id text references public.serp_snapshots (id) on delete set null,
+  add column if not exists fingerprint jsonb;
+
+create table if not exists public.serp_change_events (
+  id bigint generated always as identity primary key,
+  snapshot_id text not null references public.serp_snapshots (id) on delete cascade,
+  previous_id text references public.serp_snapshots (id) on delete set null,
+  event_type text not null check (
+    event_type in ('position_change', 'new_url', 'lost_url', 'feature_added', 'feature_removed')
+  ),
+  url text,
+  domain text,
+  feature text,
+  previous_position integer,
+  position integer
+);
+
+create index if not exists serp_change_events_snapshot_idx
+  on public.serp_change_events (snapshot_id);
+
+-- Snapshot-level rows (cluster, query, snapshot, features) shared by the document trigger and
+-- record_serp_snapshot, which also has to create them for delta snapshots without documents.
+create or replace function public.upsert_serp_snapshot(m jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cluster_id bigint;
+  v_query_id bigint;
+  v_feature text;
+  v_feature_id bigint;
+begin
+  if nullif(m->>'cluster', '') is not null then
+    insert into public.serp_clusters (name) values (m->>'cluster')
+    on conflict (name) do update set name = excluded.name
+    returning id into v_cluster_id;
+  end if;
+
+  insert into public.serp_queries (query, engine, device, gl, hl, cluster_id)
+  values (
+    m->>'query',
+    coalesce(m->>'engine', 'google'),
+    coalesce(m->>'device', 'desktop'),
+    nullif(m->>'gl', ''),
+    nullif(m->>'hl', ''),
+    v_cluster_id
+  )
+  on conflict (query, engine, device, gl, hl)
+    do update set cluster_id = coalesce(excluded.cluster_id, public.serp_queries.cluster_id)
+  returning id into v_query_id;
+
+  insert into public.serp_snapshots (id, query_id, captured_at)
+  values (m->>'serp_id', v_query_id, (m->>'iso_date')::timestamptz)
+  on conflict (id) do nothing;
+
+  for v_feature in select jsonb_array_elements_text(coalesce(m->'serp_features', '[]'::jsonb)) loop
+    insert into public.serp_features (name) values (v_feature)
+    on conflict (name) do update set name = excluded.name
+    returning id into v_feature_id;
+    insert into public.serp_snapshot_features (snapshot_id, feature_id)
+    values (m->>'serp_id', v_feature_id)
+    on conflict do nothing;
+  end loop;
+end;
+$$;
+
+create or replace function public.sync_serp_document()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m jsonb := new.metadata;
+  v_domain_id bigint;
+begin
+  if m->>'serp_id' is null or m->>'query' is null or m->>'type' is null then
+    return new;
+  end if;
+
+  perform public.upsert_serp_snapshot(m);
+
+  if nullif(m->>'domain', '') is not null then
+    insert into public.serp_domains (domain) values (lower(m->>'domain'))
+    on conflict (domain) do update set domain = excluded.domain
+    returning id into v_domain_id;
+  end if;
+
+  insert into public.serp_results (
+    document_id, snapshot_id, result_type, position, domain_id, url,
+    source, published_date, page_status, h1, h2, h3
+  )
+  values (
+    new.id,
+    m->>'serp_id',
+    m->>'type',
+    case when m->>'position' ~ '^[0-9]+$' then (m->>'position')::integer end,
+    v_domain_id,
+    substring(new.content from '(?:^|\n)(?:Source )?URL: ([^\n]+)'),
+    m->>'source',
+    m->>'published_date',
+    m->>'page_status',
+    m->>'h1',
+    coalesce(array(select jsonb_array_elements_text(case when jsonb_typeof(m->'h2') = 'array' then m->'h2' end)), '{}'),
+    coalesce(array(select jsonb_array_elements_text(case when jsonb_typeof(m->'h3') = 'array' then m->'h3' end)), '{}')
+  )
+  on conflict (document_id) do update set
+    snapshot_id = excluded.snapshot_id,
+    result_type = excluded.result_type,
+    position = excluded.position,
+    domain_id = excluded.domain_id,
+    url = excluded.url,
+    source = excluded.source,
+    published_date = excluded.published_date,
+    page_status = excluded.page_status,
+    h1 = excluded.h1,
+    h2 = excluded.h2,
+    h3 = excluded.h3;
+
+  return new;
+end;
+$$;
+
+-- Existing snapshots are baselines of themselves; their fingerprints come from serp_results
+update public.serp_snapshots
+set baseline_id = id
+where baseline_id is null and kind = 'baseline';
+
+update public.serp_snapshots as s
+set fingerprint = jsonb_build_object(
+  'organic', coalesce((
+    select jsonb_agg(jsonb_build_object('position', r.position, 'url', r.url, 'domain', dom.domain) order by r.position)
+    from public.serp_results r
+    left join public.serp_domains dom on dom.id = r.domain_id
+    where r.snapshot_id = s.id and r.result_type = 'organic' and r.position is not null and r.url is not null
+  ), '[]'::jsonb),
+  'features', coalesce((
+    select jsonb_agg(f.name order by f.name)
+    from public.serp_snapshot_features sf
+    join public.serp_features f on f.id = sf.feature_id
+    where sf.snapshot_id = s.id
+  ), '[]'::jsonb)
+)
+where s.fingerprint is null;
+
+-- Latest snapshot of a query/market captured before p_before, with the capture time of its baseline
+create or replace function public.previous_serp_snapshot(
+  p_query text,
+  p_engine text,
+  p_device text,
+  p_gl text,
+  p_hl text,
+  p_before timestamptz
+) returns table (
+  id text,
+  kind text,
+  captured_at timestamptz,
+  baseline_id text,
+  baseline_captured_at timestamptz,
+  fingerprint jsonb
+) language sql stable set search_path = public as
+$$
+  select s.id, s.kind, s.captured_at, s.baseline_id, b.captured_at, s.fingerprint
+  from public.serp_snapshots s
+  join public.serp_queries q on q.id = s.query_id
+  left join public.serp_snapshots b on b.id = s.baseline_id
+  where q.query = p_query
+    and q.engine = p_engine
+    and q.device = p_device
+    and q.gl is not distinct from nullif(p_gl, '')
+    and q.hl is not distinct from nullif(p_hl, '')
+    and s.captured_at < p_before
+  order by s.captured_at desc
+  limit 1;
+$$;
+
+-- Stores a snapshot's kind, fingerprint and change events (replacing any from an earlier attempt).
+-- p_meta carries the snapshot fields of document metadata: serp_id, query, cluster, market, iso_date, serp_features.
+create or replace function public.record_serp_snapshot(
+  p_meta jsonb,
+  p_kind text,
+  p_previous_id text,
+  p_fingerprint jsonb,
+  p_events jsonb
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_snapshot_id text := p_meta->>'serp_id';
+  v_baseline_id text;
+begin
+  perform public.upsert_serp_snapshot(p_meta);
+
+  if p_kind = 'baseline' then
+    v_baseline_id := v_snapshot_id;
+  else
+    select coalesce(s.baseline_id, s.id) into v_baseline_id
+    from public.serp_snapshots s
+    where s.id = p_previous_id;
+  end if;
+
+  update public.serp_snapshots
+  set kind = p_kind,
+      previous_id = p_previous_id,
+      baseline_id = v_baseline_id,
+      fingerprint = p_fingerprint
+  where id = v_snapshot_id;
+
+  delete from public.serp_change_events where snapshot_id = v_snapshot_id;
+
+  insert into public.serp_change_events (
+    snapshot_id, previous_id, event_type, url, domain, feature, previous_position, position
+  )
+  select
+    v_snapshot_id,
+    p_previous_id,
+    e->>'type',
+    e->>'url',
+    e->>'domain',
+    e->>'feature',
+    (e->>'previous_position')::integer,
+    (e->>'position')::integer
+  from jsonb_array_elements(coalesce(p_events, '[]'::jsonb)) as e;
+end;
+$$;
+
+-- Change events with the query, market and capture time of the snapshot they lead to
+create or replace view public.serp_change_log
+with (security_invoker = true) as
+select
+  e.id,
+  e.snapshot_id,
+  e.previous_id,
+  s.captured_at,
+  s.kind as snapshot_kind,
+  c.name as cluster,
+  q.query,
+  q.engine,
+  q.device,
+  q.gl,
+  q.hl,
+  e.event_type as type,
+  e.url,
+  e.domain,
+  e.feature,
+  e.previous_position,
+  e.position
+from public.serp_change_events e
+join public.serp_snapshots s on s.id = e.snapshot_id
+join public.serp_queries q on q.id = s.query_id
+left join public.serp_clusters c on c.id = q.cluster_id;
+
+alter table public.serp_change_events enable row level security;
+
+create policy "Authenticated can select serp_change_events" on public.serp_change_events
+  for select using (auth.role() = 'authenticated' or auth.role() = 'service_role');
@@ -0,0 +1,91 @@
+-- Read-only diagnostics for `npm run check-db`: the vector extension, embedding columns, indexes and
+-- search RPC signatures from the catalog, plus document counts and embedding/snapshot integrity.
+-- Samples are capped at p_sample ids; metadata is validated by the script itself.
+create or replace function public.seo_database_health(
+  p_dimensions integer default 1536,
+  p_sample integer default 20
+) returns jsonb
+language sql stable set search_path = public, extensions as
+$$
+  select jsonb_build_object(
+    'vector_extension', (
+      select jsonb_build_object('version', e.extversion, 'schema', n.nspname)
+      from pg_extension e
+      join pg_namespace n on n.oid = e.extnamespace
+      where e.extname = 'vector'
+    ),
+    'embedding_columns', (
+      select coalesce(jsonb_agg(jsonb_build_object('name', a.attname, 'type', format_type(a.atttypid, a.atttypmod)) order by a.attname), '[]'::jsonb)
+      from pg_attribute a
+      where a.attrelid = 'public.seo_documents'::regclass
+        and a.attname in ('embedding', 'embedding_next')
+        and not a.attisdropped
+    ),
+    'indexes', (
+      select coalesce(jsonb_agg(jsonb_build_object('name', i.indexname, 'definition', i.indexdef) order by i.indexname), '[]'::jsonb)
+      from pg_indexes i
+      where i.schemaname = 'public' and i.tablename = 'seo_documents'
+    ),
+    'functions', (
+      select coalesce(jsonb_agg(jsonb_build_object('name', p.proname, 'arguments', pg_get_function_identity_arguments(p.oid)) order by p.proname), '[]'::jsonb)
+      from pg_proc p
+      join pg_namespace n on n.oid = p.pronamespace
+      where n.nspname = 'public'
+        and p.proname in ('match_seo_documents', 'hybrid_search_seo_documents')
+    ),
+    'documents', (select count(*) from public.seo_documents),
+    'counts', (
+      select coalesce(jsonb_agg(jsonb_build_object('cluster', c.cluster, 'type', c.type, 'date', c.date, 'documents', c.documents) order by c.cluster, c.type, c.date), '[]'::jsonb)
+      from (
+        select
+          d.metadata->>'cluster' as cluster,
+          d.metadata->>'type' as type,
+          left(d.metadata->>'iso_date', 10) as date,
+          count(*) as documents
+        from public.seo_documents d
+        group by 1, 2, 3
+      ) c
+    ),
+    'missing_embeddings', (
+      select jsonb_build_object('count', count(*), 'sample', coalesce((array_agg(d.id order by d.id))[1:p_sample], '{}'))
+      from public.seo_documents d
+      where d.embedding is null
+    ),
+    'wrong_dimensions', (
+      select jsonb_build_object('count', count(*), 'sample', coalesce((array_agg(d.id order by d.id))[1:p_sample], '{}'))
+      from public.seo_documents d
+      where vector_dims(d.embedding) <> p_dimensions
+        or (d.embedding_next is not null and vector_dims(d.embedding_next) <> p_dimensions)
+    ),
+    -- Two snapshots of the same query and market captured at the same time
+    'duplicate_snapshots', (
+      select coalesce(jsonb_agg(jsonb_build_object('query', dup.query, 'captured_at', dup.captured_at, 'snapshot_ids', dup.ids)), '[]'::jsonb)
+      from (
+        select q.query, s.captured_at, array_agg(s.id order by s.id) as ids
+        from public.serp_snapshots s
+        join public.serp_queries q on q.id = s.query_id
+        group by q.id, q.query, s.captured_at
+        having count(*) > 1
+        order by s.captured_at desc
+        limit p_sample
+      ) dup
+    ),
+    -- Two documents in one snapshot claiming the same result type and position
+    'duplicate_results', (
+      select coalesce(jsonb_agg(jsonb_build_object('snapshot_id', dup.snapshot_id, 'type', dup.result_type, 'position', dup.position, 'document_ids', dup.ids)), '[]'::jsonb)
+      from (
+        select r.snapshot_id, r.result_type, r.position, array_agg(r.document_id order by r.document_id) as ids
+        from public.serp_results r
+        where r.position is not null
+        group by r.snapshot_id, r.result_type, r.position
+        having count(*) > 1
+        order by r.snapshot_id
+        limit p_sample
+      ) dup
+    ),
+    'clusters', (
+      select coalesce(jsonb_agg(c.name order by c.name), '[]'::jsonb)
+      from public.serp_clusters c
+    )
+  );
+$$;
@@ -0,0 +1,498 @@
+-- Workspaces isolate each client's documents, clusters and snapshots. Every document carries its
+-- workspace in metadata->>'workspace' (mirrored to the workspace_id column); the relational tables
+-- are keyed by workspace, every search and aggregate RPC takes one, and RLS only lets members of a
+-- workspace see its rows. Data ingested before this migration belongs to the 'default' workspace.
+create table if not exists public.workspaces (
+  id text primary key check (id ~ '^[a-z0-9][a-z0-9_-]*$'),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+insert into public.workspaces (id, name) values ('default', 'Default')
+on conflict (id) do nothing;
+
+create table if not exists public.workspace_members (
+  workspace_id text not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_idx
+  on public.workspace_members (user_id);
+
+-- security definer so policies can consult memberships without exposing the table
+create or replace function public.is_workspace_member(p_workspace text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.role() = 'service_role'
+    or exists (
+      select 1
+      from public.workspace_members m
+      where m.workspace_id = p_workspace and m.user_id = auth.uid()
+    );
+$$;
+
+-- Documents
+update public.seo_documents
+set metadata = metadata || jsonb_build_object('workspace', 'default')
+where not (metadata ? 'workspace');
+
+alter table public.seo_documents
+  add column if not exists workspace_id text
+  generated always as (coalesce(metadata->>'workspace', 'default')) stored
+  references public.workspaces (id);
+
+create index if not exists seo_documents_workspace_idx
+  on public.seo_documents (workspace_id);
+
+-- Relational tables: clusters and queries are unique per workspace; snapshots repeat the
+-- workspace of their query so policies and date lookups need no join
+alter table public.serp_clusters
+  add column if not exists workspace_id text not null default 'default' references public.workspaces (id);
+alter table public.serp_queries
+  add column if not exists workspace_id text not null default 'default' references public.workspaces (id);
+alter table public.serp_snapshots
+  add column if not exists workspace_id text not null default 'default' references public.workspaces (id);
+
+alter table public.serp_clusters drop constraint if exists serp_clusters_name_key;
+alter table public.serp_clusters add constraint serp_clusters_workspace_name_key unique (workspace_id, name);
+
+alter table public.serp_queries drop constraint if exists serp_queries_query_engine_device_gl_hl_key;
+alter table public.serp_queries add constraint serp_queries_workspace_market_key
+  unique nulls not distinct (workspace_id, query, engine, device, gl, hl);
+
+create index if not exists serp_snapshots_workspace_captured_idx
+  on public.serp_snapshots (workspace_id, captured_at);
+
+create or replace function public.upsert_serp_snapshot(m jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workspace text := coalesce(nullif(m->>'workspace', ''), 'default');
+  v_cluster_id bigint;
+  v_query_id bigint;
+  v_feature text;
+  v_feature_id bigint;
+begin
+  if nullif(m->>'cluster', '') is not null then
+    insert into public.serp_clusters (workspace_id, name) values (v_workspace, m->>'cluster')
+    on conflict (workspace_id, name) do update set name = excluded.name
+    returning id into v_cluster_id;
+  end if;
+
+  insert into public.serp_queries (workspace_id, query, engine, device, gl, hl, cluster_id)
+  values (
+    v_workspace,
+    m->>'query',
+    coalesce(m->>'engine', 'google'),
+    coalesce(m->>'device', 'desktop'),
+    nullif(m->>'gl', ''),
+    nullif(m->>'hl', ''),
+    v_cluster_id
+  )
+  on conflict (workspace_id, query, engine, device, gl, hl)
+    do update set cluster_id = coalesce(excluded.cluster_id, public.serp_queries.cluster_id)
+  returning id into v_query_id;
+
+  insert into public.serp_snapshots (id, query_id, workspace_id, captured_at)
+  values (m->>'serp_id', v_query_id, v_workspace, (m->>'iso_date')::timestamptz)
+  on conflict (id) do nothing;
+
+  for v_feature in select jsonb_array_elements_text(coalesce(m->'serp_features', '[]'::jsonb)) loop
+    insert into public.serp_features (name) values (v_feature)
+    on conflict (name) do update set name = excluded.name
+    returning id into v_feature_id;
+    insert into public.serp_snapshot_features (snapshot_id, feature_id)
+    values (m->>'serp_id', v_feature_id)
+    on conflict do nothing;
+  end loop;
+end;
+$$;
+
+-- Views gain the workspace as their last column
+create or replace view public.serp_documents
+with (security_invoker = true) as
+select
+  d.id,
+  d.content,
+  d.metadata,
+  c.name as cluster,
+  q.query,
+  q.engine,
+  q.device,
+  q.gl,
+  q.hl,
+  s.id as serp_id,
+  s.captured_at,
+  r.result_type,
+  r.position,
+  dom.domain,
+  r.url,
+  r.source,
+  r.published_date,
+  r.page_status,
+  r.h1,
+  r.h2,
+  r.h3,
+  coalesce(
+    (select array_agg(f.name order by f.name)
+     from public.serp_snapshot_features sf
+     join public.serp_features f on f.id = sf.feature_id
+     where sf.snapshot_id = s.id),
+    '{}'
+  ) as serp_features,
+  d.workspace_id
+from public.serp_results r
+join public.seo_documents d on d.id = r.document_id
+join public.serp_snapshots s on s.id = r.snapshot_id
+join public.serp_queries q on q.id = s.query_id
+left join public.serp_clusters c on c.id = q.cluster_id
+left join public.serp_domains dom on dom.id = r.domain_id;
+
+create or replace view public.serp_change_log
+with (security_invoker = true) as
+select
+  e.id,
+  e.snapshot_id,
+  e.previous_id,
+  s.captured_at,
+  s.kind as snapshot_kind,
+  c.name as cluster,
+  q.query,
+  q.engine,
+  q.device,
+  q.gl,
+  q.hl,
+  e.event_type as type,
+  e.url,
+  e.domain,
+  e.feature,
+  e.previous_position,
+  e.position,
+  s.workspace_id
+from public.serp_change_events e
+join public.serp_snapshots s on s.id = e.snapshot_id
+join public.serp_queries q on q.id = s.query_id
+left join public.serp_clusters c on c.id = q.cluster_id;
+
+-- The workspace parameter has no default, so a caller cannot search across workspaces by omission
+drop function if exists public.match_seo_documents(extensions.vector, integer, jsonb, text, text);
+drop function if exists public.hybrid_search_seo_documents(text, extensions.vector, integer, jsonb, double precision, double precision, integer, text, text);
+drop function if exists public.seo_semantic_candidates(extensions.vector, text, text, jsonb, integer);
+
+create function public.seo_semantic_candidates(
+  p_workspace text,
+  query_embedding extensions.vector(1536),
+  p_model text,
+  p_version text,
+  filter jsonb,
+  match_count integer
+) returns table (
+  id text,
+  distance double precision
+) language sql stable set search_path = public, extensions as
+$$
+  select c.id, c.distance
+  from (
+    (
+      select d.id, d.embedding <=> query_embedding as distance
+      from public.seo_documents as d
+      where d.workspace_id = p_workspace
+        and (p_model is null or (d.embedding_model = p_model and d.embedding_version = p_version))
+        and public.seo_metadata_matches(d.metadata, filter)
+      order by d.embedding <=> query_embedding
+      limit match_count
+    )
+    union all
+    (
+      select d.id, d.embedding_next <=> query_embedding as distance
+      from public.seo_documents as d
+      where d.workspace_id = p_workspace
+        and p_model is not null
+        and d.embedding_next_model = p_model
+        and d.embedding_next_version = p_version
+        and not (d.embedding_model = p_model and d.embedding_version = p_version)
+        and public.seo_metadata_matches(d.metadata, filter)
+      order by d.embedding_next <=> query_embedding
+      limit match_count
+    )
+  ) as c
+  order by c.distance
+  limit match_count;
+$$;
+
+create function public.match_seo_documents(
+  workspace_id text,
+  query_embedding extensions.vector(1536),
+  match_count integer default 10,
+  filter jsonb default '{}'::jsonb,
+  embedding_model text default null,
+  embedding_version text default null
+) returns table (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity double precision
+) language sql stable set search_path = public, extensions as
+$$
+  select
+    d.id,
+    d.content,
+    d.metadata,
+    1 - c.distance as similarity
+  from public.seo_semantic_candidates(
+    match_seo_documents.workspace_id,
+    query_embedding,
+    match_seo_documents.embedding_model,
+    match_seo_documents.embedding_version,
+    filter,
+    greatest(match_count, 1)
+  ) as c
+  join public.seo_documents as d on d.id = c.id
+  order by c.distance;
+$$;
+
+create function public.hybrid_search_seo_documents(
+  workspace_id text,
+  query_text text,
+  query_embedding extensions.vector(1536),
+  match_count integer default 10,
+  filter jsonb default '{}'::jsonb,
+  full_text_weight double precision default 1,
+  semantic_weight double precision default 1,
+  rrf_k integer default 50,
+  embedding_model text default null,
+  embedding_version text default null
+) returns table (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+) language sql stable set search_path = public, extensions as
+$$
+  with full_text as (
+    select
+      d.id,
+      ts_rank_cd(d.content_tsv, websearch_to_tsquery('simple', query_text)) as keyword_rank,
+      row_number() over (
+        order by ts_rank_cd(d.content_tsv, websearch_to_tsquery('simple', query_text)) desc
+      ) as rank_ix
+    from public.seo_documents as d
+    where d.workspace_id = hybrid_search_seo_documents.workspace_id
+      and d.content_tsv @@ websearch_to_tsquery('simple', query_text)
+      and public.seo_metadata_matches(d.metadata, filter)
+    order by rank_ix
+    limit greatest(match_count, 1) * 2
+  ),
+  semantic as (
+    select
+      c.id,
+      c.distance,
+      row_number() over (order by c.distance) as rank_ix
+    from public.seo_semantic_candidates(
+      hybrid_search_seo_documents.workspace_id,
+      query_embedding,
+      hybrid_search_seo_documents.embedding_model,
+      hybrid_search_seo_documents.embedding_version,
+      filter,
+      greatest(match_count, 1) * 2
+    ) as c
+  )
+  select
+    d.id,
+    d.content,
+    d.metadata,
+    -- keyword-only matches may have no vector for the query's model yet, leaving similarity null
+    1 - coalesce(
+      semantic.distance,
+      case
+        when hybrid_search_seo_documents.embedding_model is null
+          or (d.embedding_model = hybrid_search_seo_documents.embedding_model
+            and d.embedding_version = hybrid_search_seo_documents.embedding_version)
+          then d.embedding <=> query_embedding
+        when d.embedding_next_model = hybrid_search_seo_documents.embedding_model
+          and d.embedding_next_version = hybrid_search_seo_documents.embedding_version
+          then d.embedding_next <=> query_embedding
+      end
+    ) as similarity,
+    coalesce(full_text.keyword_rank, 0)::double precision as keyword_rank,
+    coalesce(full_text_weight / (rrf_k + full_text.rank_ix), 0.0)
+      + coalesce(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) as score
+  from full_text
+  full outer join semantic on full_text.id = semantic.id
+  join public.seo_documents as d on d.id = coalesce(full_text.id, semantic.id)
+  order by score desc
+  limit greatest(match_count, 1);
+$$;
+
+drop function if exists public.serp_domain_stats(text, text, integer, jsonb);
+drop function if exists public.serp_feature_frequency(text, text, jsonb);
+drop function if exists public.previous_serp_snapshot(text, text, text, text, text, timestamptz);
+
+create function public.serp_domain_stats(
+  p_workspace text,
+  p_cluster text default null,
+  p_query text default null,
+  p_max_position integer default 10,
+  p_market jsonb default '{}'::jsonb
+) returns table (
+  domain text,
+  results bigint,
+  queries bigint,
+  avg_position numeric,
+  best_position integer,
+  top3 bigint
+) language sql stable set search_path = public as
+$$
+  select
+    v.domain,
+    count(*) as results,
+    count(distinct v.query) as queries,
+    round(avg(v.position), 2) as avg_position,
+    min(v.position) as best_position,
+    count(*) filter (where v.position <= 3) as top3
+  from public.serp_documents v
+  where v.workspace_id = p_workspace
+    and v.result_type = 'organic'
+    and v.domain is not null
+    and v.position <= p_max_position
+    and (p_cluster is null or v.cluster ilike '%' || p_cluster || '%')
+    and (p_query is null or v.query ilike '%' || p_query || '%')
+    and (p_market->>'engine' is null or v.engine = p_market->>'engine')
+    and (p_market->>'device' is null or v.device = p_market->>'device')
+    and (p_market->>'gl' is null or v.gl = p_market->>'gl')
+    and (p_market->>'hl' is null or v.hl = p_market->>'hl')
+  group by v.domain
+  order by results desc, avg_position asc;
+$$;
+
+create function public.serp_feature_frequency(
+  p_workspace text,
+  p_cluster text default null,
+  p_query text default null,
+  p_market jsonb default '{}'::jsonb
+) returns table (
+  feature text,
+  snapshots bigint,
+  share numeric
+) language sql stable set search_path = public as
+$$
+  with scoped as (
+    select s.id
+    from public.serp_snapshots s
+    join public.serp_queries q on q.id = s.query_id
+    left join public.serp_clusters c on c.id = q.cluster_id
+    where s.workspace_id = p_workspace
+      and (p_cluster is null or c.name ilike '%' || p_cluster || '%')
+      and (p_query is null or q.query ilike '%' || p_query || '%')
+      and (p_market->>'engine' is null or q.engine = p_market->>'engine')
+      and (p_market->>'device' is null or q.device = p_market->>'device')
+      and (p_market->>'gl' is null or q.gl = p_market->>'gl')
+      and (p_market->>'hl' is null or q.hl = p_market->>'hl')
+  )
+  select
+    f.name as feature,
+    count(*) as snapshots,
+    round(count(*)::numeric / nullif((select count(*) from scoped), 0), 4) as share
+  from scoped
+  join public.serp_snapshot_features sf on sf.snapshot_id = scoped.id
+  join public.serp_features f on f.id = sf.feature_id
+  group by f.name
+  order by snapshots desc;
+$$;
+
+create function public.previous_serp_snapshot(
+  p_workspace text,
+  p_query text,
+  p_engine text,
+  p_device text,
+  p_gl text,
+  p_hl text,
+  p_before timestamptz
+) returns table (
+  id text,
+  kind text,
+  captured_at timestamptz,
+  baseline_id text,
+  baseline_captured_at timestamptz,
+  fingerprint jsonb
+) language sql stable set search_path = public as
+$$
+  select s.id, s.kind, s.captured_at, s.baseline_id, b.captured_at, s.fingerprint
+  from public.serp_snapshots s
+  join public.serp_queries q on q.id = s.query_id
+  left join public.serp_snapshots b on b.id = s.baseline_id
+  where q.workspace_id = p_workspace
+    and q.query = p_query
+    and q.engine = p_engine
+    and q.device = p_device
+    and q.gl is not distinct from nullif(p_gl, '')
+    and q.hl is not distinct from nullif(p_hl, '')
+    and s.captured_at < p_before
+  order by s.captured_at desc
+  limit 1;
+$$;
+
+-- Row level security: members see (and write documents of) their workspaces only.
+-- Domains and features are shared vocabularies and stay readable to every signed-in user.
+drop policy if exists "Authenticated can select seo_documents" on public.seo_documents;
+drop policy if exists "Authenticated can insert seo_documents" on public.seo_documents;
+drop policy if exists "Authenticated can update seo_documents" on public.seo_documents;
+drop policy if exists "Authenticated can delete seo_documents" on public.seo_documents;
+drop policy if exists "Authenticated can select serp_clusters" on public.serp_clusters;
+drop policy if exists "Authenticated can select serp_queries" on public.serp_queries;
+drop policy if exists "Authenticated can select serp_snapshots" on public.serp_snapshots;
+drop policy if exists "Authenticated can select serp_snapshot_features" on public.serp_snapshot_features;
+drop policy if exists "Authenticated can select serp_results" on public.serp_results;
+drop policy if exists "Authenticated can select serp_change_events" on public.serp_change_events;
+
+create policy "Members can select seo_documents" on public.seo_documents
+  for select using (public.is_workspace_member(workspace_id));
+create policy "Members can insert seo_documents" on public.seo_documents
+  for insert with check (public.is_workspace_member(workspace_id));
+create policy "Members can update seo_documents" on public.seo_documents
+  for update using (public.is_workspace_member(workspace_id))
+  with check (public.is_workspace_member(workspace_id));
+create policy "Members can delete seo_documents" on public.seo_documents
+  for delete using (public.is_workspace_member(workspace_id));
+
+create policy "Members can select serp_clusters" on public.serp_clusters
+  for select using (public.is_workspace_member(workspace_id));
+create policy "Members can select serp_queries" on public.serp_queries
+  for select using (public.is_workspace_member(workspace_id));
+create policy "Members can select serp_snapshots" on public.serp_snapshots
+  for select using (public.is_workspace_member(workspace_id));
+create policy "Members can select serp_snapshot_features" on public.serp_snapshot_features
+  for select using (exists (
+    select 1 from public.serp_snapshots s
+    where s.id = snapshot_id and public.is_workspace_member(s.workspace_id)
+  ));
+create policy "Members can select serp_results" on public.serp_results
+  for select using (exists (
+    select 1 from public.serp_snapshots s
+    where s.id = snapshot_id and public.is_workspace_member(s.workspace_id)
+  ));
+create policy "Members can select serp_change_events" on public.serp_change_events
+  for select using (exists (
+    select 1 from public.serp_snapshots s
+    where s.id = snapshot_id and public.is_workspace_member(s.workspace_id)
+  ));
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+create policy "Members can select workspaces" on public.workspaces
+  for select using (public.is_workspace_member(id));
+create policy "Users can select their memberships" on public.workspace_members
+  for select using (user_id = auth.uid() or auth.role() = 'service_role');
@@ -0,0 +1,6 @@
+-- Documents seeded before markets existed have no engine/device/gl/hl in their metadata, so market
+-- filters on seo_documents skip them. They were scraped in the default market (Google, desktop, no
+-- country or language), which the relational tables already assume for them.
+update public.seo_documents
+set metadata = jsonb_build_object('engine', 'google', 'device', 'desktop', 'gl', null, 'hl', null) || metadata
+where not (metadata ? 'engine' and metadata ? 'device' and metadata ? 'gl' and metadata ? 'hl');
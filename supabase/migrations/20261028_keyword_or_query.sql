@@ -0,0 +1,86 @@
+-- websearch_to_tsquery ANDs every word of a question and the 'simple' config keeps stopwords, so a
+-- natural-language question rarely matched anything. Keyword search now ORs the question's words,
+-- dropping the ones the 'english' config treats as stopwords; ts_rank_cd still favours documents
+-- containing more of them.
+create or replace function public.seo_keyword_query(query_text text)
+returns tsquery language sql immutable as
+$$
+  select to_tsquery('simple', string_agg(quote_literal(t.lexeme), ' | '))
+  from unnest(tsvector_to_array(to_tsvector('simple', coalesce(query_text, '')))) as t(lexeme)
+  where to_tsvector('english', t.lexeme) <> ''::tsvector;
+$$;
+
+create or replace function public.hybrid_search_seo_documents(
+  workspace_id text,
+  query_text text,
+  query_embedding extensions.vector(1536),
+  match_count integer default 10,
+  filter jsonb default '{}'::jsonb,
+  full_text_weight double precision default 1,
+  semantic_weight double precision default 1,
+  rrf_k integer default 50,
+  embedding_model text default null,
+  embedding_version text default null
+) returns table (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+) language sql stable set search_path = public, extensions as
+$$
+  with full_text as (
+    select
+      d.id,
+      ts_rank_cd(d.content_tsv, public.seo_keyword_query(query_text)) as keyword_rank,
+      row_number() over (
+        order by ts_rank_cd(d.content_tsv, public.seo_keyword_query(query_text)) desc
+      ) as rank_ix
+    from public.seo_documents as d
+    where d.workspace_id = hybrid_search_seo_documents.workspace_id
+      and d.content_tsv @@ public.seo_keyword_query(query_text)
+      and public.seo_metadata_matches(d.metadata, filter)
+    order by rank_ix
+    limit greatest(match_count, 1) * 2
+  ),
+  semantic as (
+    select
+      c.id,
+      c.distance,
+      row_number() over (order by c.distance) as rank_ix
+    from public.seo_semantic_candidates(
+      hybrid_search_seo_documents.workspace_id,
+      query_embedding,
+      hybrid_search_seo_documents.embedding_model,
+      hybrid_search_seo_documents.embedding_version,
+      filter,
+      greatest(match_count, 1) * 2
+    ) as c
+  )
+  select
+    d.id,
+    d.content,
+    d.metadata,
+    -- keyword-only matches may have no vector for the query's model yet, leaving similarity null
+    1 - coalesce(
+      semantic.distance,
+      case
+        when hybrid_search_seo_documents.embedding_model is null
+          or (d.embedding_model = hybrid_search_seo_documents.embedding_model
+            and d.embedding_version = hybrid_search_seo_documents.embedding_version)
+          then d.embedding <=> query_embedding
+        when d.embedding_next_model = hybrid_search_seo_documents.embedding_model
+          and d.embedding_next_version = hybrid_search_seo_documents.embedding_version
+          then d.embedding_next <=> query_embedding
+      end
+    ) as similarity,
+    coalesce(full_text.keyword_rank, 0)::double precision as keyword_rank,
+    coalesce(full_text_weight / (rrf_k + full_text.rank_ix), 0.0)
+      + coalesce(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) as score
+  from full_text
+  full outer join semantic on full_text.id = semantic.id
+  join public.seo_documents as d on d.id = coalesce(full_text.id, semantic.id)
+  order by score desc
+  limit greatest(match_count, 1);
+$$;
@@ -0,0 +1,64 @@
+-- After promote_seo_embeddings, an app still configured with the previous embedding model matched
+-- no rows and silently fell back to keyword-only results. Searches now fail with the model name
+-- when a workspace holds documents but none are embedded with the requested model.
+-- Deploy the new EMBEDDING_MODEL / EMBEDDING_VERSION to every app instance before promoting.
+--
+-- The embedding columns and every query_embedding argument are vector(1536). Changing dimensions
+-- cannot use the shadow column: null both columns, alter them and these function signatures to the
+-- new width, rebuild the vector indexes, then re-seed every document.
+create or replace function public.seo_semantic_candidates(
+  p_workspace text,
+  query_embedding extensions.vector(1536),
+  p_model text,
+  p_version text,
+  filter jsonb,
+  match_count integer
+) returns table (
+  id text,
+  distance double precision
+) language plpgsql stable set search_path = public, extensions as
+$$
+begin
+  if p_model is not null
+    and exists (select 1 from public.seo_documents as d where d.workspace_id = p_workspace)
+    and not exists (
+      select 1
+      from public.seo_documents as d
+      where d.workspace_id = p_workspace
+        and ((d.embedding_model = p_model and d.embedding_version = p_version)
+          or (d.embedding_next_model = p_model and d.embedding_next_version = p_version))
+    ) then
+    raise exception 'No documents in workspace % are embedded with % (version %); update EMBEDDING_MODEL and EMBEDDING_VERSION to the promoted model',
+      p_workspace, p_model, p_version;
+  end if;
+
+  return query
+  select c.id, c.distance
+  from (
+    (
+      select d.id, d.embedding <=> query_embedding as distance
+      from public.seo_documents as d
+      where d.workspace_id = p_workspace
+        and (p_model is null or (d.embedding_model = p_model and d.embedding_version = p_version))
+        and public.seo_metadata_matches(d.metadata, filter)
+      order by d.embedding <=> query_embedding
+      limit match_count
+    )
+    union all
+    (
+      select d.id, d.embedding_next <=> query_embedding as distance
+      from public.seo_documents as d
+      where d.workspace_id = p_workspace
+        and p_model is not null
+        and d.embedding_next_model = p_model
+        and d.embedding_next_version = p_version
+        and not (d.embedding_model = p_model and d.embedding_version = p_version)
+        and public.seo_metadata_matches(d.metadata, filter)
+      order by d.embedding_next <=> query_embedding
+      limit match_count
+    )
+  ) as c
+  order by c.distance
+  limit match_count;
+end;
+$$;
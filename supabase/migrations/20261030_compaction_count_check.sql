@@ -0,0 +1,25 @@
+-- compact-snapshots passes the number of documents it archived; the delete rolls back when it
+-- would remove a different number, so documents missing from the archive are never lost.
+drop function if exists public.delete_serp_snapshots(text[]);
+
+create function public.delete_serp_snapshots(p_ids text[], p_expected_documents bigint)
+returns bigint
+language plpgsql set search_path = public as
+$$
+declare
+  v_documents bigint;
+begin
+  delete from public.seo_documents as d
+  where d.metadata->>'serp_id' = any(p_ids);
+  get diagnostics v_documents = row_count;
+
+  if v_documents <> p_expected_documents then
+    raise exception 'Expected to delete % archived documents, found %', p_expected_documents, v_documents;
+  end if;
+
+  delete from public.serp_snapshots as s
+  where s.id = any(p_ids);
+
+  return v_documents;
+end;
+$$;
@@ -0,0 +1,40 @@
+-- The fingerprint backfill in 20261024 copied serp_results.url as scraped, while the pipeline
+-- fingerprints with normalizeUrl (utils/urlUtils.ts). The first delta after a backfilled baseline
+-- then reported the same page as lost and new whenever the two forms differed.
+
+-- SQL counterpart of normalizeUrl: lowercase scheme and host, no fragment, and no trailing slash
+-- except on the root path or before a query string
+create or replace function public.seo_normalize_url(p_url text)
+returns text language plpgsql immutable as
+$$
+declare
+  v_parts text[] := regexp_match(split_part(p_url, '#', 1), '^([a-zA-Z][a-zA-Z0-9+.-]*://)([^/?]*)(.*)$');
+  v_rest text;
+begin
+  if v_parts is null then
+    return btrim(p_url);
+  end if;
+  v_rest := case when v_parts[3] = '' or left(v_parts[3], 1) = '?' then '/' || v_parts[3] else v_parts[3] end;
+  if v_rest <> '/' and right(v_rest, 1) = '/' and position('?' in v_rest) = 0 then
+    v_rest := left(v_rest, -1);
+  end if;
+  return lower(v_parts[1]) || lower(v_parts[2]) || v_rest;
+end;
+$$;
+
+-- Idempotent, so fingerprints the pipeline wrote are left as they are
+update public.serp_snapshots as s
+set fingerprint = jsonb_set(s.fingerprint, '{organic}', (
+  select coalesce(
+    jsonb_agg(
+      case when o.result ? 'url'
+        then jsonb_set(o.result, '{url}', to_jsonb(public.seo_normalize_url(o.result->>'url')))
+        else o.result
+      end
+      order by o.ordinality
+    ),
+    '[]'::jsonb
+  )
+  from jsonb_array_elements(s.fingerprint->'organic') with ordinality as o(result, ordinality)
+))
+where jsonb_typeof(s.fingerprint->'organic') = 'array';
@@ -0,0 +1,19 @@
+-- Fingerprints with the query, market and capture time of their snapshot. Trend analysis reads every
+-- snapshot in its window from here, deltas included, instead of replaying documents and change events.
+create or replace view public.serp_snapshot_fingerprints
+with (security_invoker = true) as
+select
+  s.id as snapshot_id,
+  s.captured_at,
+  s.kind as snapshot_kind,
+  c.name as cluster,
+  q.query,
+  q.engine,
+  q.device,
+  q.gl,
+  q.hl,
+  s.fingerprint,
+  s.workspace_id
+from public.serp_snapshots s
+join public.serp_queries q on q.id = s.query_id
+left join public.serp_clusters c on c.id = q.cluster_id;
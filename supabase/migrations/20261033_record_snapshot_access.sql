@@ -0,0 +1,69 @@
+-- record_serp_snapshot rewrites a snapshot's history and runs as its owner, so only the pipeline
+-- (service role) may call it, and it refuses snapshots or previous snapshots of another workspace.
+create or replace function public.record_serp_snapshot(
+  p_meta jsonb,
+  p_kind text,
+  p_previous_id text,
+  p_fingerprint jsonb,
+  p_events jsonb
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_snapshot_id text := p_meta->>'serp_id';
+  v_workspace text := coalesce(nullif(p_meta->>'workspace', ''), 'default');
+  v_existing_workspace text;
+  v_baseline_id text;
+begin
+  select s.workspace_id into v_existing_workspace
+  from public.serp_snapshots s
+  where s.id = v_snapshot_id;
+  if found and v_existing_workspace <> v_workspace then
+    raise exception 'Snapshot % belongs to workspace %, not %', v_snapshot_id, v_existing_workspace, v_workspace;
+  end if;
+
+  if p_previous_id is not null and not exists (
+    select 1 from public.serp_snapshots s where s.id = p_previous_id and s.workspace_id = v_workspace
+  ) then
+    raise exception 'Previous snapshot % is not in workspace %', p_previous_id, v_workspace;
+  end if;
+
+  perform public.upsert_serp_snapshot(p_meta);
+
+  if p_kind = 'baseline' then
+    v_baseline_id := v_snapshot_id;
+  else
+    select coalesce(s.baseline_id, s.id) into v_baseline_id
+    from public.serp_snapshots s
+    where s.id = p_previous_id;
+  end if;
+
+  update public.serp_snapshots
+  set kind = p_kind,
+      previous_id = p_previous_id,
+      baseline_id = v_baseline_id,
+      fingerprint = p_fingerprint
+  where id = v_snapshot_id;
+
+  delete from public.serp_change_events where snapshot_id = v_snapshot_id;
+
+  insert into public.serp_change_events (
+    snapshot_id, previous_id, event_type, url, domain, feature, previous_position, position
+  )
+  select
+    v_snapshot_id,
+    p_previous_id,
+    e->>'type',
+    e->>'url',
+    e->>'domain',
+    e->>'feature',
+    (e->>'previous_position')::integer,
+    (e->>'position')::integer
+  from jsonb_array_elements(coalesce(p_events, '[]'::jsonb)) as e;
+end;
+$$;
+
+revoke execute on function public.record_serp_snapshot(jsonb, text, text, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.record_serp_snapshot(jsonb, text, text, jsonb, jsonb) to service_role;
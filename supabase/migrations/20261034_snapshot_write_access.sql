@@ -0,0 +1,8 @@
+-- These functions run as their owner and take the workspace from the caller's metadata, so they
+-- must not be callable through the API. The document trigger and record_serp_snapshot still call
+-- them as the owner; only the service role may call them directly.
+revoke execute on function public.upsert_serp_snapshot(jsonb) from public, anon, authenticated;
+grant execute on function public.upsert_serp_snapshot(jsonb) to service_role;
+
+revoke execute on function public.sync_serp_document() from public, anon, authenticated;
+grant execute on function public.sync_serp_document() to service_role;
@@ -0,0 +1,137 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { auditPage, buildAuditBenchmark, formatAuditReport } from '../utils/auditUtils';
+import { extractPageStructure } from '../utils/htmlUtils';
+import type { AuditBenchmark, SerpMetadata } from '../src/types';
+
+const PAGE_URL = 'https://example.com/blog/outdoor-ovens';
+const QUERY = 'best pizza oven';
+const html = readFileSync(join(process.cwd(), 'assets', 'fixtures', 'auditPage.html'), 'utf-8');
+
+function metadata(type: string, domain: string, position?: number): SerpMetadata {
+  return {
+    workspace: 'default',
+    iso_date: '2026-03-01T08:00:00.000Z',
+    serp_features: ['peopleAlsoAsk', 'answerBox'],
+    cluster: 'ovens',
+    query: QUERY,
+    type,
+    serp_id: 'best-pizza-oven-2026-03-01',
+    engine: 'google',
+    device: 'desktop',
+    gl: null,
+    hl: null,
+    position,
+    domain,
+    categories: []
+  };
+}
+
+function organic(position: number, url: string, fields: string[]) {
+  return { content: [`URL: ${url}`, ...fields].join('\n'), metadata: metadata('organic', new URL(url).hostname, position) };
+}
+
+// Stored documents of one snapshot, written the way textualizeSerpFeatures lays out page fields
+const DOCUMENTS = [
+  organic(1, 'https://reviews.example/best/pizza-ovens', [
+    'Page H1: Best Pizza Ovens of 2026',
+    'Page H2: How we tested pizza ovens; Gas vs wood fired ovens; Written by Sam Baker',
+    'Schema Types: Review, FAQPage',
+    'FAQ: Are pizza ovens worth it?',
+    'Word Count: 2400'
+  ]),
+  organic(2, 'https://ovens.example/reviews/pizza-oven-guide', [
+    'Page H1: The Best Pizza Oven',
+    'Page H2: How we tested; Gas vs wood fired',
+    'Schema Types: Review',
+    'Word Count: 2000'
+  ]),
+  organic(3, 'https://kitchen.example/best-pizza-ovens', [
+    'Page H1: Best pizza ovens',
+    'Page H2: Gas vs wood fired pizza ovens; How we tested; Share this',
+    'Word Count: 1800'
+  ]),
+  organic(7, PAGE_URL, ['Page H1: Our Favourite Outdoor Ovens', 'Word Count: 60']),
+  { content: 'Question: Are pizza ovens worth it?', metadata: metadata('peopleAlsoAsk', 'google.com') },
+  { content: 'Question: What is the best pizza oven?', metadata: metadata('peopleAlsoAsk', 'google.com') }
+];
+
+function benchmark(): AuditBenchmark {
+  const built = buildAuditBenchmark(QUERY, DOCUMENTS);
+  assert.ok(built);
+  return built;
+}
+
+test('reads the benchmark from the latest snapshot of the query', () => {
+  const { competitors, paaQuestions, serpFeatures } = benchmark();
+  assert.deepEqual(competitors.map(c => [c.position, c.domain, c.contentType]), [
+    [1, 'reviews.example', 'review'],
+    [2, 'ovens.example', 'review'],
+    [3, 'kitchen.example', 'review'],
+    [7, 'example.com', 'article']
+  ]);
+  assert.deepEqual(competitors[0].faqQuestions, ['Are pizza ovens worth it?']);
+  assert.deepEqual(paaQuestions, ['Are pizza ovens worth it?', 'What is the best pizza oven?']);
+  assert.deepEqual(serpFeatures, ['peopleAlsoAsk', 'answerBox']);
+});
+
+test('compares the page with the other top results, not with itself', () => {
+  const report = auditPage(extractPageStructure(html, PAGE_URL), benchmark());
+  assert.equal(report.currentPosition, 7);
+  assert.equal(report.competitorCount, 3);
+  assert.deepEqual(report.contentType, { page: 'article', dominant: 'review', share: 1 });
+  assert.deepEqual(report.questionsAnswered, { answered: 0, total: 2 });
+  assert.equal(report.wordCount.median, 2000);
+});
+
+test('lists the gaps of the fixture page, highest score first', () => {
+  const report = auditPage(extractPageStructure(html, PAGE_URL), benchmark());
+  const scores = report.gaps.map(gap => gap.score);
+  assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+
+  const findings = report.gaps.map(gap => `${gap.priority} ${gap.category}: ${gap.finding}`);
+  assert.deepEqual(findings, [
+    'high headings: No section on "How we tested pizza ovens" (covered by 3 of 3 top results)',
+    'high headings: No section on "Gas vs wood fired ovens" (covered by 3 of 3 top results)',
+    'high content_type: The page is a article page, while 3 of 3 top results are review pages',
+    'high targeting: Neither the title nor the H1 mentions the query "best pizza oven"',
+    'high features: No Review markup (used by 2 of 2 top results with structured data)',
+    'high headings: No section on "Best Pizza Ovens of 2026" (covered by 2 of 3 top results)',
+    'high depth: 68 words against a median of 2000 among the top results',
+    'medium questions: Does not answer the People Also Ask question "Are pizza ovens worth it?"',
+    'medium questions: Does not answer the People Also Ask question "What is the best pizza oven?"',
+    'medium features: The SERP shows People Also Ask, but the page has no FAQ section or FAQPage markup',
+    'medium features: The SERP shows a direct answer, but no heading asks the query so a short answer can follow it',
+    'medium features: No FAQPage markup (used by 1 of 2 top results with structured data)'
+  ]);
+});
+
+test('ignores bylines and share widgets when grouping competitor headings', () => {
+  const report = auditPage(extractPageStructure(html, PAGE_URL), benchmark());
+  const headingGaps = report.gaps.filter(gap => gap.category === 'headings');
+  assert.ok(headingGaps.every(gap => !/written by|share/i.test(gap.finding)));
+  assert.deepEqual(headingGaps[0].evidence, ['reviews.example', 'ovens.example', 'kitchen.example']);
+  assert.deepEqual(report.headingCoverage, { covered: 0, total: 3 });
+});
+
+test('a page that answers the questions and targets the query loses those gaps', () => {
+  const page = extractPageStructure(html.replace(
+    '<h2>Final thoughts</h2>',
+    '<h2>What is the best pizza oven?</h2><h2>Are pizza ovens worth it?</h2>'
+  ).replace(/Our Favourite Outdoor Ovens/g, 'The Best Pizza Oven'), PAGE_URL);
+  const report = auditPage(page, benchmark());
+
+  assert.deepEqual(report.questionsAnswered, { answered: 2, total: 2 });
+  assert.ok(!report.gaps.some(gap => gap.category === 'targeting' || gap.category === 'questions'));
+  assert.ok(!report.gaps.some(gap => gap.finding.startsWith('The SERP shows')));
+});
+
+test('the same page and benchmark always give the same report', () => {
+  const page = extractPageStructure(html, PAGE_URL);
+  const first = formatAuditReport(auditPage(page, benchmark()));
+  assert.equal(formatAuditReport(auditPage(page, benchmark())), first);
+  assert.match(first, /^Audited URL: https:\/\/example\.com\/blog\/outdoor-ovens$/m);
+  assert.match(first, /^Current position: 7$/m);
+});
@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { serpKey } from '../utils/clusterUtils';
+
+test('the default market keeps the plain query key', () => {
+  assert.equal(serpKey('Pizza Oven'), 'pizza_oven');
+  assert.equal(serpKey('pizza oven', { engine: 'google', device: 'desktop' }), 'pizza_oven');
+});
+
+test('markets that share a code get different keys', () => {
+  assert.equal(serpKey('pizza oven', { gl: 'de' }), 'pizza_oven_gl-de');
+  assert.equal(serpKey('pizza oven', { hl: 'de' }), 'pizza_oven_hl-de');
+  assert.notEqual(serpKey('pizza oven', { engine: 'bing' }), serpKey('pizza oven', { gl: 'bing' }));
+  assert.equal(serpKey('pizza near me', { gl: 'it', hl: 'it', device: 'mobile' }), 'pizza_near_me_gl-it_hl-it_device-mobile');
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractPageStructure } from '../utils/htmlUtils';
+
+const PAGE_URL = 'https://example.com/recipes/neapolitan-dough';
+const html = readFileSync(join(process.cwd(), 'assets', 'fixtures', 'recipePage.html'), 'utf-8');
+
+test('reads the head of the page', () => {
+  const page = extractPageStructure(html, PAGE_URL);
+  assert.equal(page.status, 'fetched');
+  assert.equal(page.title, 'Neapolitan Pizza Dough | Example Kitchen');
+  assert.equal(page.metaDescription, 'A 65% hydration dough for wood-fired ovens.');
+  assert.equal(page.canonical, 'https://example.com/recipes/neapolitan-dough');
+});
+
+test('keeps the heading outline in document order and drops empty headings', () => {
+  const page = extractPageStructure(html, PAGE_URL);
+  assert.deepEqual(page.headings.map(h => `${h.level}:${h.text}`), [
+    '1:Neapolitan Pizza Dough',
+    '2:Ingredients',
+    '2:Method',
+    '3:Kneading',
+    '2:How long should the dough rest?'
+  ]);
+  assert.equal(page.h1, 'Neapolitan Pizza Dough');
+  assert.deepEqual(page.h3, ['Kneading']);
+});
+
+test('reads schema types, FAQ and HowTo steps from JSON-LD and microdata, skipping invalid JSON-LD', () => {
+  const page = extractPageStructure(html, PAGE_URL);
+  for (const type of ['Recipe', 'FAQPage', 'Question', 'Article']) {
+    assert.ok(page.schemaTypes.includes(type), `missing ${type}`);
+  }
+  assert.deepEqual(page.faq, [
+    { question: 'What flour should I use?', answer: 'Tipo 00 flour.' },
+    { question: 'How long should the dough rest?', answer: 'At least 24 hours in the fridge.' }
+  ]);
+  assert.deepEqual(page.howTo, [{
+    name: 'Neapolitan Pizza Dough',
+    steps: ['Dissolve the yeast in water.', 'Knead for 10 minutes.', 'Rest for 24 hours.']
+  }]);
+});
+
+test('counts links by host, ignoring mailto links and www.', () => {
+  assert.deepEqual(extractPageStructure(html, PAGE_URL).links, { internal: 2, external: 1 });
+});
+
+test('counts only visible words', () => {
+  const page = extractPageStructure('<html><body><p>one two three</p><script>four five</script><style>p{}</style></body></html>', PAGE_URL);
+  assert.equal(page.wordCount, 3);
+});
+
+test('returns empty structure for a page without markup', () => {
+  const page = extractPageStructure('', PAGE_URL);
+  assert.equal(page.title, null);
+  assert.equal(page.h1, null);
+  assert.deepEqual(page.headings, []);
+  assert.equal(page.wordCount, 0);
+  assert.deepEqual(page.links, { internal: 0, external: 0 });
+});
@@ -0,0 +1,187 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createPageFetcher } from '../utils/pageFetcher';
+import { writeCachedPage } from '../utils/pageCache';
+import { sleep } from '../utils/fetchUtils';
+import { createPublicAgent } from '../utils/networkUtils';
+
+const PAGE_HTML = '<html><head><title>Oven guide</title></head><body><h1>Pizza ovens</h1></body></html>';
+const originalFetch = globalThis.fetch;
+// Every test host resolves to a public address without touching DNS
+const publicHost = async () => ['93.184.216.34'];
+let cacheDir: string;
+
+type Route = (url: URL) => Promise<Response> | Response;
+
+// Serves requests from the route instead of the network and records the requested URLs
+function mockFetch(route: Route): string[] {
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: string | URL) => {
+    const url = new URL(input);
+    requested.push(url.href);
+    return route(url);
+  }) as typeof fetch;
+  return requested;
+}
+
+function html(body = PAGE_HTML): Response {
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/html' } });
+}
+
+beforeEach(async () => {
+  cacheDir = await mkdtemp(join(tmpdir(), 'page-cache-'));
+});
+
+afterEach(async () => {
+  globalThis.fetch = originalFetch;
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+test('replay mode parses cached pages and never touches the network', async () => {
+  const requested = mockFetch(() => html());
+  await writeCachedPage({
+    url: 'https://example.com/ovens',
+    finalUrl: 'https://example.com/ovens',
+    fetchedAt: '2026-01-01T00:00:00.000Z',
+    contentType: 'text/html',
+    etag: null,
+    lastModified: null,
+    html: PAGE_HTML
+  }, cacheDir);
+  const fetcher = createPageFetcher({ mode: 'replay', cacheDir });
+
+  const cached = await fetcher.fetchPage('https://example.com/ovens');
+  assert.equal(cached.status, 'fetched');
+  assert.equal(cached.status === 'fetched' && cached.h1, 'Pizza ovens');
+
+  const missing = await fetcher.fetchPage('https://example.com/other');
+  assert.deepEqual(missing, { url: 'https://example.com/other', status: 'not_fetched', reason: 'Not in page cache (replay mode)' });
+  assert.deepEqual(requested, []);
+});
+
+test('a missing robots.txt allows fetching', async () => {
+  mockFetch(url => (url.pathname === '/robots.txt' ? new Response('', { status: 404 }) : html()));
+  const page = await createPageFetcher({ cacheDir, hostDelayMs: 0, lookup: publicHost }).fetchPage('https://example.com/ovens');
+  assert.equal(page.status, 'fetched');
+});
+
+test('a robots.txt server error disallows the host until robots.txt is asked again', async () => {
+  let robotsStatus = 503;
+  const requested = mockFetch(url => (url.pathname === '/robots.txt' ? new Response('', { status: robotsStatus }) : html()));
+  const fetcher = createPageFetcher({ cacheDir, hostDelayMs: 0, lookup: publicHost });
+
+  const blocked = await fetcher.fetchPage('https://example.com/ovens');
+  assert.deepEqual(blocked, { url: 'https://example.com/ovens', status: 'not_fetched', reason: 'robots.txt unavailable (HTTP 503)' });
+
+  robotsStatus = 200;
+  const page = await fetcher.fetchPage('https://example.com/ovens');
+  assert.equal(page.status, 'fetched');
+  assert.equal(requested.filter(url => url.endsWith('/robots.txt')).length, 2);
+});
+
+test('disallowed paths are not fetched', async () => {
+  const requested = mockFetch(url => (url.pathname === '/robots.txt' ? new Response('User-agent: *\nDisallow: /private') : html()));
+  const page = await createPageFetcher({ cacheDir, hostDelayMs: 0, lookup: publicHost }).fetchPage('https://example.com/private/page');
+  assert.equal(page.status === 'not_fetched' && page.reason, 'Disallowed by robots.txt');
+  assert.ok(!requested.includes('https://example.com/private/page'));
+});
+
+test('requests to one host stay spaced after waiting for a concurrency slot', async () => {
+  const starts = new Map<string, number>();
+  mockFetch(async url => {
+    if (url.pathname === '/robots.txt') return new Response('', { status: 404 });
+    starts.set(url.href, Date.now());
+    // The first two requests hold both slots, so the two same-host requests queue behind them
+    if (url.hostname !== 'example.com') await sleep(150);
+    return html();
+  });
+  const fetcher = createPageFetcher({ cacheDir, concurrency: 2, hostDelayMs: 100, lookup: publicHost });
+
+  await Promise.all([
+    fetcher.fetchPage('https://slow-one.test/a'),
+    fetcher.fetchPage('https://slow-two.test/a'),
+    fetcher.fetchPage('https://example.com/a'),
+    fetcher.fetchPage('https://example.com/b')
+  ]);
+
+  const gap = Math.abs((starts.get('https://example.com/b') ?? 0) - (starts.get('https://example.com/a') ?? 0));
+  assert.ok(gap >= 90, `same-host requests started ${gap}ms apart`);
+});
+
+test('private and loopback targets are refused before any request', async () => {
+  const requested = mockFetch(() => html());
+  const fetcher = createPageFetcher({
+    cacheDir,
+    hostDelayMs: 0,
+    lookup: async hostname => (hostname === 'intranet.example.com' ? ['10.0.0.5'] : ['93.184.216.34'])
+  });
+
+  const reasons = await Promise.all([
+    'http://127.0.0.1/admin',
+    'http://[::1]/admin',
+    'http://169.254.169.254/latest/meta-data',
+    'https://intranet.example.com/wiki',
+    'https://example.com:8443/ovens',
+    'file:///etc/passwd'
+  ].map(async url => {
+    const page = await fetcher.fetchPage(url);
+    return page.status === 'not_fetched' ? page.reason : 'fetched';
+  }));
+
+  assert.deepEqual(reasons, [
+    '127.0.0.1 resolves to non-public address 127.0.0.1',
+    '::1 resolves to non-public address ::1',
+    '169.254.169.254 resolves to non-public address 169.254.169.254',
+    'intranet.example.com resolves to non-public address 10.0.0.5',
+    'Non-default port 8443',
+    'Unsupported protocol file:'
+  ]);
+  assert.deepEqual(requested, []);
+});
+
+test('every redirect hop is checked before it is requested', async () => {
+  const requested = mockFetch(url => {
+    if (url.pathname === '/robots.txt') return new Response('', { status: 404 });
+    if (url.pathname === '/moved') return new Response(null, { status: 301, headers: { location: '/ovens' } });
+    if (url.pathname === '/escape') return new Response(null, { status: 302, headers: { location: 'http://127.0.0.1/admin' } });
+    return html();
+  });
+  const fetcher = createPageFetcher({ cacheDir, hostDelayMs: 0, lookup: publicHost });
+
+  const moved = await fetcher.fetchPage('https://example.com/moved');
+  assert.equal(moved.status, 'fetched');
+  assert.equal(moved.status === 'fetched' && moved.h1, 'Pizza ovens');
+
+  const escaped = await fetcher.fetchPage('https://example.com/escape');
+  assert.equal(escaped.status === 'not_fetched' && escaped.reason, '127.0.0.1 resolves to non-public address 127.0.0.1');
+  assert.ok(!requested.some(url => url.startsWith('http://127.0.0.1')));
+});
+
+test('connections resolve the host again and refuse a rebound non-public address', async () => {
+  const requested: string[] = [];
+  const server = createServer((request, response) => {
+    requested.push(request.url ?? '');
+    response.end(PAGE_HTML);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  // The host passed the earlier check, and now answers with the loopback server
+  const dispatcher = createPublicAgent(async () => ['127.0.0.1']);
+  const init = { redirect: 'manual' as const, dispatcher };
+
+  try {
+    await assert.rejects(fetch(`http://rebind.test:${port}/admin`, init), (err: { cause?: Error }) => {
+      assert.equal(err.cause?.message, 'rebind.test resolves to non-public address 127.0.0.1');
+      return true;
+    });
+    assert.deepEqual(requested, []);
+  } finally {
+    server.close();
+    await dispatcher.close();
+  }
+});
@@ -0,0 +1,140 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createLocalStorage } from '../src/storage';
+
+// Feature hashing needs no API key, and the provider is created on first use
+process.env.EMBEDDING_PROVIDER = 'local';
+
+const WEEK_ONE = '2026-01-01T08:00:00.000Z';
+const WEEK_TWO = '2026-01-08T08:00:00.000Z';
+
+function entry(id: string, text: string, metadata: Record<string, unknown>) {
+  return {
+    id,
+    text_blob: text,
+    metadata: {
+      iso_date: WEEK_ONE,
+      serp_features: [],
+      cluster: 'ovens',
+      query: 'pizza oven',
+      type: 'organic',
+      serp_id: 'pizza-oven-1',
+      categories: [],
+      ...metadata
+    }
+  };
+}
+
+// The first two entries predate workspaces and markets, like processed.json files from before them
+const ENTRIES = [
+  entry('a', 'URL: https://a.com/ovens\nWood fired pizza oven buying guide', {
+    position: 1, domain: 'a.com', serp_features: ['answerBox']
+  }),
+  entry('b', 'URL: https://b.com/gas\nGas oven reviews for the garden', {
+    position: 2, domain: 'b.com', serp_features: ['answerBox']
+  }),
+  entry('c', 'URL: https://b.com/gas\nGas oven reviews for the garden', {
+    workspace: 'default', engine: 'google', device: 'desktop', gl: null, hl: null,
+    position: 1, domain: 'b.com', iso_date: WEEK_TWO, serp_id: 'pizza-oven-2'
+  }),
+  entry('d', 'URL: https://c.com/pizza\nPizza oven recipes', {
+    workspace: 'default', engine: 'google', device: 'mobile', gl: 'us', hl: 'en',
+    position: 1, domain: 'c.com', iso_date: WEEK_TWO, serp_id: 'pizza-oven-mobile'
+  }),
+  entry('e', 'URL: https://acme.com/pizza\nPizza oven guide from another client', {
+    workspace: 'acme', engine: 'google', device: 'desktop', gl: null, hl: null,
+    position: 1, domain: 'acme.com', serp_id: 'acme:pizza-oven-1'
+  })
+];
+
+let dir: string;
+let storePath: string;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'local-store-'));
+  storePath = join(dir, 'processed.json');
+  await writeFile(storePath, JSON.stringify(ENTRIES));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('entries without a workspace or market get the defaults', async () => {
+  const [legacy] = await createLocalStorage(storePath).findDocuments({ workspace: 'default', queries: ['pizza oven'], limit: 1 });
+  assert.equal(legacy.id, 'a');
+  assert.equal(legacy.metadata.workspace, 'default');
+  assert.deepEqual(
+    { engine: legacy.metadata.engine, device: legacy.metadata.device, gl: legacy.metadata.gl, hl: legacy.metadata.hl },
+    { engine: 'google', device: 'desktop', gl: null, hl: null }
+  );
+});
+
+test('every read is confined to its workspace', async () => {
+  const storage = createLocalStorage(storePath);
+  const acme = await storage.findDocuments({ workspace: 'acme', limit: 10 });
+  assert.deepEqual(acme.map(doc => doc.id), ['e']);
+
+  const results = await storage.hybridSearch('pizza oven guide', { workspace: 'default', k: 10 });
+  assert.ok(results.every(([doc]) => doc.metadata.workspace === 'default'));
+  assert.deepEqual(await storage.clusterQueries('acme', 'ovens'), ['pizza oven']);
+  assert.equal(await storage.hasCluster('acme', 'grills'), false);
+});
+
+test('hybrid search ranks documents matching more query terms first without requiring all of them', async () => {
+  const results = await createLocalStorage(storePath).hybridSearch('wood fired pizza oven', {
+    workspace: 'default',
+    k: 10,
+    semanticWeight: 0
+  });
+  const ranked = results.map(([doc]) => [doc.id, doc.metadata.keyword_rank as number] as const);
+
+  assert.equal(ranked[0][0], 'a');
+  const recipes = ranked.find(([id]) => id === 'd');
+  assert.ok(recipes && recipes[1] > 0, 'a document with only some of the terms still matches');
+  assert.ok(ranked[0][1] > recipes[1]);
+  assert.ok(results.every(([doc]) => typeof doc.metadata.retrieval_score === 'number'));
+});
+
+test('findDocuments filters by market, position and capture time and orders newest first', async () => {
+  const storage = createLocalStorage(storePath);
+
+  const mobile = await storage.findDocuments({ workspace: 'default', market: { device: 'mobile' }, limit: 10 });
+  assert.deepEqual(mobile.map(doc => doc.id), ['d']);
+
+  const desktopTop = await storage.findDocuments({
+    workspace: 'default',
+    market: { device: 'desktop' },
+    maxPosition: 1,
+    newestFirst: true,
+    limit: 10
+  });
+  assert.deepEqual(desktopTop.map(doc => doc.id), ['c', 'a']);
+
+  const secondWeek = await storage.findDocuments({ workspace: 'default', capturedFrom: WEEK_TWO, orderByPosition: true, limit: 10 });
+  assert.deepEqual(secondWeek.map(doc => doc.id).sort(), ['c', 'd']);
+});
+
+test('aggregates domains, features and the snapshot range of a scope', async () => {
+  const storage = createLocalStorage(storePath);
+  const scope = { workspace: 'default', market: { device: 'desktop' as const } };
+
+  const domains = await storage.domainStats(scope, 10);
+  assert.deepEqual(domains.map(row => [row.domain, row.results, row.avg_position, row.best_position]), [
+    ['b.com', 2, 1.5, 1],
+    ['a.com', 1, 1, 1]
+  ]);
+
+  assert.deepEqual(await storage.featureFrequency(scope), [{ feature: 'answerBox', snapshots: 1, share: 0.5 }]);
+  assert.deepEqual(await storage.snapshotRange('default'), { earliest: WEEK_ONE, latest: WEEK_TWO });
+  assert.equal(await storage.snapshotRange('nobody'), null);
+});
+
+test('a missing store file points at preprocess and can be retried', async () => {
+  const storage = createLocalStorage(join(dir, 'missing.json'));
+  await assert.rejects(storage.findDocuments({ workspace: 'default', limit: 1 }), /npm run preprocess/);
+  await assert.rejects(storage.findDocuments({ workspace: 'default', limit: 1 }), /npm run preprocess/);
+});
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeTrends, buildRankSnapshots, formatTrendReport, inclusiveEnd } from '../utils/trendAnalysis';
+import type { FingerprintResult, SerpDevice, SerpMetadata, SnapshotFingerprintRow } from '../src/types';
+
+const QUERY = 'pizza oven';
+const WINDOW = { start: '2025-12-20', end: '2026-01-31' };
+const A = { url: 'https://a.com/ovens', domain: 'a.com' };
+const B = { url: 'https://b.com/best', domain: 'b.com' };
+const C = { url: 'https://c.com/guide', domain: 'c.com' };
+const D = { url: 'https://d.com/reviews', domain: 'd.com' };
+
+function ranked(...results: { url: string; domain: string }[]): FingerprintResult[] {
+  return results.map((result, index) => ({ ...result, position: index + 1 }));
+}
+
+function fingerprint(id: string, capturedAt: string, organic: FingerprintResult[], device: SerpDevice = 'desktop'): SnapshotFingerprintRow {
+  return {
+    snapshot_id: id,
+    captured_at: capturedAt,
+    query: QUERY,
+    engine: 'google',
+    device,
+    gl: null,
+    hl: null,
+    fingerprint: { organic, features: [] }
+  };
+}
+
+function document(serpId: string, isoDate: string, result: FingerprintResult) {
+  const metadata: SerpMetadata = {
+    workspace: 'default',
+    iso_date: isoDate,
+    serp_features: [],
+    cluster: 'ovens',
+    query: QUERY,
+    type: 'organic',
+    serp_id: serpId,
+    engine: 'google',
+    device: 'desktop',
+    gl: null,
+    hl: null,
+    position: result.position,
+    domain: result.domain,
+    categories: []
+  };
+  return { content: `URL: ${result.url}\nTitle: ${result.domain}`, metadata };
+}
+
+// A baseline seeded before fingerprints existed, a fingerprinted baseline, a delta that changed nothing,
+// a delta that did, and the same query on mobile
+const FINGERPRINTS = [
+  fingerprint('desktop-2', '2026-01-01T00:00:00.000Z', ranked(A, B, C)),
+  fingerprint('desktop-3', '2026-01-08T00:00:00.000Z', ranked(A, B, C)),
+  fingerprint('desktop-4', '2026-01-15T00:00:00.000Z', ranked(B, A, D)),
+  fingerprint('mobile-1', '2026-01-08T00:00:00.000Z', ranked(C), 'mobile'),
+  { ...fingerprint('unfingerprinted', '2025-12-25T00:00:00.000Z', []), fingerprint: null }
+];
+const DOCUMENTS = [
+  ...ranked(A, B, C).map(result => document('desktop-1', '2025-12-25T00:00:00.000Z', result)),
+  // Documents of a fingerprinted snapshot are ignored in favour of its fingerprint
+  document('desktop-2', '2026-01-01T00:00:00.000Z', { ...D, position: 1 })
+];
+
+test('reads every snapshot from its fingerprint, and from documents only without one', () => {
+  const snapshots = buildRankSnapshots(FINGERPRINTS, DOCUMENTS);
+  assert.deepEqual(snapshots.map(s => [s.id, s.market.device, s.source]), [
+    ['desktop-1', 'desktop', 'documents'],
+    ['desktop-2', 'desktop', 'fingerprint'],
+    ['desktop-3', 'desktop', 'fingerprint'],
+    ['desktop-4', 'desktop', 'fingerprint'],
+    ['mobile-1', 'mobile', 'fingerprint']
+  ]);
+  assert.deepEqual(snapshots[0].results, ranked(A, B, C));
+  assert.deepEqual(snapshots[1].results, ranked(A, B, C));
+});
+
+test('keeps each market of a query in its own history', () => {
+  const report = analyzeTrends(buildRankSnapshots(FINGERPRINTS, DOCUMENTS), WINDOW, 'ovens');
+  assert.equal(report.snapshots, 5);
+  assert.equal(report.documentSnapshots, 1);
+  assert.deepEqual(report.queries.map(q => [q.query, q.market, q.snapshots]), [
+    [QUERY, 'google, desktop', 4],
+    [QUERY, 'google, mobile', 1]
+  ]);
+
+  const mobile = report.queries[1];
+  assert.deepEqual(mobile.domains.map(series => [series.key, series.latestPosition]), [['c.com', 1]]);
+  assert.ok(report.events.every(event => event.market === 'google, desktop'));
+});
+
+test('computes positions, slopes and projections of a series', () => {
+  const [desktop] = analyzeTrends(buildRankSnapshots(FINGERPRINTS, DOCUMENTS), WINDOW).queries;
+  const a = desktop.urls.find(series => series.key === A.url);
+  assert.ok(a);
+  assert.deepEqual(a.points.map(point => point.position), [1, 1, 1, 2]);
+  assert.deepEqual(
+    { first: a.firstPosition, latest: a.latestPosition, best: a.bestPosition, average: a.averagePosition },
+    { first: 1, latest: 2, best: 1, average: 1.25 }
+  );
+  assert.equal(a.volatility, 0.43);
+  assert.equal(a.slopePerWeek, 0.3);
+  assert.equal(a.projectedPosition, 3.2);
+
+  const d = desktop.urls.find(series => series.key === D.url);
+  assert.equal(d?.observations, 1);
+  assert.equal(d?.projectedPosition, null);
+  assert.equal(desktop.churn, 0.11);
+});
+
+test('reports entries and exits between consecutive snapshots', () => {
+  const report = analyzeTrends(buildRankSnapshots(FINGERPRINTS, DOCUMENTS), WINDOW);
+  assert.deepEqual(report.events.map(event => [event.type, event.capturedAt, event.url, event.position ?? event.previous_position]), [
+    ['entry', '2026-01-15T00:00:00.000Z', D.url, 3],
+    ['exit', '2026-01-15T00:00:00.000Z', C.url, 3]
+  ]);
+});
+
+test('weights visibility by position and averages it over the histories', () => {
+  const { visibility } = analyzeTrends(buildRankSnapshots(FINGERPRINTS, DOCUMENTS), WINDOW);
+  assert.deepEqual(visibility.map(item => item.domain), ['c.com', 'a.com', 'b.com', 'd.com']);
+  const total = visibility.reduce((sum, item) => sum + item.share, 0);
+  assert.ok(Math.abs(total - 1) < 0.001, `shares add up to ${total}`);
+  assert.deepEqual(visibility.find(item => item.domain === 'c.com'), {
+    domain: 'c.com',
+    share: 0.5682,
+    firstShare: 0.5909,
+    lastShare: 0.5,
+    queries: 2
+  });
+});
+
+test('formats the report with the market of every query and event', () => {
+  const text = formatTrendReport(analyzeTrends(buildRankSnapshots(FINGERPRINTS, DOCUMENTS), WINDOW, 'ovens'));
+  assert.match(text, /^## Query "pizza oven" \(google, desktop\): 4 snapshots/m);
+  assert.match(text, /^## Query "pizza oven" \(google, mobile\): 1 snapshots/m);
+  assert.match(text, /^- \[2026-01-15\] pizza oven \(google, desktop\): https:\/\/d\.com\/reviews entered at #3$/m);
+  assert.equal(formatTrendReport(analyzeTrends(buildRankSnapshots(FINGERPRINTS, DOCUMENTS), WINDOW, 'ovens')), text);
+});
+
+test('date-only window ends include the whole day', () => {
+  assert.equal(inclusiveEnd('2026-01-31'), '2026-01-31T23:59:59.999Z');
+  assert.equal(inclusiveEnd('2026-01-31T12:00:00Z'), '2026-01-31T12:00:00Z');
+});
@@ -0,0 +1,311 @@
+import { tokenizeWords } from './stringUtils';
+import { extractCategories, extractDomain, normalizeUrl } from './urlUtils';
+import type {
+  AuditBenchmark,
+  AuditGap,
+  AuditPriority,
+  AuditReport,
+  CompetitorPage,
+  PageContentType,
+  PageStructure,
+  SerpMetadata
+} from '../src/types';
+
+const TOP_RESULTS = 10;
+// Share of a heading's or question's words another heading must contain to count as covering it
+const COVERAGE_THRESHOLD = 0.6;
+// Competitor headings this similar are the same subtopic
+const TOPIC_SIMILARITY = 0.5;
+// A subtopic is common when this share of the competitors with headings cover it (and at least two)
+const COMMON_TOPIC_SHARE = 0.3;
+const MAX_TOPIC_GAPS = 8;
+const MAX_QUESTION_GAPS = 5;
+
+// Bylines, navigation, widgets and the placeholders of pages stored before page fetching
+const NOISE_HEADING = /^(written by|by |about the author|related|you may also|share|sharing|comments?|leave a (reply|comment)|table of contents|contents|subscribe|newsletter|follow us|download|skip to|ready for more|search|menu|footer|recent posts|popular posts|categories|tags|h[1-6] unavailable)\b/i;
+
+const SCHEMA_CONTENT_TYPES: [string, PageContentType][] = [
+  ['Product', 'product'],
+  ['Recipe', 'recipe'],
+  ['Review', 'review'],
+  ['NewsArticle', 'article'],
+  ['BlogPosting', 'article'],
+  ['Article', 'article'],
+  ['HowTo', 'article']
+];
+
+const PATH_CONTENT_TYPES: [RegExp, PageContentType][] = [
+  [/^recipes?$/, 'recipe'],
+  [/^(products?|shop|store|dp|p|item|buy)$/, 'product'],
+  [/^(collections?|categor(y|ies)|c)$/, 'category'],
+  [/^(reviews?|best|top|vs|comparison|compare)$/, 'review'],
+  [/^(forums?|community|threads?|questions|discussions?)$/, 'forum'],
+  [/^(blog|guides?|how|learn|articles?|news|magazine|tips|resources|wiki)$/, 'article']
+];
+
+const FORUM_DOMAINS = /(^|\.)(reddit\.com|quora\.com|stackexchange\.com|stackoverflow\.com)$/;
+const VIDEO_DOMAINS = /(^|\.)(youtube\.com|youtu\.be|vimeo\.com|tiktok\.com)$/;
+
+function priorityOf(score: number): AuditPriority {
+  if (score >= 0.6) return 'high';
+  if (score >= 0.4) return 'medium';
+  return 'low';
+}
+
+function gap(category: AuditGap['category'], score: number, finding: string, evidence: string[] = []): AuditGap {
+  const rounded = Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+  return { category, priority: priorityOf(rounded), score: rounded, finding, evidence };
+}
+
+// Share of b's words that a contains
+function coverage(a: string[], b: string[]): number {
+  if (b.length === 0) return 0;
+  const words = new Set(a);
+  return b.filter(word => words.has(word)).length / b.length;
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) return 0;
+  const words = new Set(a);
+  return new Set(b.filter(word => words.has(word))).size / union.size;
+}
+
+function contentHeadings(headings: string[]): string[] {
+  return headings.filter(heading => !NOISE_HEADING.test(heading.trim()) && tokenizeWords(heading).length > 0);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle];
+}
+
+// Coarse kind of page, from its schema types, then its host, then its URL path
+export function classifyContentType(url: string, schemaTypes: string[] = []): PageContentType {
+  for (const [schema, type] of SCHEMA_CONTENT_TYPES) {
+    if (schemaTypes.includes(schema)) return type;
+  }
+  const host = extractDomain(url).toLowerCase();
+  if (VIDEO_DOMAINS.test(host)) return 'video';
+  if (FORUM_DOMAINS.test(host)) return 'forum';
+
+  const segments = extractCategories(url).map(segment => segment.toLowerCase());
+  if (segments.length === 0) return 'homepage';
+  for (const segment of segments) {
+    for (const word of [segment, ...segment.split(/[-_.]+/)]) {
+      const match = PATH_CONTENT_TYPES.find(([pattern]) => pattern.test(word));
+      if (match) return match[1];
+    }
+  }
+  return 'other';
+}
+
+// Value of a "Label: value" line of a stored document's text (see textualizeSerpFeatures)
+export function readContentField(content: string, label: string): string | null {
+  const prefix = `${label}: `;
+  const line = content.split('\n').find(l => l.startsWith(prefix));
+  return line ? line.slice(prefix.length).trim() || null : null;
+}
+
+function readList(content: string, label: string, separator: string): string[] {
+  return (readContentField(content, label) ?? '').split(separator).map(item => item.trim()).filter(Boolean);
+}
+
+export function competitorFromDocument(content: string, metadata: SerpMetadata): CompetitorPage {
+  const url = readContentField(content, 'URL');
+  const h1 = metadata.h1 ?? readContentField(content, 'Page H1');
+  const h2 = metadata.h2 ?? readList(content, 'Page H2', ';');
+  const h3 = metadata.h3 ?? readList(content, 'Page H3', ';');
+  const schemaTypes = readList(content, 'Schema Types', ',');
+  const wordCount = Number(readContentField(content, 'Word Count'));
+
+  return {
+    url,
+    domain: metadata.domain,
+    position: metadata.position ?? 0,
+    headings: [...(h1 ? [h1] : []), ...h2, ...h3],
+    contentType: url ? classifyContentType(url, schemaTypes) : 'other',
+    schemaTypes,
+    faqQuestions: readList(content, 'FAQ', ';'),
+    wordCount: Number.isFinite(wordCount) && wordCount > 0 ? wordCount : null
+  };
+}
+
+// Top organic results and People Also Ask questions of the latest snapshot of the query among the documents
+export function buildAuditBenchmark(query: string, documents: { content: string; metadata: SerpMetadata }[]): AuditBenchmark | null {
+  const ofQuery = documents.filter(doc => doc.metadata.query === query);
+  if (ofQuery.length === 0) return null;
+  const latest = ofQuery.reduce((newest, doc) => (doc.metadata.iso_date > newest.metadata.iso_date ? doc : newest));
+  const snapshot = ofQuery.filter(doc => doc.metadata.serp_id === latest.metadata.serp_id);
+
+  const competitors = snapshot
+    .filter(doc => doc.metadata.type === 'organic' && doc.metadata.position !== undefined && doc.metadata.position <= TOP_RESULTS)
+    .sort((a, b) => (a.metadata.position ?? 0) - (b.metadata.position ?? 0))
+    .map(doc => competitorFromDocument(doc.content, doc.metadata));
+  const paaQuestions = snapshot
+    .filter(doc => doc.metadata.type === 'peopleAlsoAsk')
+    .map(doc => readContentField(doc.content, 'Question'))
+    .filter((question): question is string => Boolean(question));
+
+  return {
+    query,
+    capturedAt: latest.metadata.iso_date,
+    serpFeatures: latest.metadata.serp_features,
+    competitors,
+    paaQuestions: [...new Set(paaQuestions)]
+  };
+}
+
+interface HeadingTopic {
+  label: string;
+  tokens: string[];
+  competitors: Set<number>;
+}
+
+// Groups similar competitor headings into subtopics, each counted once per competitor
+function headingTopics(competitors: CompetitorPage[]): HeadingTopic[] {
+  const topics: HeadingTopic[] = [];
+  competitors.forEach((competitor, index) => {
+    for (const heading of contentHeadings(competitor.headings)) {
+      const tokens = tokenizeWords(heading);
+      const topic = topics.find(t => jaccard(t.tokens, tokens) >= TOPIC_SIMILARITY);
+      if (topic) {
+        topic.competitors.add(index);
+      } else {
+        topics.push({ label: heading, tokens, competitors: new Set([index]) });
+      }
+    }
+  });
+  return topics;
+}
+
+function isCovered(tokens: string[], pageHeadings: string[][]): boolean {
+  return pageHeadings.some(heading => coverage(heading, tokens) >= COVERAGE_THRESHOLD);
+}
+
+// Compares a page's structure with the top results of a query and lists what the page lacks,
+// highest priority first. Deterministic: the same page and benchmark give the same report.
+export function auditPage(page: PageStructure, benchmark: AuditBenchmark): AuditReport {
+  const gaps: AuditGap[] = [];
+  const pageHeadingTexts = contentHeadings(page.headings.map(heading => heading.text));
+  const pageHeadings = [...pageHeadingTexts, ...page.faq.map(item => item.question)].map(tokenizeWords);
+  const competitors = benchmark.competitors;
+  const ownUrl = normalizeUrl(page.url);
+  const ranking = competitors.find(c => c.url && normalizeUrl(c.url) === ownUrl);
+  const rivals = competitors.filter(c => c !== ranking);
+
+  // Query targeting
+  const queryTokens = tokenizeWords(benchmark.query);
+  const titleCoverage = coverage(tokenizeWords(page.title ?? ''), queryTokens);
+  const h1Coverage = coverage(tokenizeWords(page.h1 ?? ''), queryTokens);
+  if (Math.max(titleCoverage, h1Coverage) < 0.5) {
+    gaps.push(gap('targeting', 0.8, `Neither the title nor the H1 mentions the query "${benchmark.query}"`, [
+      `Title: ${page.title ?? '(none)'}`,
+      `H1: ${page.h1 ?? '(none)'}`
+    ]));
+  } else if (h1Coverage < 0.5) {
+    gaps.push(gap('targeting', 0.35, `The H1 does not mention the query "${benchmark.query}"`, [`H1: ${page.h1 ?? '(none)'}`]));
+  }
+
+  // Headings coverage
+  const withHeadings = rivals.filter(c => contentHeadings(c.headings).length > 0);
+  const minCompetitors = Math.max(2, Math.ceil(withHeadings.length * COMMON_TOPIC_SHARE));
+  const commonTopics = headingTopics(withHeadings).filter(topic => topic.competitors.size >= minCompetitors);
+  const missingTopics = commonTopics
+    .filter(topic => !isCovered(topic.tokens, pageHeadings))
+    .sort((a, b) => b.competitors.size - a.competitors.size);
+  for (const topic of missingTopics.slice(0, MAX_TOPIC_GAPS)) {
+    const share = topic.competitors.size / withHeadings.length;
+    const domains = [...topic.competitors].map(index => withHeadings[index].domain);
+    gaps.push(gap('headings', share, `No section on "${topic.label}" (covered by ${topic.competitors.size} of ${withHeadings.length} top results)`, domains));
+  }
+
+  // People Also Ask
+  const unanswered = benchmark.paaQuestions.filter(question => !isCovered(tokenizeWords(question), pageHeadings));
+  const hasFaq = page.faq.length > 0 || page.schemaTypes.includes('FAQPage');
+  for (const question of unanswered.slice(0, MAX_QUESTION_GAPS)) {
+    gaps.push(gap('questions', hasFaq ? 0.4 : 0.5, `Does not answer the People Also Ask question "${question}"`));
+  }
+
+  // Content type
+  const typeCounts = new Map<PageContentType, number>();
+  for (const rival of rivals) typeCounts.set(rival.contentType, (typeCounts.get(rival.contentType) ?? 0) + 1);
+  const [dominant, dominantCount] = [...typeCounts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [null, 0];
+  const dominantShare = rivals.length > 0 ? dominantCount / rivals.length : 0;
+  const pageType = classifyContentType(page.url, page.schemaTypes);
+  if (dominant && dominant !== pageType && dominantShare >= 0.5) {
+    gaps.push(gap('content_type', dominantShare, `The page is a ${pageType} page, while ${dominantCount} of ${rivals.length} top results are ${dominant} pages`,
+      rivals.filter(r => r.contentType === dominant).map(r => r.domain)));
+  }
+
+  // SERP features and structured data
+  const features = new Set(benchmark.serpFeatures);
+  if (features.has('peopleAlsoAsk') && !hasFaq && unanswered.length > 0) {
+    gaps.push(gap('features', 0.5, 'The SERP shows People Also Ask, but the page has no FAQ section or FAQPage markup'));
+  }
+  if (features.has('videoResults') && !page.schemaTypes.includes('VideoObject')) {
+    gaps.push(gap('features', 0.45, 'The SERP shows video results, but the page has no VideoObject markup'));
+  }
+  if ((features.has('answerBox') || features.has('aiOverview')) && !isCovered(queryTokens, pageHeadings)) {
+    gaps.push(gap('features', 0.45, 'The SERP shows a direct answer, but no heading asks the query so a short answer can follow it'));
+  }
+  const withSchema = rivals.filter(r => r.schemaTypes.length > 0);
+  if (withSchema.length >= 2) {
+    const schemaCounts = new Map<string, number>();
+    for (const rival of withSchema) {
+      for (const type of new Set(rival.schemaTypes)) schemaCounts.set(type, (schemaCounts.get(type) ?? 0) + 1);
+    }
+    for (const [type, count] of [...schemaCounts.entries()].sort((a, b) => b[1] - a[1])) {
+      const share = count / withSchema.length;
+      if (share >= 0.5 && !page.schemaTypes.includes(type)) {
+        gaps.push(gap('features', share * 0.8, `No ${type} markup (used by ${count} of ${withSchema.length} top results with structured data)`));
+      }
+    }
+  }
+
+  // Depth
+  const medianWords = median(rivals.map(r => r.wordCount).filter((count): count is number => count !== null));
+  if (medianWords !== null && rivals.filter(r => r.wordCount !== null).length >= 2) {
+    const ratio = page.wordCount / medianWords;
+    if (ratio < 0.8) {
+      gaps.push(gap('depth', ratio < 0.5 ? 0.65 : 0.4, `${page.wordCount} words against a median of ${medianWords} among the top results`));
+    }
+  }
+
+  return {
+    url: page.url,
+    query: benchmark.query,
+    capturedAt: benchmark.capturedAt,
+    currentPosition: ranking?.position ?? null,
+    competitorCount: rivals.length,
+    headingCoverage: { covered: commonTopics.length - missingTopics.length, total: commonTopics.length },
+    questionsAnswered: { answered: benchmark.paaQuestions.length - unanswered.length, total: benchmark.paaQuestions.length },
+    contentType: { page: pageType, dominant, share: Math.round(dominantShare * 100) / 100 },
+    wordCount: { page: page.wordCount, median: medianWords },
+    gaps: gaps.sort((a, b) => b.score - a.score)
+  };
+}
+
+// Report as prompt text; the model narrates it and must not add numbers of its own
+export function formatAuditReport(report: AuditReport): string {
+  const lines = [
+    `Audited URL: ${report.url}`,
+    `Tracked query: ${report.query} (SERP captured ${report.capturedAt})`,
+    `Current position: ${report.currentPosition ?? 'not in the top results'}`,
+    `Top results compared: ${report.competitorCount}`,
+    `Common subtopics covered: ${report.headingCoverage.covered} of ${report.headingCoverage.total}`,
+    `People Also Ask questions answered: ${report.questionsAnswered.answered} of ${report.questionsAnswered.total}`,
+    `Content type: page is ${report.contentType.page}; most top results are ${report.contentType.dominant ?? 'unknown'} (${Math.round(report.contentType.share * 100)}%)`,
+    `Word count: page ${report.wordCount.page}; median of top results ${report.wordCount.median ?? 'unknown'}`,
+    '',
+    'Gaps, highest priority first:'
+  ];
+  if (report.gaps.length === 0) lines.push('(none found)');
+  report.gaps.forEach((item, index) => {
+    const evidence = item.evidence.length > 0 ? ` [${item.evidence.join('; ')}]` : '';
+    lines.push(`${index + 1}. [${item.priority.toUpperCase()}] (${item.category}) ${item.finding}${evidence}`);
+  });
+  return lines.join('\n');
+}
@@ -1,8 +1,9 @@
-import { slugify, decodeHTMLEntities } from './stringUtils';
+import { decodeHTMLEntities } from './stringUtils';
 import { extractCategories, extractDomain } from './urlUtils';
 import { textualizeSerpFeatures } from './textUtils';
-import { fetchHeadings } from './fetchUtils';
+import { getPageFetcher } from './pageFetcher';
 import { detectFeatures } from './normalizeResponse';
+import { DEFAULT_WORKSPACE, pickMarket, resolveMarket, serpKey, workspaceKey } from './clusterUtils';
 import type { SerpData, ProcessedEntry, SerpMetadata } from '../src/types';
 
 function baseMetadata(
@@ -14,11 +15,13 @@ function baseMetadata(
   overrides: Partial<SerpMetadata> = {}
 ): SerpMetadata {
   return {
+    workspace: data.workspace ?? DEFAULT_WORKSPACE,
     query: data.searchParameters.q,
     iso_date: isoDate,
     cluster: cluster ?? null,
     serp_id: serpId,
     serp_features: serpFeatures,
+    ...resolveMarket(pickMarket(data.searchParameters)),
     type: '', // default, will be overridden
     domain: '',
     categories: [],
@@ -26,34 +29,49 @@ function baseMetadata(
   };
 }
 
+function snapshotKey(data: SerpData): string {
+  return workspaceKey(data.workspace, serpKey(data.searchParameters?.q ?? '', pickMarket(data.searchParameters ?? {})));
+}
+
+// serp_id shared by every entry built from one snapshot
+export function snapshotSerpId(data: SerpData): string {
+  return `${snapshotKey(data)}_${data.timestamp}`;
+}
+
 export async function buildSerpEntries(data: SerpData): Promise<ProcessedEntry[]> {
   const entries: ProcessedEntry[] = [];
   const isoDate = data.timestamp;
   const cluster = data.cluster ?? null;
-  const querySlug = slugify(data.searchParameters?.q ?? '');
-  const serpId = `${querySlug}_${isoDate}`;
+  const serpSlug = snapshotKey(data);
+  const serpId = snapshotSerpId(data);
   const serpFeatures = detectFeatures(data as unknown as Record<string, unknown>);
 
   if (Array.isArray(data.organic)) {
-    for (const organic of data.organic) {
-      if (!organic.link) continue;
-      const categories = extractCategories(organic.link);
-      const domain = extractDomain(organic.link);
-      const headers = await fetchHeadings(organic.link);
+    const fetcher = getPageFetcher();
+    const organicResults = data.organic.filter(organic => organic.link);
+    const pages = await Promise.all(organicResults.map(organic => fetcher.fetchPage(organic.link as string)));
+
+    for (const [index, organic] of organicResults.entries()) {
+      const link = organic.link as string;
+      const categories = extractCategories(link);
+      const domain = extractDomain(link);
+      const page = pages[index];
 
       const metadata = baseMetadata(data, isoDate, cluster, serpId, serpFeatures, {
         type: 'organic',
         position: organic.position,
         categories,
-        domain
+        domain,
+        page_status: page.status,
+        ...(page.status === 'fetched' ? { h1: page.h1, h2: page.h2, h3: page.h3 } : {})
       });
 
       const textBlob = decodeHTMLEntities(
-        textualizeSerpFeatures('organic', data, organic, metadata, headers)
+        textualizeSerpFeatures('organic', data, organic, metadata, page)
       );
 
       entries.push({
-        id: `${querySlug}_${isoDate}_organic_${organic.position}`,
+        id: `${serpSlug}_${isoDate}_organic_${organic.position}`,
         text_blob: textBlob,
         metadata
       });
@@ -70,7 +88,7 @@ export async function buildSerpEntries(data: SerpData): Promise<ProcessedEntry[]
     );
 
     entries.push({
-      id: `${querySlug}_${isoDate}_answerBox`,
+      id: `${serpSlug}_${isoDate}_answerBox`,
       text_blob: textBlob,
       metadata
     });
@@ -88,7 +106,7 @@ export async function buildSerpEntries(data: SerpData): Promise<ProcessedEntry[]
       );
 
       entries.push({
-        id: `${querySlug}_${isoDate}_peopleAlsoAsk_${i + 1}`,
+        id: `${serpSlug}_${isoDate}_peopleAlsoAsk_${i + 1}`,
         text_blob: textBlob,
         metadata
       });
@@ -107,7 +125,7 @@ export async function buildSerpEntries(data: SerpData): Promise<ProcessedEntry[]
       );
 
       entries.push({
-        id: `${querySlug}_${isoDate}_relatedSearch_${i + 1}`,
+        id: `${serpSlug}_${isoDate}_relatedSearch_${i + 1}`,
         text_blob: textBlob,
         metadata
       });
@@ -124,7 +142,7 @@ export async function buildSerpEntries(data: SerpData): Promise<ProcessedEntry[]
     );
 
     entries.push({
-      id: `${querySlug}_${isoDate}_aiOverview`,
+      id: `${serpSlug}_${isoDate}_aiOverview`,
       text_blob: textBlob,
       metadata
     });
@@ -142,7 +160,7 @@ export async function buildSerpEntries(data: SerpData): Promise<ProcessedEntry[]
       );
 
       entries.push({
-        id: `${querySlug}_${isoDate}_localResult_${localResult.position}`,
+        id: `${serpSlug}_${isoDate}_localResult_${localResult.position}`,
         text_blob: textBlob,
         metadata
       });
@@ -161,7 +179,52 @@ export async function buildSerpEntries(data: SerpData): Promise<ProcessedEntry[]
       );
 
       entries.push({
-        id: `${querySlug}_${isoDate}_videoResult_${i + 1}`,
+        id: `${serpSlug}_${isoDate}_videoResult_${i + 1}`,
+        text_blob: textBlob,
+        metadata
+      });
+    }
+  }
+
+  if (Array.isArray(data.images)) {
+    for (const image of data.images) {
+      const metadata = baseMetadata(data, isoDate, cluster, serpId, serpFeatures, {
+        type: 'imageResult',
+        position: image.position,
+        domain: extractDomain(image.link),
+        categories: extractCategories(image.link),
+        source: image.source
+      });
+
+      const textBlob = decodeHTMLEntities(
+        textualizeSerpFeatures('images', data, image, metadata)
+      );
+
+      entries.push({
+        id: `${serpSlug}_${isoDate}_imageResult_${image.position}`,
+        text_blob: textBlob,
+        metadata
+      });
+    }
+  }
+
+  if (Array.isArray(data.news)) {
+    for (const news of data.news) {
+      const metadata = baseMetadata(data, isoDate, cluster, serpId, serpFeatures, {
+        type: 'newsResult',
+        position: news.position,
+        domain: extractDomain(news.link),
+        categories: extractCategories(news.link),
+        source: news.source,
+        published_date: news.date
+      });
+
+      const textBlob = decodeHTMLEntities(
+        textualizeSerpFeatures('news', data, news, metadata)
+      );
+
+      entries.push({
+        id: `${serpSlug}_${isoDate}_newsResult_${news.position}`,
         text_blob: textBlob,
         metadata
       });
@@ -178,7 +241,7 @@ export async function buildSerpEntries(data: SerpData): Promise<ProcessedEntry[]
     );
 
     entries.push({
-      id: `${querySlug}_${isoDate}_knowledgeGraph`,
+      id: `${serpSlug}_${isoDate}_knowledgeGraph`,
       text_blob: textBlob,
       metadata
     });
@@ -0,0 +1,101 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { slugify } from './stringUtils';
+import type { ClusterDefinitions, ClusterQuery, SerpDevice, SerpMarket, SerpMetadata } from '../src/types';
+
+export const DEFAULT_CLUSTERS_PATH = join(process.cwd(), 'assets', 'clusters.json');
+export const DEFAULT_ENGINE = 'google';
+export const DEFAULT_DEVICE: SerpDevice = 'desktop';
+export const DEFAULT_WORKSPACE = 'default';
+
+const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+const SERP_DEVICES: SerpDevice[] = ['desktop', 'mobile'];
+
+function readOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : undefined;
+}
+
+export function pickMarket(source: Partial<Record<keyof SerpMarket, unknown>>): SerpMarket {
+  const device = readOptionalString(source.device);
+  const market: SerpMarket = {
+    gl: readOptionalString(source.gl),
+    hl: readOptionalString(source.hl),
+    device: SERP_DEVICES.find(d => d === device),
+    engine: readOptionalString(source.engine)
+  };
+  return Object.fromEntries(
+    Object.entries(market).filter(([, value]) => value !== undefined)
+  ) as SerpMarket;
+}
+
+function toClusterQuery(raw: unknown, cluster: string): ClusterQuery {
+  if (typeof raw === 'string') {
+    return { q: raw };
+  }
+  if (raw && typeof raw === 'object' && typeof (raw as { q?: unknown }).q === 'string') {
+    const entry = raw as Record<string, unknown>;
+    return { q: entry.q as string, ...pickMarket(entry) };
+  }
+  throw new Error(`Invalid query entry in cluster "${cluster}": ${JSON.stringify(raw)}`);
+}
+
+export function parseClusters(raw: unknown): ClusterDefinitions {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('clusters.json must map cluster names to query lists');
+  }
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, unknown>).map(([cluster, queries]) => {
+      if (!Array.isArray(queries)) {
+        throw new Error(`Cluster "${cluster}" must be an array of queries`);
+      }
+      return [cluster, queries.map(q => toClusterQuery(q, cluster))];
+    })
+  );
+}
+
+export async function loadClusters(path = DEFAULT_CLUSTERS_PATH): Promise<ClusterDefinitions> {
+  return parseClusters(JSON.parse(await readFile(path, 'utf-8')));
+}
+
+export function resolveMarket(market: SerpMarket = {}): Pick<SerpMetadata, 'engine' | 'device' | 'gl' | 'hl'> {
+  return {
+    engine: market.engine ?? DEFAULT_ENGINE,
+    device: market.device ?? DEFAULT_DEVICE,
+    gl: market.gl ?? null,
+    hl: market.hl ?? null
+  };
+}
+
+// Default engine/device are left out so snapshots scraped before markets existed keep their ids.
+// Each part is labeled, so a country and a language with the same code never share a key.
+export function marketKey(market: SerpMarket = {}): string {
+  const { engine, device, gl, hl } = resolveMarket(market);
+  return [
+    ['engine', engine !== DEFAULT_ENGINE ? engine : null],
+    ['gl', gl],
+    ['hl', hl],
+    ['device', device !== DEFAULT_DEVICE ? device : null]
+  ]
+    .filter((part): part is [string, string] => Boolean(part[1]))
+    .map(([label, value]) => `${label}-${slugify(value)}`)
+    .join('_');
+}
+
+export function serpKey(query: string, market: SerpMarket = {}): string {
+  const key = marketKey(market);
+  return key ? `${slugify(query)}_${key}` : slugify(query);
+}
+
+export function isValidWorkspaceId(id: string): boolean {
+  return WORKSPACE_ID_PATTERN.test(id);
+}
+
+// Keys of the default workspace are left unprefixed so data ingested before workspaces keeps its ids.
+export function workspaceKey(workspace: string | undefined, key: string): string {
+  return workspace && workspace !== DEFAULT_WORKSPACE ? `${workspace}:${key}` : key;
+}
+
+export function formatMarket({ engine, device, gl, hl }: Pick<SerpMetadata, 'engine' | 'device' | 'gl' | 'hl'>): string {
+  return [engine, gl && `gl=${gl}`, hl && `hl=${hl}`, device].filter(Boolean).join(', ');
+}
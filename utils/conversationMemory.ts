@@ -0,0 +1,114 @@
+import type { ConversationFacts, ConversationMemory, ConversationMessage } from '../src/types';
+
+// Rough ratio for English text; budgets only need to be in the right range
+const CHARS_PER_TOKEN = 4;
+// Role label and line break of a formatted message
+const MESSAGE_OVERHEAD_TOKENS = 2;
+
+export function emptyMemory(): ConversationMemory {
+  return { summary: '', recent: [], facts: {} };
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Keeps the start of the text; fromEnd keeps the end instead
+export function clipToTokens(text: string, tokens: number, fromEnd = false): string {
+  const maxChars = Math.max(0, tokens) * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+  if (maxChars <= 1) return '';
+  return fromEnd ? `…${text.slice(text.length - maxChars + 1)}` : `${text.slice(0, maxChars - 1)}…`;
+}
+
+function messageTokens(message: ConversationMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function formatMessages(messages: ConversationMessage[]): string {
+  return messages.map(message => `${message.role.toUpperCase()}: ${message.content}`).join('\n');
+}
+
+// A later turn's facts replace earlier ones; facts it did not establish are kept
+export function mergeFacts(previous: ConversationFacts, next: ConversationFacts): ConversationFacts {
+  const merged: ConversationFacts = { ...previous };
+  if (next.cluster) merged.cluster = next.cluster;
+  if (next.intent) merged.intent = next.intent;
+  if (next.searchIntent && next.searchIntent !== 'unknown') merged.searchIntent = next.searchIntent;
+  if (next.timeRanges) merged.timeRanges = next.timeRanges;
+  return merged;
+}
+
+export function formatFacts(facts: ConversationFacts): string {
+  const lines: string[] = [];
+  if (facts.cluster) lines.push(`- Active cluster: ${facts.cluster}`);
+  if (facts.intent) lines.push(`- Last analysis: ${facts.intent}`);
+  if (facts.searchIntent) lines.push(`- Search intent filter: ${facts.searchIntent}`);
+  if (facts.timeRanges) {
+    const { earlier, later } = facts.timeRanges;
+    lines.push(`- Time window: ${earlier.start} to ${earlier.end} compared with ${later.start} to ${later.end}`);
+  }
+  return lines.join('\n');
+}
+
+// Prompt block for a memory view; empty when the conversation has no history yet
+export function formatMemory(memory: ConversationMemory): string {
+  const sections: string[] = [];
+  if (memory.summary) sections.push(`Summary of the earlier conversation:\n${memory.summary}`);
+  const facts = formatFacts(memory.facts);
+  if (facts) sections.push(`Established facts:\n${facts}`);
+  if (memory.recent.length > 0) sections.push(`Recent conversation:\n${formatMessages(memory.recent)}`);
+  return sections.join('\n\n');
+}
+
+// Groups messages into turns, each starting at a user message
+function toTurns(messages: ConversationMessage[]): ConversationMessage[][] {
+  const turns: ConversationMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+// Splits off the oldest whole turns until at most maxTurns turns of at most maxTokens remain. The
+// latest turn is always kept, however long it is.
+export function splitRecent(
+  messages: ConversationMessage[],
+  maxTurns: number,
+  maxTokens: number
+): { fold: ConversationMessage[]; keep: ConversationMessage[] } {
+  const turns = toTurns(messages);
+  let tokens = messages.reduce((sum, message) => sum + messageTokens(message), 0);
+  let folded = 0;
+  while (turns.length - folded > 1 && (turns.length - folded > maxTurns || tokens > maxTokens)) {
+    tokens -= turns[folded].reduce((sum, message) => sum + messageTokens(message), 0);
+    folded++;
+  }
+  return { fold: turns.slice(0, folded).flat(), keep: turns.slice(folded).flat() };
+}
+
+// Fits the memory into one prompt's token budget. Facts come first, then the newest messages (each
+// clipped to a third of the budget), and the summary gets what is left. Messages that do not fit
+// are left out of this view only.
+export function memoryView(memory: ConversationMemory, budget: number): ConversationMemory {
+  const facts = formatFacts(memory.facts);
+  let remaining = budget - estimateTokens(facts);
+  const messageCap = Math.floor(budget / 3);
+
+  const recent: ConversationMessage[] = [];
+  for (let i = memory.recent.length - 1; i >= 0; i--) {
+    const message = memory.recent[i];
+    const content = clipToTokens(message.content, messageCap);
+    const tokens = estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+    if (tokens > remaining) break;
+    recent.unshift({ role: message.role, content });
+    remaining -= tokens;
+  }
+
+  // The end of a running summary is the most recent part
+  return { summary: clipToTokens(memory.summary, remaining, true), recent, facts: memory.facts };
+}
@@ -0,0 +1,172 @@
+import { parse, type HTMLElement } from 'node-html-parser';
+import type { FaqItem, HowToItem, PageHeading, PageStructure } from '../src/types';
+
+const MAX_H2 = 5;
+const MAX_H3 = 10;
+const NON_CONTENT_TAGS = 'script, style, noscript, template, svg';
+const NON_NAVIGABLE_LINK = /^(#|javascript:|mailto:|tel:)/i;
+
+type JsonLdNode = Record<string, unknown>;
+
+function cleanText(value: string | undefined | null): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function toAbsoluteUrl(href: string, baseUrl: string): URL | null {
+  try {
+    return new URL(href, baseUrl);
+  } catch {
+    return null;
+  }
+}
+
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function readJsonLdNodes(root: HTMLElement): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const node = value as JsonLdNode;
+      nodes.push(node);
+      Object.values(node).forEach(visit);
+    }
+  };
+
+  for (const script of root.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      visit(JSON.parse(script.rawText));
+    } catch {
+      // Invalid JSON-LD blocks are common in the wild and carry no usable structure
+    }
+  }
+  return nodes;
+}
+
+function nodeTypes(node: JsonLdNode): string[] {
+  return asArray(node['@type'] as string | string[] | undefined).filter((t): t is string => typeof t === 'string');
+}
+
+function hasType(node: JsonLdNode, type: string): boolean {
+  return nodeTypes(node).includes(type);
+}
+
+function readNodeText(value: unknown): string {
+  if (typeof value === 'string') return cleanText(parse(value).text);
+  if (value && typeof value === 'object') {
+    const node = value as JsonLdNode;
+    return readNodeText(node.text ?? node.name);
+  }
+  return '';
+}
+
+function extractSchemaTypes(root: HTMLElement, jsonLdNodes: JsonLdNode[]): string[] {
+  const types = new Set(jsonLdNodes.flatMap(nodeTypes));
+  for (const element of root.querySelectorAll('[itemtype]')) {
+    for (const itemType of (element.getAttribute('itemtype') ?? '').split(/\s+/)) {
+      const name = itemType.split('/').pop();
+      if (name) types.add(name);
+    }
+  }
+  return [...types].sort();
+}
+
+function extractFaq(root: HTMLElement, jsonLdNodes: JsonLdNode[]): FaqItem[] {
+  const fromJsonLd = jsonLdNodes
+    .filter(node => hasType(node, 'Question'))
+    .map(node => ({
+      question: readNodeText(node.name),
+      answer: readNodeText(asArray(node.acceptedAnswer as unknown)[0])
+    }));
+
+  const fromMicrodata = root
+    .querySelectorAll('[itemtype$="/Question"]')
+    .map(element => ({
+      question: cleanText(element.querySelector('[itemprop="name"]')?.text),
+      answer: cleanText(element.querySelector('[itemprop="acceptedAnswer"]')?.text)
+    }));
+
+  return [...fromJsonLd, ...fromMicrodata].filter(item => item.question);
+}
+
+function readHowToSteps(value: unknown): string[] {
+  return asArray(value as unknown[] | unknown).flatMap((step: unknown) => {
+    if (step && typeof step === 'object' && hasType(step as JsonLdNode, 'HowToSection')) {
+      return readHowToSteps((step as JsonLdNode).itemListElement);
+    }
+    const text = readNodeText(step);
+    return text ? [text] : [];
+  });
+}
+
+function extractHowTo(jsonLdNodes: JsonLdNode[]): HowToItem[] {
+  return jsonLdNodes
+    .filter(node => hasType(node, 'HowTo') || hasType(node, 'Recipe'))
+    .map(node => ({
+      name: readNodeText(node.name),
+      steps: readHowToSteps(node.step ?? node.recipeInstructions)
+    }))
+    .filter(item => item.name || item.steps.length > 0);
+}
+
+function countLinks(root: HTMLElement, pageUrl: string): { internal: number; external: number } {
+  const pageHost = toAbsoluteUrl(pageUrl, pageUrl)?.hostname;
+  const counts = { internal: 0, external: 0 };
+  for (const anchor of root.querySelectorAll('a[href]')) {
+    const href = (anchor.getAttribute('href') ?? '').trim();
+    if (!href || NON_NAVIGABLE_LINK.test(href)) continue;
+    const target = toAbsoluteUrl(href, pageUrl);
+    if (!target || !/^https?:$/.test(target.protocol)) continue;
+    if (pageHost && normalizeHost(target.hostname) === normalizeHost(pageHost)) {
+      counts.internal++;
+    } else {
+      counts.external++;
+    }
+  }
+  return counts;
+}
+
+function countWords(root: HTMLElement): number {
+  const body = parse((root.querySelector('body') ?? root).toString());
+  body.querySelectorAll(NON_CONTENT_TAGS).forEach(element => element.remove());
+  const text = cleanText(body.structuredText);
+  return text ? text.split(' ').length : 0;
+}
+
+export function extractPageStructure(html: string, url: string): PageStructure {
+  const root = parse(html);
+  const jsonLdNodes = readJsonLdNodes(root);
+
+  const headings: PageHeading[] = root
+    .querySelectorAll('h1, h2, h3, h4, h5, h6')
+    .map(element => ({ level: Number(element.tagName.slice(1)), text: cleanText(element.text) }))
+    .filter(heading => heading.text);
+  const headingsAt = (level: number) => headings.filter(h => h.level === level).map(h => h.text);
+
+  const canonicalHref = root.querySelector('link[rel="canonical"]')?.getAttribute('href');
+
+  return {
+    url,
+    status: 'fetched',
+    title: cleanText(root.querySelector('title')?.text) || null,
+    metaDescription: cleanText(root.querySelector('meta[name="description"]')?.getAttribute('content')) || null,
+    canonical: canonicalHref ? toAbsoluteUrl(canonicalHref, url)?.href ?? null : null,
+    headings,
+    h1: headingsAt(1)[0] ?? null,
+    h2: headingsAt(2).slice(0, MAX_H2),
+    h3: headingsAt(3).slice(0, MAX_H3),
+    wordCount: countWords(root),
+    schemaTypes: extractSchemaTypes(root, jsonLdNodes),
+    faq: extractFaq(root, jsonLdNodes),
+    howTo: extractHowTo(jsonLdNodes),
+    links: countLinks(root, url)
+  };
+}
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { IngestionLedger, ProcessedEntry } from '../src/types';
+
+export const DEFAULT_LEDGER_PATH = join(process.cwd(), 'assets', 'ingestionLedger.json');
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function hashEntry(entry: ProcessedEntry): { textHash: string; metadataHash: string } {
+  return {
+    textHash: hashContent(entry.text_blob),
+    metadataHash: hashContent(JSON.stringify(entry.metadata))
+  };
+}
+
+export async function loadLedger(path = DEFAULT_LEDGER_PATH): Promise<IngestionLedger> {
+  try {
+    const raw = await readFile(path, 'utf-8');
+    const ledger = JSON.parse(raw) as Partial<IngestionLedger>;
+    return { files: ledger.files ?? {}, embeddings: ledger.embeddings ?? {} };
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') {
+      return { files: {}, embeddings: {} };
+    }
+    throw err;
+  }
+}
+
+export async function saveLedger(ledger: IngestionLedger, path = DEFAULT_LEDGER_PATH): Promise<void> {
+  await writeFile(path, JSON.stringify(ledger, null, 2));
+}
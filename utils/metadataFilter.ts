@@ -0,0 +1,58 @@
+import type { MetadataFilter, MetadataFilterOperators } from '../src/types';
+
+const OPERATORS = new Set(['gte', 'gt', 'lte', 'lt', 'in', 'ilike']);
+
+// SQL ILIKE pattern (% and _ wildcards) as a case-insensitive regular expression
+export function ilikeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'is');
+}
+
+// Numbers compare numerically and strings as text; values of different types never match
+function compare(value: unknown, bound: number | string): number | null {
+  if (typeof value === 'number' && typeof bound === 'number') return value - bound;
+  if (typeof value === 'string' && typeof bound === 'string') return value < bound ? -1 : value > bound ? 1 : 0;
+  return null;
+}
+
+function matchesOperator(value: unknown, operator: string, operand: unknown): boolean {
+  switch (operator) {
+    case 'in':
+      return Array.isArray(operand) && operand.some(item => item === value);
+    case 'ilike':
+      return typeof value === 'string' && typeof operand === 'string' && ilikeToRegExp(operand).test(value);
+    default: {
+      const order = compare(value, operand as number | string);
+      if (order === null) return false;
+      return operator === 'gte' ? order >= 0 : operator === 'gt' ? order > 0 : operator === 'lte' ? order <= 0 : order < 0;
+    }
+  }
+}
+
+function matchesValue(value: unknown, expected: string | number | boolean | string[]): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(value) && expected.every(item => value.includes(item));
+  }
+  return value === expected;
+}
+
+// In-process counterpart of the seo_metadata_matches SQL function used by the search RPCs
+export function matchesMetadataFilter(metadata: object, filter: MetadataFilter = {}): boolean {
+  const fields = metadata as Record<string, unknown>;
+  return Object.entries(filter).every(([key, expected]) => {
+    const value = fields[key];
+    if (typeof expected !== 'object' || Array.isArray(expected)) {
+      return matchesValue(value, expected);
+    }
+    if (value === undefined || value === null) return false;
+    return Object.entries(expected as MetadataFilterOperators).every(([operator, operand]) => {
+      if (!OPERATORS.has(operator)) {
+        throw new Error(`Unsupported metadata filter operator "${operator}" on "${key}"`);
+      }
+      return matchesOperator(value, operator, operand);
+    });
+  });
+}
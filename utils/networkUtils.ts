@@ -0,0 +1,90 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+// Resolves a hostname to every address it points at
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+export const lookupHost: HostLookup = async hostname =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+// Loopback, private, link-local, unique-local, shared, reserved and multicast ranges. IPv4-mapped
+// and NAT64 IPv6 addresses are blocked outright rather than unwrapped. Each family has its own
+// list because BlockList also matches IPv4 addresses against the IPv4-mapped IPv6 rule.
+const NON_PUBLIC_V4 = new BlockList();
+const NON_PUBLIC_V6 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  NON_PUBLIC_V4.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  NON_PUBLIC_V6.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return family === 4 ? !NON_PUBLIC_V4.check(address, 'ipv4') : !NON_PUBLIC_V6.check(address, 'ipv6');
+}
+
+// Throws unless the URL is http(s) on the default port and its host resolves only to public
+// addresses, so fetching it cannot reach the server's own network.
+export async function assertPublicUrl(url: URL, lookupAddresses: HostLookup = lookupHost): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+  if (url.port) {
+    throw new Error(`Non-default port ${url.port}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname) ? [hostname] : await lookupAddresses(hostname);
+  assertPublicAddresses(hostname, addresses);
+}
+
+function assertPublicAddresses(hostname: string, addresses: string[]): void {
+  if (addresses.length === 0) {
+    throw new Error(`${hostname} does not resolve`);
+  }
+  const blocked = addresses.find(address => !isPublicAddress(address));
+  if (blocked) {
+    throw new Error(`${hostname} resolves to non-public address ${blocked}`);
+  }
+}
+
+// Connections made through this agent resolve their host with the same check, so a DNS answer that
+// changes after assertPublicUrl (rebinding) cannot send the request to a non-public address.
+export function createPublicAgent(lookupAddresses: HostLookup = lookupHost): Agent {
+  const publicLookup: LookupFunction = (hostname, options, callback) => {
+    lookupAddresses(hostname)
+      .then(addresses => {
+        assertPublicAddresses(hostname, addresses);
+        if (options.all) {
+          callback(null, addresses.map(address => ({ address, family: isIP(address) })));
+        } else {
+          callback(null, addresses[0], isIP(addresses[0]));
+        }
+      })
+      .catch((err: Error) => callback(err, ''));
+  };
+  return new Agent({ connect: { lookup: publicLookup } });
+}
@@ -1,8 +1,17 @@
+import { DEFAULT_ENGINE } from './clusterUtils';
+import { extractDomain } from './urlUtils';
+import type { SerpMarket } from '../src/types';
+
+// Providers send positions as numbers or numeric strings; anything else falls back to the list order
+function readPosition(value: unknown, index: number): number {
+  const pos = +(value as number | string);
+  return (typeof pos === 'number' && !isNaN(pos) && pos > 0) ? pos : index + 1;
+}
+
 export function mapOrganic(o: Record<string, unknown>, index: number): Record<string, unknown> {
-  const pos = +(o.position as number | string);
   return {
     ...o,
-    position: (typeof pos === 'number' && !isNaN(pos) && pos > 0) ? pos : index + 1,
+    position: readPosition(o.position, index),
     date: o.date || o.published_at || null,
     sitelinks: o.sitelinks || []
   };
@@ -62,6 +71,30 @@ export function mapKnowledgeGraph(kg: Record<string, unknown>) {
   };
 }
 
+export function mapImages(images: Record<string, unknown>[]) {
+  return images.map((img, idx) => {
+    const link = img.link || img.imageUrl;
+    const domain = img.domain || extractDomain(String(link || ''));
+    return {
+      ...img,
+      position: readPosition(img.position, idx),
+      link,
+      domain,
+      source: img.source || domain || ''
+    };
+  });
+}
+
+export function mapNews(news: Record<string, unknown>[]) {
+  return news.map((n, idx) => ({
+    ...n,
+    position: readPosition(n.position, idx),
+    snippet: n.snippet || '',
+    date: n.date || n.published_at || null,
+    source: n.source || extractDomain(String(n.link || ''))
+  }));
+}
+
 export function detectFeatures(resp: Record<string, unknown>): string[] {
   const features: string[] = [];
   const arrayFeatures = [
@@ -91,11 +124,12 @@ export function detectFeatures(resp: Record<string, unknown>): string[] {
   return features;
 }
 
-export function normalizeSerperResponse(serperResp: Record<string, unknown>, cluster: string, query: string): Record<string, unknown> | null {
+export function normalizeSerperResponse(serperResp: Record<string, unknown>, cluster: string, query: string, market: SerpMarket = {}, workspace?: string): Record<string, unknown> | null {
   const result: Record<string, unknown> = {
-    searchParameters: { q: query, type: 'search', engine: 'google' },
+    searchParameters: { q: query, type: 'search', ...market, engine: market.engine ?? DEFAULT_ENGINE },
     timestamp: new Date().toISOString(),
-    cluster
+    cluster,
+    ...(workspace ? { workspace } : {})
   };
 
   // Helpers to apply mappers when features are present
@@ -147,8 +181,8 @@ export function normalizeSerperResponse(serperResp: Record<string, unknown>, clu
   mapArrayIfPresent('localResults', mapLocalResults);
   mapArrayIfPresent('videoResults', mapVideoResults);
   mapObjectIfPresent('knowledgeGraph', mapKnowledgeGraph);
-  mapArrayIfPresent('images');
-  mapArrayIfPresent('news');
+  mapArrayIfPresent('images', mapImages);
+  mapArrayIfPresent('news', mapNews);
 
   return result;
 }
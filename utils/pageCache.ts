@@ -0,0 +1,24 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { hashContent } from './ingestionLedger';
+import type { CachedPage } from '../src/types';
+
+export const DEFAULT_PAGE_CACHE_DIR = join(process.cwd(), 'assets', 'pageCache');
+
+function cachePath(url: string, dir: string): string {
+  return join(dir, `${hashContent(url)}.json`);
+}
+
+export async function readCachedPage(url: string, dir = DEFAULT_PAGE_CACHE_DIR): Promise<CachedPage | null> {
+  try {
+    return JSON.parse(await readFile(cachePath(url, dir), 'utf-8')) as CachedPage;
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+export async function writeCachedPage(page: CachedPage, dir = DEFAULT_PAGE_CACHE_DIR): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await writeFile(cachePath(page.url, dir), JSON.stringify(page, null, 2));
+}
@@ -0,0 +1,215 @@
+import { join } from 'path';
+import { extractPageStructure } from './htmlUtils';
+import { DEFAULT_PAGE_CACHE_DIR, readCachedPage, writeCachedPage } from './pageCache';
+import { ALLOW_ALL, DISALLOW_ALL, isPathAllowed, parseRobotsTxt } from './robotsUtils';
+import { sleep } from './fetchUtils';
+import { assertPublicUrl, createPublicAgent, lookupHost, type HostLookup } from './networkUtils';
+import type { CachedPage, PageExtraction, PageFetchMode, RobotsRules } from '../src/types';
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; seo-rag/0.1)';
+const ROBOTS_AGENT = 'seo-rag';
+const MAX_CRAWL_DELAY_MS = 30_000;
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export interface PageFetcherOptions {
+  mode: PageFetchMode;
+  concurrency: number;
+  hostDelayMs: number;
+  cacheTtlMs: number;
+  cacheDir: string;
+  timeoutMs: number;
+  // Resolves hostnames for the public-address check and the connections; tests pass a fake resolver
+  lookup: HostLookup;
+}
+
+export interface PageFetcher {
+  fetchPage(url: string): Promise<PageExtraction>;
+}
+
+const DEFAULT_OPTIONS: PageFetcherOptions = {
+  mode: 'live',
+  concurrency: 4,
+  hostDelayMs: 1000,
+  cacheTtlMs: 24 * 60 * 60 * 1000,
+  cacheDir: DEFAULT_PAGE_CACHE_DIR,
+  timeoutMs: 5000,
+  lookup: lookupHost
+};
+
+// Rules of a host, or why its robots.txt could not be read
+type RobotsLookup = { rules: RobotsRules; unavailable?: string };
+
+let cachedFetcher: PageFetcher | null = null;
+
+function notFetched(url: string, reason: string): PageExtraction {
+  return { url, status: 'not_fetched', reason };
+}
+
+function fromCache(page: CachedPage): PageExtraction {
+  return { ...extractPageStructure(page.html, page.finalUrl), url: page.url };
+}
+
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    // A finishing task hands its slot directly to the next waiter
+    if (active >= concurrency) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next(); else active--;
+    }
+  };
+}
+
+function createHostThrottle() {
+  const nextSlotAt = new Map<string, number>();
+  return async (host: string, delayMs: number): Promise<void> => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlotAt.get(host) ?? 0);
+    nextSlotAt.set(host, slot + delayMs);
+    await sleep(slot - now);
+  };
+}
+
+export function createPageFetcher(overrides: Partial<PageFetcherOptions> = {}): PageFetcher {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const limit = createLimiter(Math.max(1, options.concurrency));
+  const throttle = createHostThrottle();
+  const robotsByOrigin = new Map<string, Promise<RobotsLookup>>();
+  const dispatcher = createPublicAgent(options.lookup);
+
+  // Follows redirects by hand so every hop, not just the first URL, must be a public address
+  const fetchPublic = async (url: URL, headers: Record<string, string>): Promise<{ response: Response; url: URL }> => {
+    let current = url;
+    for (let hop = 0; ; hop++) {
+      await assertPublicUrl(current, options.lookup);
+      // dispatcher is read by Node's fetch but missing from the DOM RequestInit type
+      const init = { headers, redirect: 'manual' as const, signal: AbortSignal.timeout(options.timeoutMs), dispatcher };
+      const response = await fetch(current, init);
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.has(response.status) || !location) return { response, url: current };
+      await response.body?.cancel();
+      if (hop === MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+      current = new URL(location, current);
+    }
+  };
+
+  // A missing robots.txt (4xx) allows everything. A server error or unreachable host disallows
+  // everything for now; the lookup is not cached, so the next fetch of the host asks again.
+  const loadRobots = async (origin: string): Promise<RobotsLookup> => {
+    let unavailable: string;
+    try {
+      const { response } = await fetchPublic(new URL('/robots.txt', origin), { 'User-Agent': USER_AGENT });
+      if (response.ok) return { rules: parseRobotsTxt(await response.text(), ROBOTS_AGENT) };
+      if (response.status < 500) return { rules: ALLOW_ALL };
+      unavailable = `HTTP ${response.status}`;
+    } catch (err) {
+      unavailable = err instanceof Error ? err.message : String(err);
+    }
+    robotsByOrigin.delete(origin);
+    return { rules: DISALLOW_ALL, unavailable };
+  };
+
+  const getRobots = (origin: string): Promise<RobotsLookup> => {
+    let robots = robotsByOrigin.get(origin);
+    if (!robots) {
+      robots = loadRobots(origin);
+      robotsByOrigin.set(origin, robots);
+    }
+    return robots;
+  };
+
+  const download = async (url: string, cached: CachedPage | null): Promise<PageExtraction> => {
+    const headers: Record<string, string> = { 'User-Agent': USER_AGENT };
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    const { response, url: finalUrl } = await fetchPublic(new URL(url), headers);
+    const fetchedAt = new Date().toISOString();
+
+    if (response.status === 304 && cached) {
+      const revalidated = { ...cached, fetchedAt };
+      await writeCachedPage(revalidated, options.cacheDir);
+      return fromCache(revalidated);
+    }
+    if (!response.ok) {
+      return notFetched(url, `HTTP ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type');
+    if (contentType && !contentType.includes('html')) {
+      return notFetched(url, `Unsupported content type: ${contentType}`);
+    }
+
+    const page: CachedPage = {
+      url,
+      finalUrl: finalUrl.href,
+      fetchedAt,
+      contentType,
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+      html: await response.text()
+    };
+    await writeCachedPage(page, options.cacheDir);
+    return fromCache(page);
+  };
+
+  const fetchPage = async (url: string): Promise<PageExtraction> => {
+    try {
+      const cached = await readCachedPage(url, options.cacheDir);
+      if (options.mode === 'replay') {
+        return cached ? fromCache(cached) : notFetched(url, 'Not in page cache (replay mode)');
+      }
+      if (cached && Date.now() - Date.parse(cached.fetchedAt) < options.cacheTtlMs) {
+        return fromCache(cached);
+      }
+
+      const target = new URL(url);
+      await assertPublicUrl(target, options.lookup);
+      const { rules, unavailable } = await getRobots(target.origin);
+      if (unavailable) {
+        return notFetched(url, `robots.txt unavailable (${unavailable})`);
+      }
+      if (!isPathAllowed(rules, `${target.pathname}${target.search}`)) {
+        return notFetched(url, 'Disallowed by robots.txt');
+      }
+
+      // Throttled inside the limiter, so requests queued for a slot still start apart
+      const crawlDelayMs = Math.min((rules.crawlDelaySeconds ?? 0) * 1000, MAX_CRAWL_DELAY_MS);
+      return await limit(async () => {
+        await throttle(target.host, Math.max(options.hostDelayMs, crawlDelayMs));
+        return download(url, cached);
+      });
+    } catch (err) {
+      return notFetched(url, err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return { fetchPage };
+}
+
+function numberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+export function getPageFetcher(): PageFetcher {
+  if (!cachedFetcher) {
+    cachedFetcher = createPageFetcher({
+      mode: process.env.PAGE_FETCH_MODE === 'replay' ? 'replay' : 'live',
+      concurrency: numberEnv('PAGE_FETCH_CONCURRENCY', DEFAULT_OPTIONS.concurrency),
+      hostDelayMs: numberEnv('PAGE_FETCH_HOST_DELAY_MS', DEFAULT_OPTIONS.hostDelayMs),
+      cacheTtlMs: numberEnv('PAGE_CACHE_TTL_HOURS', 24) * 60 * 60 * 1000,
+      cacheDir: process.env.PAGE_CACHE_DIR ? join(process.cwd(), process.env.PAGE_CACHE_DIR) : DEFAULT_PAGE_CACHE_DIR
+    });
+  }
+  return cachedFetcher;
+}
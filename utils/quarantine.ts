@@ -0,0 +1,87 @@
+import { access, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { basename, join, relative } from 'path';
+import { validateSerpData } from './serpSchema';
+import type { QuarantineReason, QuarantineRecord, SerpData } from '../src/types';
+
+export const QUARANTINE_DIR = join(process.cwd(), 'assets', 'quarantine');
+const REPORT_FILE = 'report.json';
+
+export class QuarantineError extends Error {
+  constructor(message: string, public readonly file: string, public readonly reasons: QuarantineReason[]) {
+    super(message);
+    this.name = 'QuarantineError';
+  }
+}
+
+export function formatReasons(reasons: QuarantineReason[]): string {
+  return reasons.map(r => (r.path ? `${r.path}: ${r.message}` : r.message)).join('; ');
+}
+
+export async function readQuarantineReport(dir = QUARANTINE_DIR): Promise<QuarantineRecord[]> {
+  try {
+    return JSON.parse(await readFile(join(dir, REPORT_FILE), 'utf-8')) as QuarantineRecord[];
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+async function uniqueName(dir: string, fileName: string): Promise<string> {
+  try {
+    await access(join(dir, fileName));
+    return `${Date.now()}_${fileName}`;
+  } catch {
+    return fileName;
+  }
+}
+
+async function recordQuarantine(record: QuarantineRecord, dir: string): Promise<void> {
+  const report = await readQuarantineReport(dir);
+  await writeFile(join(dir, REPORT_FILE), JSON.stringify([...report, record], null, 2));
+}
+
+// Moves an existing snapshot file out of the scrape folder.
+export async function quarantineFile(filePath: string, reasons: QuarantineReason[], dir = QUARANTINE_DIR): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const fileName = await uniqueName(dir, basename(filePath));
+  await rename(filePath, join(dir, fileName));
+  await recordQuarantine({ file: fileName, origin: relative(process.cwd(), filePath), quarantinedAt: new Date().toISOString(), reasons }, dir);
+  return fileName;
+}
+
+// Stores a provider response that never made it to a snapshot file.
+export async function quarantineSnapshot(
+  content: unknown,
+  origin: string,
+  reasons: QuarantineReason[],
+  dir = QUARANTINE_DIR
+): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const slug = origin.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const fileName = await uniqueName(dir, `${Date.now()}_${slug}.json`);
+  await writeFile(join(dir, fileName), JSON.stringify(content, null, 2));
+  await recordQuarantine({ file: fileName, origin, quarantinedAt: new Date().toISOString(), reasons }, dir);
+  return fileName;
+}
+
+// Returns the normalized snapshot when it is valid; otherwise quarantines it and throws.
+export async function acceptSnapshot(
+  raw: Record<string, unknown>,
+  normalized: SerpData | null,
+  origin: string
+): Promise<SerpData> {
+  if (!normalized) {
+    const reasons: QuarantineReason[] = [
+      { code: 'inconsistent_positions', path: 'organic', message: 'Some organic results have a position and others do not' }
+    ];
+    const file = await quarantineSnapshot(raw, origin, reasons);
+    throw new QuarantineError(`Inconsistent organic positions, raw response quarantined as ${file}`, file, reasons);
+  }
+
+  const validation = validateSerpData(normalized);
+  if (!validation.valid) {
+    const file = await quarantineSnapshot(normalized, origin, validation.reasons);
+    throw new QuarantineError(`Snapshot failed validation (${formatReasons(validation.reasons)}), quarantined as ${file}`, file, validation.reasons);
+  }
+  return validation.data;
+}
@@ -0,0 +1,49 @@
+import type { RetentionPlan, RetentionPolicy, RetentionTier, SnapshotRef } from '../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  dailyDays: 30,
+  weeklyDays: 180
+};
+
+export function retentionTier(capturedAt: Date, policy: RetentionPolicy, now: Date): RetentionTier {
+  const ageDays = (now.getTime() - capturedAt.getTime()) / DAY_MS;
+  if (ageDays < policy.dailyDays) return 'daily';
+  if (ageDays < policy.weeklyDays) return 'weekly';
+  return 'monthly';
+}
+
+// UTC day, Monday of the ISO week, or month the snapshot falls into
+export function retentionBucket(capturedAt: Date, tier: RetentionTier): string {
+  const day = capturedAt.toISOString().slice(0, 10);
+  if (tier === 'daily') return day;
+  if (tier === 'monthly') return day.slice(0, 7);
+  const monday = new Date(`${day}T00:00:00Z`);
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return `week-${monday.toISOString().slice(0, 10)}`;
+}
+
+// Keeps the latest snapshot of each query per bucket, baseline or delta, plus the baselines that kept
+// deltas were diffed from; everything else is archived.
+export function planRetention(snapshots: SnapshotRef[], policy: RetentionPolicy, now = new Date()): RetentionPlan {
+  const latest = new Map<string, SnapshotRef>();
+  for (const snapshot of snapshots) {
+    const capturedAt = new Date(snapshot.capturedAt);
+    const key = `${snapshot.queryKey}|${retentionBucket(capturedAt, retentionTier(capturedAt, policy, now))}`;
+    const current = latest.get(key);
+    const newer = current ? capturedAt.getTime() - new Date(current.capturedAt).getTime() : 1;
+    if (newer > 0 || (newer === 0 && snapshot.id > (current as SnapshotRef).id)) {
+      latest.set(key, snapshot);
+    }
+  }
+
+  const kept = new Set([...latest.values()].map(snapshot => snapshot.id));
+  for (const snapshot of latest.values()) {
+    if (snapshot.baselineId) kept.add(snapshot.baselineId);
+  }
+  return {
+    keep: snapshots.filter(snapshot => kept.has(snapshot.id)),
+    archive: snapshots.filter(snapshot => !kept.has(snapshot.id))
+  };
+}
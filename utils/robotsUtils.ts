@@ -0,0 +1,68 @@
+import type { RobotsRule, RobotsRules } from '../src/types';
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+export const ALLOW_ALL: RobotsRules = { rules: [] };
+export const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, path: '/' }] };
+
+export function parseRobotsTxt(content: string, userAgent: string): RobotsRules {
+  const agent = userAgent.toLowerCase();
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share the rules that follow them
+      if (!current || current.rules.length > 0 || current.crawlDelaySeconds !== undefined) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay' && current) {
+      const delay = Number(value);
+      if (Number.isFinite(delay)) current.crawlDelaySeconds = delay;
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.some(a => a !== '*' && agent.includes(a)));
+  const matched = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+  const crawlDelay = matched.find(group => group.crawlDelaySeconds !== undefined)?.crawlDelaySeconds;
+
+  return {
+    rules: matched.flatMap(group => group.rules),
+    ...(crawlDelay !== undefined ? { crawlDelaySeconds: crawlDelay } : {})
+  };
+}
+
+function patternToRegExp(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Longest matching rule wins; Allow wins ties, as in Google's robots.txt spec.
+export function isPathAllowed(robots: RobotsRules, pathWithQuery: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!patternToRegExp(rule.path).test(pathWithQuery)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
@@ -0,0 +1,81 @@
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { ClusterCadence, ClusterQuery, ClusterSchedule, ClusterScheduleState } from '../src/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CADENCES: Record<ClusterCadence, { cron: string; intervalMs: number }> = {
+  hourly: { cron: '0 * * * *', intervalMs: HOUR_MS },
+  daily: { cron: '0 0 * * *', intervalMs: 24 * HOUR_MS },
+  weekly: { cron: '0 0 * * 0', intervalMs: 7 * 24 * HOUR_MS }
+};
+
+export const DEFAULT_CLUSTER_SCHEDULE: ClusterSchedule = { cadence: 'daily', priority: 100 };
+
+export const DEFAULT_SCHEDULES_PATH = join(process.cwd(), 'assets', 'clusterSchedules.json');
+export const DEFAULT_SCHEDULER_STATE_PATH = join(process.cwd(), 'assets', 'schedulerState.json');
+
+async function readJsonIfExists<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as T;
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') return fallback;
+    throw err;
+  }
+}
+
+function toClusterSchedule(raw: Partial<ClusterSchedule>, cluster: string): ClusterSchedule {
+  const cadence = raw.cadence ?? DEFAULT_CLUSTER_SCHEDULE.cadence;
+  if (!(cadence in CADENCES)) {
+    throw new Error(`Unknown cadence "${cadence}" for cluster "${cluster}"`);
+  }
+  const queryBudget = raw.queryBudget;
+  if (queryBudget !== undefined && (!Number.isInteger(queryBudget) || queryBudget < 1)) {
+    throw new Error(`Query budget for cluster "${cluster}" must be a positive integer`);
+  }
+  return {
+    cadence,
+    priority: raw.priority ?? DEFAULT_CLUSTER_SCHEDULE.priority,
+    queryBudget
+  };
+}
+
+export async function loadClusterSchedules(
+  clusters: string[],
+  path = DEFAULT_SCHEDULES_PATH
+): Promise<Record<string, ClusterSchedule>> {
+  const raw = await readJsonIfExists<Record<string, Partial<ClusterSchedule>>>(path, {});
+  return Object.fromEntries(
+    clusters.map(cluster => [cluster, toClusterSchedule(raw[cluster] ?? {}, cluster)])
+  );
+}
+
+export async function loadSchedulerState(path = DEFAULT_SCHEDULER_STATE_PATH): Promise<Record<string, ClusterScheduleState>> {
+  return readJsonIfExists<Record<string, ClusterScheduleState>>(path, {});
+}
+
+export async function saveSchedulerState(
+  state: Record<string, ClusterScheduleState>,
+  path = DEFAULT_SCHEDULER_STATE_PATH
+): Promise<void> {
+  await writeFile(path, JSON.stringify(state, null, 2));
+}
+
+export function isRunMissed(schedule: ClusterSchedule, state: ClusterScheduleState | undefined, now = new Date()): boolean {
+  if (!state) return false;
+  return now.getTime() - new Date(state.lastRunAt).getTime() >= CADENCES[schedule.cadence].intervalMs;
+}
+
+// Rotates through the cluster so that a budget smaller than the query list still covers every query over time.
+export function selectBudgetedQueries(
+  queries: ClusterQuery[],
+  budget: number | undefined,
+  cursor: number
+): { selected: ClusterQuery[]; nextCursor: number } {
+  if (!budget || budget >= queries.length) {
+    return { selected: queries, nextCursor: 0 };
+  }
+  const start = cursor % queries.length;
+  const selected = Array.from({ length: budget }, (_, i) => queries[(start + i) % queries.length]);
+  return { selected, nextCursor: (start + budget) % queries.length };
+}
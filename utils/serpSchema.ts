@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { DEFAULT_DEVICE, DEFAULT_ENGINE, isValidWorkspaceId } from './clusterUtils';
+import type { QuarantineReason, SerpData } from '../src/types';
+
+// Schemas mirror the snapshot files written by getSerp/normalizeSerperResponse.
+// Unknown provider fields are kept (passthrough); optional fields may be null.
+const optionalText = z.string().nullish();
+const position = z.number().int().positive();
+
+export const searchParametersSchema = z.object({
+  q: z.string().min(1),
+  gl: z.string().optional(),
+  hl: z.string().optional(),
+  device: z.enum(['desktop', 'mobile']).optional(),
+  engine: z.string().optional()
+}).passthrough();
+
+export const organicResultSchema = z.object({
+  position,
+  title: optionalText,
+  snippet: optionalText,
+  link: z.string().url(),
+  date: optionalText
+}).passthrough();
+
+export const answerBoxSchema = z.object({
+  title: optionalText,
+  answer: z.string(),
+  snippet: optionalText,
+  link: optionalText
+}).passthrough();
+
+export const peopleAlsoAskSchema = z.object({
+  question: z.string().min(1),
+  snippet: optionalText,
+  link: optionalText
+}).passthrough();
+
+export const relatedSearchSchema = z.object({
+  query: z.string().min(1)
+}).passthrough();
+
+export const aiOverviewSchema = z.object({
+  answer: z.string(),
+  sourceLinks: z.array(z.object({ title: z.string(), link: z.string() }).passthrough()).optional()
+}).passthrough();
+
+export const localResultSchema = z.object({
+  position: position.optional(),
+  title: z.string().min(1),
+  address: optionalText,
+  rating: z.number().nullish(),
+  reviews: z.number().nullish(),
+  tags: z.array(z.string()).optional()
+}).passthrough();
+
+export const videoResultSchema = z.object({
+  title: z.string().min(1),
+  duration: optionalText,
+  link: optionalText
+}).passthrough();
+
+export const knowledgeGraphSchema = z.object({
+  title: z.string().min(1),
+  type: optionalText,
+  description: optionalText,
+  website: optionalText
+}).passthrough();
+
+export const imageResultSchema = z.object({
+  position,
+  title: z.string(),
+  imageUrl: z.string(),
+  source: optionalText,
+  domain: optionalText,
+  link: z.string().url()
+}).passthrough();
+
+export const newsResultSchema = z.object({
+  position,
+  title: z.string().min(1),
+  link: z.string().url(),
+  snippet: optionalText,
+  date: optionalText,
+  source: optionalText
+}).passthrough();
+
+export const serpDataSchema = z.object({
+  searchParameters: searchParametersSchema,
+  timestamp: z.string().datetime({ offset: true }),
+  cluster: z.string().optional(),
+  workspace: z.string().refine(isValidWorkspaceId, 'Invalid workspace id').optional(),
+  organic: z.array(organicResultSchema),
+  answerBox: answerBoxSchema.optional(),
+  peopleAlsoAsk: z.array(peopleAlsoAskSchema).optional(),
+  relatedSearches: z.array(relatedSearchSchema).optional(),
+  aiOverview: aiOverviewSchema.optional(),
+  localResults: z.array(localResultSchema).optional(),
+  videoResults: z.array(videoResultSchema).optional(),
+  knowledgeGraph: knowledgeGraphSchema.optional(),
+  images: z.array(imageResultSchema).optional(),
+  news: z.array(newsResultSchema).optional()
+}).passthrough().superRefine((data, ctx) => {
+  const seen = new Set<number>();
+  data.organic.forEach((result, index) => {
+    if (seen.has(result.position)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['organic', index, 'position'],
+        message: `Duplicate organic position ${result.position}`,
+        params: { reason: 'inconsistent_positions' }
+      });
+    }
+    seen.add(result.position);
+  });
+});
+
+export type SnapshotValidation =
+  | { valid: true; data: SerpData }
+  | { valid: false; reasons: QuarantineReason[] };
+
+function toReason(issue: z.ZodIssue): QuarantineReason {
+  const params = issue.code === z.ZodIssueCode.custom ? issue.params : undefined;
+  return {
+    code: (params?.reason as QuarantineReason['code'] | undefined) ?? 'schema',
+    path: issue.path.join('.'),
+    message: issue.message
+  };
+}
+
+export function validateSerpData(raw: unknown): SnapshotValidation {
+  const result = serpDataSchema.safeParse(raw);
+  if (!result.success) {
+    return { valid: false, reasons: result.error.issues.map(toReason) };
+  }
+  return { valid: true, data: result.data as unknown as SerpData };
+}
+
+export function validateSnapshotContent(content: string): SnapshotValidation {
+  try {
+    return validateSerpData(JSON.parse(content));
+  } catch (err) {
+    return {
+      valid: false,
+      reasons: [{ code: 'invalid_json', path: '', message: err instanceof Error ? err.message : String(err) }]
+    };
+  }
+}
+
+export const SERP_RESULT_TYPES = [
+  'organic',
+  'answerBox',
+  'peopleAlsoAsk',
+  'relatedSearch',
+  'aiOverview',
+  'localResult',
+  'videoResult',
+  'imageResult',
+  'newsResult',
+  'knowledgeGraph'
+] as const;
+
+// Document metadata as written by buildSerpEntries (SerpMetadata)
+export const serpMetadataSchema = z.object({
+  workspace: z.string().min(1),
+  iso_date: z.string().datetime({ offset: true }),
+  serp_features: z.array(z.string()),
+  cluster: z.string().min(1).nullable(),
+  query: z.string().min(1),
+  type: z.enum(SERP_RESULT_TYPES),
+  serp_id: z.string().min(1),
+  // Rows written before markets existed have no market keys; resolveMarket reads them as the default market
+  engine: z.string().min(1).default(DEFAULT_ENGINE),
+  device: z.enum(['desktop', 'mobile']).default(DEFAULT_DEVICE),
+  gl: z.string().nullable().default(null),
+  hl: z.string().nullable().default(null),
+  position: position.optional(),
+  domain: z.string(),
+  categories: z.array(z.string()),
+  source: optionalText,
+  published_date: optionalText,
+  page_status: z.enum(['fetched', 'not_fetched']).optional(),
+  h1: optionalText,
+  h2: z.array(z.string()).optional(),
+  h3: z.array(z.string()).optional()
+});
+
+export function validateSerpMetadata(raw: unknown): QuarantineReason[] {
+  const result = serpMetadataSchema.safeParse(raw);
+  return result.success ? [] : result.error.issues.map(toReason);
+}
@@ -0,0 +1,58 @@
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import type { ArchivedSnapshot, SnapshotArchive } from '../src/types';
+
+export const ARCHIVE_DIR = join(process.cwd(), 'assets', 'archive');
+const ARCHIVE_EXTENSION = '.json.gz';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export function archivePeriod(capturedAt: string): string {
+  return new Date(capturedAt).toISOString().slice(0, 7);
+}
+
+export async function listArchivePeriods(dir = ARCHIVE_DIR): Promise<string[]> {
+  try {
+    return (await readdir(dir))
+      .filter(file => file.endsWith(ARCHIVE_EXTENSION))
+      .map(file => file.slice(0, -ARCHIVE_EXTENSION.length))
+      .sort();
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+export async function readArchive(period: string, dir = ARCHIVE_DIR): Promise<SnapshotArchive | null> {
+  try {
+    const compressed = await readFile(join(dir, `${period}${ARCHIVE_EXTENSION}`));
+    return JSON.parse((await gunzipAsync(compressed)).toString('utf-8')) as SnapshotArchive;
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+// Merges snapshots into the period's archive (same serp_id replaces the older copy).
+// Written to a temp file first so an interrupted run never leaves a truncated archive.
+export async function appendToArchive(period: string, snapshots: ArchivedSnapshot[], dir = ARCHIVE_DIR): Promise<SnapshotArchive> {
+  await mkdir(dir, { recursive: true });
+  const existing = await readArchive(period, dir);
+  const merged = new Map((existing?.snapshots ?? []).map(snapshot => [snapshot.serp_id, snapshot]));
+  for (const snapshot of snapshots) {
+    merged.set(snapshot.serp_id, snapshot);
+  }
+
+  const archive: SnapshotArchive = {
+    period,
+    archivedAt: new Date().toISOString(),
+    snapshots: [...merged.values()].sort((a, b) => a.captured_at.localeCompare(b.captured_at))
+  };
+  const filePath = join(dir, `${period}${ARCHIVE_EXTENSION}`);
+  await writeFile(`${filePath}.tmp`, await gzipAsync(JSON.stringify(archive)));
+  await rename(`${filePath}.tmp`, filePath);
+  return archive;
+}
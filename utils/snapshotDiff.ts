@@ -0,0 +1,104 @@
+import { detectFeatures } from './normalizeResponse';
+import { extractDomain, normalizeUrl } from './urlUtils';
+import type {
+  BaselinePolicy,
+  FingerprintResult,
+  PreviousSnapshot,
+  SerpChangeEvent,
+  SerpData,
+  SnapshotDiff,
+  SnapshotFingerprint,
+  SnapshotKind
+} from '../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_BASELINE_POLICY: BaselinePolicy = {
+  maxAgeDays: 7,
+  maxChangeRatio: 0.3
+};
+
+export function snapshotFingerprint(data: SerpData): SnapshotFingerprint {
+  const seen = new Set<string>();
+  const organic: FingerprintResult[] = [];
+  for (const result of [...(data.organic ?? [])].sort((a, b) => a.position - b.position)) {
+    if (!result.link) continue;
+    const url = normalizeUrl(result.link);
+    if (seen.has(url)) continue;
+    seen.add(url);
+    organic.push({ position: result.position, url, domain: extractDomain(url) });
+  }
+  return {
+    organic,
+    features: detectFeatures(data as unknown as Record<string, unknown>).sort()
+  };
+}
+
+// Events that turn `previous` into `next`; URLs are matched on their normalized form.
+export function diffFingerprints(previous: SnapshotFingerprint, next: SnapshotFingerprint): SnapshotDiff {
+  const events: SerpChangeEvent[] = [];
+  const before = new Map(previous.organic.map(result => [result.url, result]));
+  const after = new Map(next.organic.map(result => [result.url, result]));
+  let changedUrls = 0;
+
+  for (const result of next.organic) {
+    const old = before.get(result.url);
+    if (!old) {
+      events.push({ type: 'new_url', url: result.url, domain: result.domain, position: result.position });
+      changedUrls++;
+    } else if (old.position !== result.position) {
+      events.push({ type: 'position_change', url: result.url, domain: result.domain, previous_position: old.position, position: result.position });
+      changedUrls++;
+    }
+  }
+  for (const result of previous.organic) {
+    if (!after.has(result.url)) {
+      events.push({ type: 'lost_url', url: result.url, domain: result.domain, previous_position: result.position });
+      changedUrls++;
+    }
+  }
+
+  const previousFeatures = new Set(previous.features);
+  const nextFeatures = new Set(next.features);
+  for (const feature of next.features) {
+    if (!previousFeatures.has(feature)) events.push({ type: 'feature_added', feature });
+  }
+  for (const feature of previous.features) {
+    if (!nextFeatures.has(feature)) events.push({ type: 'feature_removed', feature });
+  }
+
+  const size = Math.max(previous.organic.length, next.organic.length);
+  return { events, changeRatio: size === 0 ? 0 : changedUrls / size };
+}
+
+// A snapshot is stored in full when there is nothing to diff against, when its baseline is
+// too old, or when too much changed; otherwise only its change events are kept.
+export function chooseSnapshotKind(
+  previous: PreviousSnapshot | null,
+  diff: SnapshotDiff,
+  capturedAt: string,
+  policy: BaselinePolicy = DEFAULT_BASELINE_POLICY
+): SnapshotKind {
+  if (!previous?.fingerprint) return 'baseline';
+  const baselineAt = previous.baseline_captured_at ?? (previous.kind === 'baseline' ? previous.captured_at : null);
+  if (!baselineAt) return 'baseline';
+  if (new Date(capturedAt).getTime() - new Date(baselineAt).getTime() >= policy.maxAgeDays * DAY_MS) return 'baseline';
+  return diff.changeRatio > policy.maxChangeRatio ? 'baseline' : 'delta';
+}
+
+export function describeChange(event: SerpChangeEvent): string {
+  switch (event.type) {
+    case 'new_url':
+      return `New: ${event.url} entered at #${event.position}`;
+    case 'lost_url':
+      return `Lost: ${event.url} dropped out from #${event.previous_position}`;
+    case 'position_change': {
+      const moved = (event.previous_position ?? 0) - (event.position ?? 0);
+      return `${moved > 0 ? 'Up' : 'Down'} ${Math.abs(moved)}: ${event.url} #${event.previous_position} → #${event.position}`;
+    }
+    case 'feature_added':
+      return `Feature appeared: ${event.feature}`;
+    case 'feature_removed':
+      return `Feature disappeared: ${event.feature}`;
+  }
+}
@@ -0,0 +1,19 @@
+import { readdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { SerpData } from '../src/types';
+
+export const SCRAPPED_DIR = join(process.cwd(), 'assets', 'scrapped');
+
+export async function nextSnapshotIndex(dir = SCRAPPED_DIR): Promise<number> {
+  const files = await readdir(dir);
+  const existingNumbers = files
+    .map(f => { const m = f.match(/^(\d+)\.json$/); return m ? Number(m[1]) : null; })
+    .filter(n => n !== null) as number[];
+  return existingNumbers.length ? Math.max(...existingNumbers) + 1 : 1;
+}
+
+export async function saveSnapshot(data: SerpData, dir = SCRAPPED_DIR): Promise<string> {
+  const fileName = `${await nextSnapshotIndex(dir)}.json`;
+  await writeFile(join(dir, fileName), JSON.stringify(data, null, 2));
+  return fileName;
+}
@@ -0,0 +1,21 @@
+// One text/event-stream message carrying a JSON payload
+export function formatServerSentEvent(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+// Splits a text/event-stream buffer into the JSON payloads of its complete messages and the unfinished rest
+export function parseServerSentEvents<T>(buffer: string): { events: T[]; rest: string } {
+  const messages = buffer.split('\n\n');
+  const rest = messages.pop() ?? '';
+  const events = messages
+    .map(message =>
+      message
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n')
+    )
+    .filter(data => data.length > 0)
+    .map(data => JSON.parse(data) as T);
+  return { events, rest };
+}
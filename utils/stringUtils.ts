@@ -45,4 +45,13 @@ export function decodeHTMLEntities(str: string | undefined | null): string {
   str = str.replace(/&#(\d+);/g, (m, num) => String.fromCharCode(Number(num)));
   str = str.replace(/&#x([0-9a-fA-F]+);/g, (m, hex) => String.fromCharCode(parseInt(hex, 16)));
   return str;
-}
\ No newline at end of file
+}
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of',
+  'on', 'or', 'that', 'the', 'this', 'to', 'what', 'when', 'where', 'which', 'who', 'why', 'with'
+]);
+
+// Lowercased letter/digit runs without one-character tokens and common English stopwords
+export function tokenizeWords(input: string): string[] {
+  return (input.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
@@ -1,15 +1,17 @@
-import type { SerpFeature, SerpData, OrganicResult, AnswerBox, PeopleAlsoAsk, RelatedSearch, AiOverview, LocalResult, VideoResult, KnowledgeGraph, SerpMetadata, PageHeaders } from '../src/types';
+import { formatMarket } from './clusterUtils';
+import type { SerpFeature, SerpData, OrganicResult, AnswerBox, PeopleAlsoAsk, RelatedSearch, AiOverview, LocalResult, VideoResult, KnowledgeGraph, ImageResult, NewsResult, SerpMetadata, PageExtraction, PageHeaders } from '../src/types';
 
 export function textualizeSerpFeatures(
   feature: SerpFeature,
   data: SerpData,
-  featureData: OrganicResult | AnswerBox | PeopleAlsoAsk | RelatedSearch | AiOverview | LocalResult | VideoResult | KnowledgeGraph,
+  featureData: OrganicResult | AnswerBox | PeopleAlsoAsk | RelatedSearch | AiOverview | LocalResult | VideoResult | KnowledgeGraph | ImageResult | NewsResult,
   metadata: SerpMetadata,
-  headers?: PageHeaders,
+  page?: PageExtraction,
   index?: number
 ): string {
   const { iso_date, serp_features, cluster } = metadata;
   const query = data.searchParameters.q;
+  const market = formatMarket(metadata);
 
   switch (feature) {
     case 'organic': {
@@ -19,6 +21,7 @@ export function textualizeSerpFeatures(
       parts.push(`SERP Date: ${iso_date}`);
       parts.push(`SERP Features: ${serp_features.join(', ')}`);
       parts.push(`Cluster: ${cluster}`);
+      parts.push(`Market: ${market}`);
       parts.push(`Result Type: Organic`);
       parts.push(`Position: ${organic.position}`);
       parts.push(`Domain: ${metadata.domain || ''}`);
@@ -27,50 +30,88 @@ export function textualizeSerpFeatures(
       parts.push(`Snippet: ${organic.snippet}`);
       if (organic.date) parts.push(`Published Date: ${organic.date}`);
       parts.push(`URL: ${organic.link}`);
-      if (headers?.h1) parts.push(`Page H1: ${headers.h1}`);
-      if (headers?.h2 && headers.h2.length > 0) parts.push(`Page H2: ${headers.h2.join('; ')}`);
-      if (headers?.h3 && headers.h3.length > 0) parts.push(`Page H3: ${headers.h3.join('; ')}`);
+      if (page?.status === 'fetched') {
+        if (page.title) parts.push(`Page Title: ${page.title}`);
+        if (page.metaDescription) parts.push(`Meta Description: ${page.metaDescription}`);
+        if (page.h1) parts.push(`Page H1: ${page.h1}`);
+        if (page.h2.length > 0) parts.push(`Page H2: ${page.h2.join('; ')}`);
+        if (page.h3.length > 0) parts.push(`Page H3: ${page.h3.join('; ')}`);
+        parts.push(`Word Count: ${page.wordCount}`);
+        if (page.schemaTypes.length > 0) parts.push(`Schema Types: ${page.schemaTypes.join(', ')}`);
+        if (page.faq.length > 0) parts.push(`FAQ: ${page.faq.map(item => item.question).join('; ')}`);
+        if (page.howTo.length > 0) parts.push(`HowTo: ${page.howTo.map(item => `${item.name} (${item.steps.length} steps)`).join('; ')}`);
+      }
       return parts.join('\n');
     }
 
     case 'answerBox': {
       const answerBox = featureData as AnswerBox;
-      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nResult Type: Answer Box\nTitle: ${answerBox.title}\nAnswer: ${answerBox.answer}\nSnippet: ${answerBox.snippet}\nSource URL: ${answerBox.link}`;
+      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nMarket: ${market}\nResult Type: Answer Box\nTitle: ${answerBox.title}\nAnswer: ${answerBox.answer}\nSnippet: ${answerBox.snippet}\nSource URL: ${answerBox.link}`;
     }
 
     case 'peopleAlsoAsk': {
       const paa = featureData as PeopleAlsoAsk;
-      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nResult Type: People Also Ask\nPosition in PAA: ${index! + 1}\nQuestion: ${paa.question}${paa.snippet ? '\nAnswer Snippet: ' + paa.snippet : ''}${paa.link ? '\nSource URL: ' + paa.link : ''}`;
+      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nMarket: ${market}\nResult Type: People Also Ask\nPosition in PAA: ${index! + 1}\nQuestion: ${paa.question}${paa.snippet ? '\nAnswer Snippet: ' + paa.snippet : ''}${paa.link ? '\nSource URL: ' + paa.link : ''}`;
     }
 
     case 'relatedSearches': {
       const rs = featureData as RelatedSearch;
-      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nResult Type: Related Search\nPosition: ${index! + 1}\nSuggested Query: ${rs.query}`;
+      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nMarket: ${market}\nResult Type: Related Search\nPosition: ${index! + 1}\nSuggested Query: ${rs.query}`;
     }
 
     case 'aiOverview': {
       const ai = featureData as AiOverview;
       const sources = ai.sourceLinks ? ai.sourceLinks.map(s => `${s.title}: ${s.link}`).join('; ') : '';
-      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nResult Type: AI Overview\nAnswer: ${ai.answer}${sources ? '\nSources: ' + sources : ''}`;
+      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nMarket: ${market}\nResult Type: AI Overview\nAnswer: ${ai.answer}${sources ? '\nSources: ' + sources : ''}`;
     }
 
     case 'localResults': {
       const lr = featureData as LocalResult;
       const tags = lr.tags ? lr.tags.join(', ') : '';
-      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nResult Type: Local Result\nPosition: ${lr.position}\nBusiness Name: ${lr.title}\nAddress: ${lr.address}\nRating: ${lr.rating}\nReviews: ${lr.reviews}${tags ? '\nTags: ' + tags : ''}`;
+      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nMarket: ${market}\nResult Type: Local Result\nPosition: ${lr.position}\nBusiness Name: ${lr.title}\nAddress: ${lr.address}\nRating: ${lr.rating}\nReviews: ${lr.reviews}${tags ? '\nTags: ' + tags : ''}`;
     }
 
     case 'videoResults': {
       const vr = featureData as VideoResult;
-      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nResult Type: Video\nPosition: ${index! + 1}\nTitle: ${vr.title}\nDuration: ${vr.duration}${vr.link ? '\nURL: ' + vr.link : ''}`;
+      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nMarket: ${market}\nResult Type: Video\nPosition: ${index! + 1}\nTitle: ${vr.title}\nDuration: ${vr.duration}${vr.link ? '\nURL: ' + vr.link : ''}`;
     }
 
     case 'knowledgeGraph': {
       const kg = featureData as KnowledgeGraph;
-      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nResult Type: Knowledge Graph\nTitle: ${kg.title}\nType: ${kg.type || 'N/A'}\nDescription: ${kg.description || 'N/A'}${kg.website ? '\nWebsite: ' + kg.website : ''}`;
+      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nMarket: ${market}\nResult Type: Knowledge Graph\nTitle: ${kg.title}\nType: ${kg.type || 'N/A'}\nDescription: ${kg.description || 'N/A'}${kg.website ? '\nWebsite: ' + kg.website : ''}`;
+    }
+
+    case 'images': {
+      const img = featureData as ImageResult;
+      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nMarket: ${market}\nResult Type: Image\nPosition: ${img.position}\nTitle: ${img.title}\nSource: ${img.source}\nDomain: ${metadata.domain || ''}\nURL: ${img.link}`;
+    }
+
+    case 'news': {
+      const news = featureData as NewsResult;
+      return `Query: ${query}\nSERP Date: ${iso_date}\nSERP Features: ${serp_features.join(', ')}\nCluster: ${cluster}\nMarket: ${market}\nResult Type: News\nPosition: ${news.position}\nTitle: ${news.title}\nSource: ${news.source}\nDomain: ${metadata.domain || ''}${news.date ? '\nPublished Date: ' + news.date : ''}${news.snippet ? '\nSnippet: ' + news.snippet : ''}\nURL: ${news.link}`;
     }
 
     default:
       throw new Error(`Unknown feature: ${feature}`);
   }
-}
\ No newline at end of file
+}
+
+const LEGACY_HEADER_PLACEHOLDER = /^H[1-3] unavailable/;
+
+// Reads the "Page H1/H2/H3" lines written for organic results back out of a text blob.
+// Returns null when the blob has no heading lines or only the placeholders of failed fetches.
+export function parsePageHeaders(textBlob: string): PageHeaders | null {
+  const readLine = (label: string): string | null => {
+    const line = textBlob.split('\n').find(l => l.startsWith(`${label}: `));
+    const value = line?.slice(label.length + 2).trim();
+    return value && !LEGACY_HEADER_PLACEHOLDER.test(value) ? value : null;
+  };
+  const splitList = (value: string | null): string[] => (value ? value.split('; ').filter(Boolean) : []);
+
+  const headers: PageHeaders = {
+    h1: readLine('Page H1'),
+    h2: splitList(readLine('Page H2')),
+    h3: splitList(readLine('Page H3'))
+  };
+  return headers.h1 || headers.h2.length > 0 || headers.h3.length > 0 ? headers : null;
+}
@@ -0,0 +1,367 @@
+import { readContentField } from './auditUtils';
+import { formatMarket, pickMarket, resolveMarket } from './clusterUtils';
+import { normalizeUrl } from './urlUtils';
+import type {
+  DomainVisibility,
+  FingerprintResult,
+  QueryTrend,
+  RankEvent,
+  RankPoint,
+  RankSeries,
+  RankSnapshot,
+  SerpMetadata,
+  SnapshotFingerprintRow,
+  TimeRange,
+  TrendReport
+} from '../src/types';
+
+const TOP_RESULTS = 10;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// A projection needs this many observations, and extends the slope this many weeks
+const MIN_FORECAST_POINTS = 3;
+const FORECAST_WEEKS = 4;
+// Slopes smaller than this, in positions per week, are reported as flat
+const FLAT_SLOPE = 0.05;
+
+const MAX_PROMPT_QUERIES = 5;
+const MAX_PROMPT_DOMAINS = 8;
+const MAX_PROMPT_URLS = 5;
+const MAX_PROMPT_VISIBILITY = 10;
+const MAX_PROMPT_EVENTS = 30;
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number | null {
+  const average = mean(values);
+  if (average === null || values.length < 2) return null;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length);
+}
+
+// Least-squares slope of position over time, in positions per week
+function slopePerWeek(points: { time: number; position: number }[]): number | null {
+  if (points.length < 2) return null;
+  const xs = points.map(point => point.time / WEEK_MS);
+  const ys = points.map(point => point.position);
+  const xMean = mean(xs) ?? 0;
+  const yMean = mean(ys) ?? 0;
+  const spread = xs.reduce((sum, x) => sum + (x - xMean) ** 2, 0);
+  if (spread === 0) return null;
+  return xs.reduce((sum, x, i) => sum + (x - xMean) * (ys[i] - yMean), 0) / spread;
+}
+
+// Date-only ends of a window include the whole day
+export function inclusiveEnd(date: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T23:59:59.999Z` : date;
+}
+
+// Documents stored before page fetching have no URL line; their domain and path identify them instead
+function documentUrl(content: string, metadata: SerpMetadata): string {
+  const url = readContentField(content, 'URL') ?? `https://${metadata.domain}/${metadata.categories.join('/')}`;
+  return normalizeUrl(url);
+}
+
+// Keeps the best position of a URL listed more than once
+function addResult(results: Map<string, FingerprintResult>, result: FingerprintResult): void {
+  const existing = results.get(result.url);
+  if (!existing || result.position < existing.position) results.set(result.url, result);
+}
+
+function byPosition(results: Map<string, FingerprintResult>): FingerprintResult[] {
+  return [...results.values()].sort((a, b) => a.position - b.position);
+}
+
+function seriesKey(snapshot: RankSnapshot): string {
+  return `${snapshot.query}|${formatMarket(snapshot.market)}`;
+}
+
+// Organic results of every snapshot in the window, baselines and deltas alike, from the fingerprint
+// each serp_snapshots row keeps. Snapshots without one (seeded outside the pipeline, or from the local
+// backend) are read from their documents. Ordered by query, market and capture time.
+export function buildRankSnapshots(
+  fingerprints: SnapshotFingerprintRow[],
+  documents: { content: string; metadata: SerpMetadata }[]
+): RankSnapshot[] {
+  const snapshots = new Map<string, RankSnapshot>();
+  for (const row of fingerprints) {
+    if (!row.fingerprint) continue;
+    const results = new Map<string, FingerprintResult>();
+    for (const result of row.fingerprint.organic) addResult(results, result);
+    snapshots.set(row.snapshot_id, {
+      id: row.snapshot_id,
+      query: row.query,
+      market: resolveMarket(pickMarket(row)),
+      capturedAt: row.captured_at,
+      source: 'fingerprint',
+      results: byPosition(results)
+    });
+  }
+
+  const fromDocuments = new Map<string, { snapshot: RankSnapshot; results: Map<string, FingerprintResult> }>();
+  for (const { content, metadata } of documents) {
+    if (metadata.type !== 'organic' || metadata.position === undefined || snapshots.has(metadata.serp_id)) continue;
+    let entry = fromDocuments.get(metadata.serp_id);
+    if (!entry) {
+      entry = {
+        snapshot: {
+          id: metadata.serp_id,
+          query: metadata.query,
+          market: resolveMarket(pickMarket(metadata)),
+          capturedAt: metadata.iso_date,
+          source: 'documents',
+          results: []
+        },
+        results: new Map()
+      };
+      fromDocuments.set(metadata.serp_id, entry);
+    }
+    addResult(entry.results, { url: documentUrl(content, metadata), domain: metadata.domain, position: metadata.position });
+  }
+  for (const { snapshot, results } of fromDocuments.values()) {
+    snapshots.set(snapshot.id, { ...snapshot, results: byPosition(results) });
+  }
+
+  return [...snapshots.values()].sort((a, b) =>
+    seriesKey(a).localeCompare(seriesKey(b)) || Date.parse(a.capturedAt) - Date.parse(b.capturedAt)
+  );
+}
+
+function rankSeries(key: string, domain: string, points: RankPoint[]): RankSeries {
+  const held = points
+    .filter((point): point is RankPoint & { position: number } => point.position !== null)
+    .map(point => ({ time: Date.parse(point.capturedAt), position: point.position }));
+  const start = held[0]?.time ?? 0;
+  const positions = held.map(point => point.position);
+  const latestPosition = points[points.length - 1]?.position ?? null;
+  const slope = slopePerWeek(held.map(point => ({ time: point.time - start, position: point.position })));
+  const average = mean(positions);
+  const volatility = standardDeviation(positions);
+
+  let projectedPosition: number | null = null;
+  if (latestPosition !== null && slope !== null && held.length >= MIN_FORECAST_POINTS) {
+    projectedPosition = round(Math.max(1, latestPosition + slope * FORECAST_WEEKS), 1);
+  }
+
+  return {
+    key,
+    domain,
+    points,
+    observations: held.length,
+    firstPosition: positions[0] ?? null,
+    latestPosition,
+    bestPosition: positions.length > 0 ? Math.min(...positions) : null,
+    averagePosition: average === null ? null : round(average),
+    volatility: volatility === null ? null : round(volatility),
+    slopePerWeek: slope === null ? null : round(slope),
+    projectedPosition
+  };
+}
+
+// Ranked first by where they are now, then by where they usually were
+function bySeriesStanding(a: RankSeries, b: RankSeries): number {
+  const rank = (position: number | null) => position ?? Number.POSITIVE_INFINITY;
+  return rank(a.latestPosition) - rank(b.latestPosition)
+    || rank(a.averagePosition) - rank(b.averagePosition)
+    || a.key.localeCompare(b.key);
+}
+
+function topResults(snapshot: RankSnapshot): FingerprintResult[] {
+  return snapshot.results.filter(result => result.position <= TOP_RESULTS);
+}
+
+// Share of a snapshot's visibility per domain, each result weighted by the reciprocal of its position
+function visibilityShares(snapshot: RankSnapshot): Map<string, number> {
+  const shares = new Map<string, number>();
+  const results = topResults(snapshot);
+  const total = results.reduce((sum, result) => sum + 1 / result.position, 0);
+  if (total === 0) return shares;
+  for (const result of results) {
+    shares.set(result.domain, (shares.get(result.domain) ?? 0) + 1 / result.position / total);
+  }
+  return shares;
+}
+
+function queryEvents(snapshots: RankSnapshot[]): RankEvent[] {
+  const events: RankEvent[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    const before = new Map(topResults(snapshots[i - 1]).map(result => [result.url, result]));
+    const after = new Map(topResults(snapshots[i]).map(result => [result.url, result]));
+    const { query, capturedAt } = snapshots[i];
+    const market = formatMarket(snapshots[i].market);
+    for (const result of after.values()) {
+      if (!before.has(result.url)) {
+        events.push({ type: 'entry', query, market, capturedAt, url: result.url, domain: result.domain, position: result.position });
+      }
+    }
+    for (const result of before.values()) {
+      if (!after.has(result.url)) {
+        events.push({ type: 'exit', query, market, capturedAt, url: result.url, domain: result.domain, previous_position: result.position });
+      }
+    }
+  }
+  return events;
+}
+
+function analyzeQuery(snapshots: RankSnapshot[]): QueryTrend {
+  const urlDomains = new Map<string, string>();
+  const domains = new Set<string>();
+  for (const snapshot of snapshots) {
+    for (const result of topResults(snapshot)) {
+      urlDomains.set(result.url, result.domain);
+      domains.add(result.domain);
+    }
+  }
+
+  const urls = [...urlDomains.entries()].map(([url, domain]) => rankSeries(url, domain, snapshots.map(snapshot => ({
+    capturedAt: snapshot.capturedAt,
+    position: topResults(snapshot).find(result => result.url === url)?.position ?? null
+  }))));
+  const domainSeries = [...domains].map(domain => rankSeries(domain, domain, snapshots.map(snapshot => {
+    const positions = topResults(snapshot).filter(result => result.domain === domain).map(result => result.position);
+    return { capturedAt: snapshot.capturedAt, position: positions.length > 0 ? Math.min(...positions) : null };
+  })));
+
+  const churnRates: number[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    const before = new Set(topResults(snapshots[i - 1]).map(result => result.url));
+    const after = topResults(snapshots[i]);
+    if (after.length > 0) churnRates.push(after.filter(result => !before.has(result.url)).length / after.length);
+  }
+  const churn = mean(churnRates);
+
+  return {
+    query: snapshots[0].query,
+    market: formatMarket(snapshots[0].market),
+    snapshots: snapshots.length,
+    firstCapturedAt: snapshots[0].capturedAt,
+    lastCapturedAt: snapshots[snapshots.length - 1].capturedAt,
+    churn: churn === null ? null : round(churn),
+    domains: domainSeries.sort(bySeriesStanding),
+    urls: urls.sort(bySeriesStanding)
+  };
+}
+
+// Visibility per query and market is averaged over its snapshots, then over the queries, so that
+// queries scraped more often do not weigh more
+function domainVisibility(byQuery: RankSnapshot[][]): DomainVisibility[] {
+  const totals = new Map<string, { share: number; firstShare: number; lastShare: number; queries: number }>();
+  for (const snapshots of byQuery) {
+    const shares = snapshots.map(visibilityShares);
+    const domains = new Set(shares.flatMap(share => [...share.keys()]));
+    for (const domain of domains) {
+      const total = totals.get(domain) ?? { share: 0, firstShare: 0, lastShare: 0, queries: 0 };
+      total.share += (mean(shares.map(share => share.get(domain) ?? 0)) ?? 0) / byQuery.length;
+      total.firstShare += (shares[0].get(domain) ?? 0) / byQuery.length;
+      total.lastShare += (shares[shares.length - 1].get(domain) ?? 0) / byQuery.length;
+      total.queries++;
+      totals.set(domain, total);
+    }
+  }
+  return [...totals.entries()]
+    .map(([domain, total]) => ({
+      domain,
+      share: round(total.share, 4),
+      firstShare: round(total.firstShare, 4),
+      lastShare: round(total.lastShare, 4),
+      queries: total.queries
+    }))
+    .sort((a, b) => b.share - a.share || a.domain.localeCompare(b.domain));
+}
+
+// Position history of the top results of every query in each of its markets across its snapshots.
+// Deterministic: the same snapshots give the same report.
+export function analyzeTrends(snapshots: RankSnapshot[], window: TimeRange, cluster: string | null = null): TrendReport {
+  const byQuery = new Map<string, RankSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const key = seriesKey(snapshot);
+    byQuery.set(key, [...(byQuery.get(key) ?? []), snapshot]);
+  }
+  const series = [...byQuery.values()].map(querySnapshots =>
+    [...querySnapshots].sort((a, b) => Date.parse(a.capturedAt) - Date.parse(b.capturedAt))
+  );
+
+  return {
+    cluster,
+    window,
+    snapshots: snapshots.length,
+    documentSnapshots: snapshots.filter(snapshot => snapshot.source === 'documents').length,
+    queries: series.map(analyzeQuery),
+    visibility: domainVisibility(series),
+    events: series
+      .flatMap(queryEvents)
+      .sort((a, b) => Date.parse(a.capturedAt) - Date.parse(b.capturedAt) || a.query.localeCompare(b.query) || a.market.localeCompare(b.market))
+  };
+}
+
+function percent(share: number): string {
+  return `${round(share * 100, 1)}%`;
+}
+
+function describeSlope(slope: number | null): string {
+  if (slope === null) return 'no trend (too few observations)';
+  if (Math.abs(slope) < FLAT_SLOPE) return 'flat';
+  return `${slope < 0 ? 'moving up' : 'moving down'} ${Math.abs(slope)} positions per week`;
+}
+
+function describeSeries(series: RankSeries, snapshots: number): string {
+  const position = (value: number | null) => (value === null ? 'out' : `#${value}`);
+  const parts = [
+    `#${series.firstPosition} when first seen → ${position(series.latestPosition)} latest`,
+    `best #${series.bestPosition}, average #${series.averagePosition}`,
+    `in the top ${TOP_RESULTS} of ${series.observations} of ${snapshots} snapshots`,
+    `volatility ${series.volatility ?? 'n/a'}`,
+    describeSlope(series.slopePerWeek)
+  ];
+  if (series.projectedPosition !== null) {
+    const projected = series.projectedPosition > TOP_RESULTS ? `below #${TOP_RESULTS}` : `#${series.projectedPosition}`;
+    parts.push(`projected ${projected} in ${FORECAST_WEEKS} weeks if the slope holds`);
+  }
+  return `- ${series.key}: ${parts.join('; ')}`;
+}
+
+// Report as prompt text; the model narrates it and must not add numbers of its own
+export function formatTrendReport(report: TrendReport): string {
+  const lines = [
+    `Scope: ${report.cluster ? `cluster "${report.cluster}", ` : ''}${report.queries.length} tracked ${report.queries.length === 1 ? 'query' : 'queries'} (a query tracked in several markets counts once per market)`,
+    `Window: ${report.window.start} to ${report.window.end}`,
+    `Snapshots: ${report.snapshots}`,
+    `Positions are in the top ${TOP_RESULTS} organic results. Volatility is the standard deviation of the positions held. Slopes are least-squares fits over time.`,
+    '',
+    'Visibility share (results weighted by 1/position), whole window; first snapshot → latest snapshot:'
+  ];
+  report.visibility.slice(0, MAX_PROMPT_VISIBILITY).forEach((item, index) => {
+    lines.push(`${index + 1}. ${item.domain}: ${percent(item.share)}; ${percent(item.firstShare)} → ${percent(item.lastShare)}; ranks for ${item.queries} of ${report.queries.length} queries`);
+  });
+
+  const detailed = [...report.queries].sort((a, b) => b.snapshots - a.snapshots).slice(0, MAX_PROMPT_QUERIES);
+  for (const query of detailed) {
+    lines.push(
+      '',
+      `## Query "${query.query}" (${query.market}): ${query.snapshots} snapshots from ${query.firstCapturedAt} to ${query.lastCapturedAt}; average churn ${query.churn === null ? 'n/a' : percent(query.churn)} of the top results per snapshot`,
+      'Domains (best-ranking URL per snapshot):',
+      ...query.domains.slice(0, MAX_PROMPT_DOMAINS).map(series => describeSeries(series, query.snapshots)),
+      'URLs:',
+      ...query.urls.slice(0, MAX_PROMPT_URLS).map(series => describeSeries(series, query.snapshots))
+    );
+  }
+  if (report.queries.length > detailed.length) {
+    lines.push('', `(${report.queries.length - detailed.length} more queries with fewer snapshots omitted)`);
+  }
+
+  lines.push('', 'Entries into and exits from the top results:');
+  if (report.events.length === 0) lines.push('(none)');
+  for (const event of report.events.slice(0, MAX_PROMPT_EVENTS)) {
+    const change = event.type === 'entry' ? `entered at #${event.position}` : `dropped out from #${event.previous_position}`;
+    lines.push(`- [${event.capturedAt.split('T')[0]}] ${event.query} (${event.market}): ${event.url} ${change}`);
+  }
+  if (report.events.length > MAX_PROMPT_EVENTS) {
+    lines.push(`(${report.events.length - MAX_PROMPT_EVENTS} more events omitted)`);
+  }
+  return lines.join('\n');
+}
@@ -15,4 +15,29 @@ export function extractDomain(link: string): string {
   } catch {
     return '';
   }
-}
\ No newline at end of file
+}
+
+// Comparable form of a result URL: lowercase host, no fragment, no trailing slash
+export function normalizeUrl(link: string): string {
+  try {
+    const url = new URL(link);
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase();
+    const normalized = url.toString();
+    return url.pathname !== '/' && normalized.endsWith('/') && !url.search ? normalized.slice(0, -1) : normalized;
+  } catch {
+    return link.trim();
+  }
+}
+
+// First web address in free text, e.g. a chat question; www. addresses get https://
+export function extractUrl(text: string): string | null {
+  const match = text.match(/\b(?:https?:\/\/|www\.)[^\s<>"'`]+/i);
+  if (!match) return null;
+  const candidate = match[0].replace(/[.,;:!?)\]]+$/, '');
+  try {
+    return new URL(/^https?:\/\//i.test(candidate) ? candidate : `https://${candidate}`).toString();
+  } catch {
+    return null;
+  }
+}